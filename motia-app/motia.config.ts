@@ -4,7 +4,12 @@ import logsPlugin from '@motiadev/plugin-logs/plugin'
 import observabilityPlugin from '@motiadev/plugin-observability/plugin'
 import statesPlugin from '@motiadev/plugin-states/plugin'
 import bullmqPlugin from '@motiadev/plugin-bullmq/plugin'
+import { FORECAST_EXPORT_PATH, handleForecastExport } from './src/forecast/forecast-export-route'
 
 export default defineConfig({
   plugins: [observabilityPlugin, statesPlugin, endpointPlugin, logsPlugin, bullmqPlugin],
+  // Streams its response, which an API step cannot do
+  app: (app) => {
+    app.get(FORECAST_EXPORT_PATH, handleForecastExport)
+  },
 })
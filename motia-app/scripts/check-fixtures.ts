@@ -0,0 +1,119 @@
+/**
+ * Checks the recorded payloads in fixtures/ against the pure mapping functions and the recorded
+ * explanation provider, without a database, a shop or a provider: npm run check:fixtures. Exits non-zero if any check fails.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { z } from 'zod';
+import {
+  localDate,
+  orderSalesLines,
+  shopifyOrderSchema,
+  shopifyProductSchema,
+  variantInventoryItems
+} from '../src/lib/shopify';
+import { readRecordings, recordedProvider, recordingKey } from '../src/lib/explanations/recorded';
+import { validateRationale } from '../src/lib/explanations/validation';
+import type { ExplanationRequest } from '../src/lib/explanations/types';
+
+function readFixture(path: string): unknown {
+  return JSON.parse(readFileSync(resolve(process.cwd(), 'fixtures', path), 'utf8'));
+}
+
+const checks: Array<[string, () => void | Promise<void>]> = [];
+
+function check(name: string, run: () => void | Promise<void>): void {
+  checks.push([name, run]);
+}
+
+const { orders } = z.object({ orders: z.array(shopifyOrderSchema) }).parse(readFixture('shopify/orders.json'));
+const { products } = z.object({ products: z.array(shopifyProductSchema) }).parse(readFixture('shopify/products.json'));
+
+const linesOf = (orderId: string) => {
+  const order = orders.find(candidate => candidate.id === orderId);
+  assert.ok(order, `order ${orderId} missing from fixtures/shopify/orders.json`);
+  return orderSalesLines(order, 'Asia/Tokyo');
+};
+
+check('shopify: a partial refund is netted against the order day', () => {
+  const { lines, skipped } = linesOf('5801234560001');
+
+  assert.deepEqual(lines.map(line => [line.sku, line.salesDate, line.quantity]), [['TEA-SEN-100', '2025-01-15', 2]]);
+  // The tip has no SKU
+  assert.deepEqual(skipped, ['14501234560002']);
+});
+
+check('shopify: a cancelled order keeps its lines at quantity 0', () => {
+  const { lines } = linesOf('5801234560003');
+
+  assert.deepEqual(lines.map(line => [line.sku, line.quantity]), [['TEA-SEN-200', 0]]);
+});
+
+check('shopify: an order just after local midnight belongs to the local day', () => {
+  const createdAt = orders.find(order => order.id === '5801234560002')?.created_at ?? '';
+
+  assert.equal(localDate(createdAt, 'Asia/Tokyo'), '2025-01-16');
+  assert.equal(localDate(createdAt, 'UTC'), '2025-01-15');
+  // Without a store time zone the timestamp's own offset decides
+  assert.equal(localDate(createdAt), '2025-01-16');
+  assert.deepEqual(linesOf('5801234560002').lines.map(line => line.salesDate), ['2025-01-16', '2025-01-16']);
+});
+
+check('shopify: variants without a SKU have no inventory item mapping', () => {
+  assert.deepEqual(variantInventoryItems(products), [
+    { inventoryItemId: '46011112220001', sku: 'TEA-SEN-100' },
+    { inventoryItemId: '46011112220002', sku: 'TEA-SEN-200' }
+  ]);
+});
+
+const signal = new AbortController().signal;
+
+const explanationRequest: ExplanationRequest = {
+  locale: 'en',
+  movingAverage: 12.4,
+  trendSlope: 0.1,
+  historicalDataPoints: 90,
+  forecastHorizon: 7,
+  forecastValues: [12, 13, 12, 14, 13, 12, 13],
+  averageDailyForecast: 12.7,
+  productId: 'fixture-product',
+  product: { sku: 'TEA-SEN-100', name: 'Sencha 100g' },
+  model: { name: 'moving_average' },
+  interval: { confidencePercent: 95, averageWidth: 6, relativePercent: 47 },
+  dataQualityWarnings: []
+};
+
+check('explanations: a recorded reply is replayed for the same prompt only', async () => {
+  const provider = recordedProvider({ recordings: { [recordingKey(explanationRequest)]: 'recorded reply' } });
+
+  assert.deepEqual(await provider.explain(explanationRequest, signal), { text: 'recorded reply' });
+  await assert.rejects(provider.explain({ ...explanationRequest, forecastHorizon: 14 }, signal), /No recorded explanation/);
+});
+
+check('explanations: the recorded default stands in for unrecorded prompts and passes validation', async () => {
+  const recordings = readRecordings(resolve(process.cwd(), 'fixtures', 'explanations/recordings.json'));
+  const reply = await recordedProvider(recordings).explain({ ...explanationRequest, productId: 'never-recorded' }, signal);
+
+  assert.ok(recordings.default, 'fixtures/explanations/recordings.json has no default');
+  assert.equal(reply.text, recordings.default);
+  const validated = validateRationale(reply.text, explanationRequest);
+  assert.notEqual(validated.validation.status, 'rejected', validated.validation.issues.join('; '));
+  assert.match(validated.rationale ?? '', /^Recorded explanation:/);
+});
+
+let failed = 0;
+
+for (const [name, run] of checks) {
+  try {
+    await run();
+    console.log(`ok   ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`FAIL ${name}\n     ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+console.log(`${checks.length - failed}/${checks.length} fixture checks passed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,26 @@
+import type { CronConfig, Handlers } from 'motia';
+
+/**
+ * Nightly trigger for forecast evaluation.
+ * The work happens in EvaluateForecasts (an event step) so it gets queue retries;
+ * cron steps themselves are never retried.
+ */
+export const config: CronConfig = {
+  name: 'EvaluateForecastsCron',
+  type: 'cron',
+  description: 'Schedules evaluation of persisted forecasts against actual sales',
+  cron: process.env.FORECAST_EVALUATION_CRON || '30 2 * * *',
+  emits: ['evaluate-forecasts'],
+  flows: ['forecast_evaluation']
+};
+
+export const handler: Handlers['EvaluateForecastsCron'] = async ({ emit, logger }) => {
+  const triggeredAt = new Date().toISOString();
+
+  logger.info('Scheduling forecast evaluation', { triggeredAt });
+
+  await emit({
+    topic: 'evaluate-forecasts',
+    data: { triggeredAt }
+  });
+};
@@ -0,0 +1,208 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { addDays, todayIsoDate } from '../lib/dates';
+import { computeAccuracy } from '../lib/accuracy';
+import { fetchDailySalesForProducts } from '../lib/facts';
+
+const inputSchema = z.object({
+  triggeredAt: z.string(),
+  asOf: z.string().optional()
+});
+
+const PAGE_SIZE = 500;
+
+function actualsKey(productId: string, storeId: string | null, date: string): string {
+  return `${productId}:${storeId ?? '*'}:${date}`;
+}
+
+interface ForecastResultRow {
+  id: string;
+  product_id: string;
+  /** null on chain-level rows, which are evaluated against the sales of every store */
+  store_id: string | null;
+  forecast_date: string;
+  period_start: string | null;
+  period_end: string | null;
+  forecast_quantity: number;
+  forecast_lower: number | null;
+  forecast_upper: number | null;
+  model_version: string;
+}
+
+export const config: EventConfig = {
+  name: 'EvaluateForecasts',
+  type: 'event',
+  description: 'Compares persisted forecasts with actual daily sales and records forecast evaluations',
+  subscribes: ['evaluate-forecasts'],
+  emits: ['forecast-evaluated'],
+  flows: ['forecast_evaluation'],
+  input: inputSchema
+};
+
+export const handler: Handlers['EvaluateForecasts'] = async (input, { logger, emit }) => {
+  logger.info('=== EVALUATE FORECASTS STEP STARTED ===');
+
+  // Only periods that ended before asOf can have complete actuals
+  const asOf = input.asOf ?? todayIsoDate();
+  const lastCompleteDate = addDays(asOf, -1);
+
+  logger.info('Looking for forecast results without evaluations', {
+    triggeredAt: input.triggeredAt,
+    asOf,
+    lastCompleteDate,
+    step: 'evaluate_forecasts'
+  });
+
+  const evaluated: Array<{ row: ForecastResultRow; actual: number }> = [];
+  let lastId: string | null = null;
+  let pendingWithoutActuals = 0;
+
+  // Keyset pagination: rows that get evaluated drop out of the anti-join,
+  // so paging by offset would skip rows
+  for (;;) {
+    let query = supabase
+      .from('f1_forecast_results')
+      .select('id, product_id, store_id, forecast_date, period_start, period_end, forecast_quantity, forecast_lower, forecast_upper, model_version, f1_forecast_evaluations(id)')
+      .is('f1_forecast_evaluations', null)
+      // SKU, store and grand totals of hierarchical forecasts have no single product to compare with
+      .not('product_id', 'is', null)
+      .lte('forecast_date', lastCompleteDate)
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Failed to load forecast results for evaluation', {
+        error: error.message,
+        step: 'evaluate_forecasts'
+      });
+      throw new Error(`Failed to load forecast results for evaluation: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as ForecastResultRow[];
+    if (rows.length === 0) {
+      break;
+    }
+    lastId = rows[rows.length - 1].id;
+
+    // Load the actuals covering every period on this page, paged so none are cut off
+    const candidates = rows.filter(row => (row.period_end ?? row.forecast_date) <= lastCompleteDate);
+    const productIds = [...new Set(candidates.map(row => row.product_id))];
+    const fromDate = candidates.reduce((min, row) => {
+      const start = row.period_start ?? row.forecast_date;
+      return start < min ? start : min;
+    }, lastCompleteDate);
+
+    const actualsByKey = new Map<string, number>();
+    if (productIds.length > 0) {
+      const { data: salesData, error: salesError } = await fetchDailySalesForProducts(productIds, fromDate, lastCompleteDate);
+
+      if (salesError) {
+        logger.error('Failed to load daily sales for evaluation', {
+          error: salesError.message,
+          step: 'evaluate_forecasts'
+        });
+        throw new Error(`Failed to load daily sales for evaluation: ${salesError.message}`);
+      }
+
+      // Per store, plus the all-store total that chain-level rows are compared with
+      for (const sale of salesData ?? []) {
+        const chainKey = actualsKey(sale.productId, null, sale.date);
+        actualsByKey.set(actualsKey(sale.productId, sale.storeId, sale.date), sale.value);
+        actualsByKey.set(chainKey, (actualsByKey.get(chainKey) ?? 0) + sale.value);
+      }
+    }
+
+    const pageEvaluations: Array<{ row: ForecastResultRow; actual: number }> = [];
+    for (const row of candidates) {
+      const start = row.period_start ?? row.forecast_date;
+      const end = row.period_end ?? row.forecast_date;
+
+      // A period is evaluated once its last day has a sales fact
+      if (!actualsByKey.has(actualsKey(row.product_id, row.store_id, end))) {
+        pendingWithoutActuals += 1;
+        continue;
+      }
+
+      let actual = 0;
+      for (let date = start; date <= end; date = addDays(date, 1)) {
+        actual += actualsByKey.get(actualsKey(row.product_id, row.store_id, date)) ?? 0;
+      }
+      pageEvaluations.push({ row, actual });
+    }
+
+    if (pageEvaluations.length > 0) {
+      // The unique key on forecast_result_id makes re-delivery and overlapping runs no-ops
+      const { error: insertError } = await supabase
+        .from('f1_forecast_evaluations')
+        .upsert(
+          pageEvaluations.map(({ row, actual }) => ({
+            forecast_result_id: row.id,
+            actual_quantity: actual,
+            error: actual - row.forecast_quantity
+          })),
+          { onConflict: 'forecast_result_id', ignoreDuplicates: true }
+        );
+
+      if (insertError) {
+        logger.error('Failed to write forecast evaluations', {
+          error: insertError.message,
+          evaluationCount: pageEvaluations.length,
+          step: 'evaluate_forecasts'
+        });
+        throw new Error(`Failed to write forecast evaluations: ${insertError.message}`);
+      }
+
+      evaluated.push(...pageEvaluations);
+    }
+
+    if (rows.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  // Aggregate accuracy per product, store and model_version for the evaluations written in this run
+  const groups = new Map<string, Array<{ row: ForecastResultRow; actual: number }>>();
+  for (const evaluation of evaluated) {
+    const key = `${evaluation.row.product_id}|${evaluation.row.store_id ?? 'chain'}|${evaluation.row.model_version}`;
+    groups.set(key, [...(groups.get(key) ?? []), evaluation]);
+  }
+
+  const metrics = [...groups.values()].map(group => ({
+    productId: group[0].row.product_id,
+    storeId: group[0].row.store_id,
+    modelVersion: group[0].row.model_version,
+    ...computeAccuracy(group.map(({ row, actual }) => ({
+      actual,
+      forecast: row.forecast_quantity,
+      lower: row.forecast_lower ?? undefined,
+      upper: row.forecast_upper ?? undefined
+    })))
+  }));
+
+  logger.info('Forecast evaluations recorded', {
+    asOf,
+    evaluationCount: evaluated.length,
+    pendingWithoutActuals,
+    groups: metrics.length,
+    step: 'evaluate_forecasts'
+  });
+
+  await emit({
+    topic: 'forecast-evaluated',
+    data: {
+      asOf,
+      evaluatedAt: new Date().toISOString(),
+      evaluationCount: evaluated.length,
+      metrics
+    }
+  });
+
+  logger.info('=== EVALUATE FORECASTS STEP COMPLETED SUCCESSFULLY ===');
+};
@@ -0,0 +1,49 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { accuracyMetricsSchema } from '../lib/accuracy';
+
+export const FORECAST_ACCURACY_GROUP = 'forecast-accuracy';
+
+const inputSchema = z.object({
+  asOf: z.string(),
+  evaluatedAt: z.string(),
+  evaluationCount: z.number(),
+  metrics: z.array(accuracyMetricsSchema.extend({
+    productId: z.string(),
+    // null for chain-level (all stores) forecasts
+    storeId: z.string().nullable(),
+    modelVersion: z.string()
+  }))
+});
+
+export const config: EventConfig = {
+  name: 'RecordForecastAccuracy',
+  type: 'event',
+  description: 'Keeps the latest forecast accuracy per product, store and model version in state',
+  subscribes: ['forecast-evaluated'],
+  emits: [],
+  flows: ['forecast_evaluation'],
+  input: inputSchema
+};
+
+export const handler: Handlers['RecordForecastAccuracy'] = async (input, { logger, state }) => {
+  for (const metric of input.metrics) {
+    await state.set(FORECAST_ACCURACY_GROUP, `${metric.productId}:${metric.storeId ?? 'chain'}:${metric.modelVersion}`, {
+      ...metric,
+      asOf: input.asOf,
+      evaluatedAt: input.evaluatedAt
+    });
+
+    logger.info('Forecast accuracy recorded', {
+      productId: metric.productId,
+      storeId: metric.storeId,
+      modelVersion: metric.modelVersion,
+      count: metric.count,
+      mae: metric.mae,
+      mape: metric.mape,
+      smape: metric.smape,
+      bias: metric.bias,
+      step: 'record_forecast_accuracy'
+    });
+  }
+};
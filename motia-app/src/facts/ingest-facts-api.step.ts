@@ -0,0 +1,227 @@
+/**
+ * Facts Ingestion API Endpoint
+ *
+ * POST /api/facts/sales and POST /api/facts/inventory load daily sales and inventory
+ * snapshots. The body is a JSON array of rows ({ storeId, sku, date, quantity } or
+ * { storeId, sku, date, inventoryLevel }) or CSV sent as text/plain with the header
+ * store_id,sku,sales_date,quantity (snapshot_date,inventory_level for inventory).
+ * Valid rows are upserted and every rejected row is reported with its reason.
+ * Query: reforecast=true starts a forecast batch over the products that received rows.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import {
+  csvColumns,
+  csvFactRows,
+  factKindSchema,
+  jsonFactRows,
+  MAX_INGEST_ROWS,
+  resolveFactProducts,
+  sortRowErrors,
+  upsertFacts,
+  validateFactRows
+} from '../lib/facts-ingest';
+import type { RawFactRow } from '../lib/facts-ingest';
+import { activeLanes, createBatchId, DEFAULT_BATCH_CONCURRENCY, saveForecastBatch } from '../lib/forecast-batch';
+import { DEFAULT_TIME_RANGE } from '../lib/time-range';
+import { todayIsoDate } from '../lib/dates';
+
+const errorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'IngestFactsAPI',
+  type: 'api',
+  path: '/api/facts/:kind',
+  method: 'POST',
+  description: 'Validates and upserts daily sales or inventory snapshots sent as JSON or CSV',
+  emits: ['dispatch-forecast-batch'],
+  flows: ['facts_ingestion'],
+  queryParams: [
+    { name: 'reforecast', description: 'true to forecast the products that received rows once they are written' }
+  ],
+  responseSchema: {
+    200: z.object({
+      kind: z.enum(['sales', 'inventory']),
+      format: z.enum(['json', 'csv']),
+      received: z.number(),
+      upserted: z.number(),
+      rejected: z.number(),
+      errors: z.array(z.object({
+        row: z.number(),
+        line: z.number().optional(),
+        field: z.string().optional(),
+        message: z.string()
+      })),
+      reforecast: z.object({
+        batchId: z.string(),
+        productCount: z.number()
+      }).optional()
+    }),
+    400: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export const handler: Handlers['IngestFactsAPI'] = async (req, { emit, logger, state }) => {
+  const parsedKind = factKindSchema.safeParse(req.pathParams.kind);
+
+  if (!parsedKind.success) {
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `Unknown fact kind ${req.pathParams.kind}; use /api/facts/sales or /api/facts/inventory`
+      }
+    };
+  }
+
+  const kind = parsedKind.data;
+  const reforecast = firstValue(req.queryParams.reforecast) === 'true';
+  const contentType = String(firstValue(req.headers['content-type']) ?? '');
+  const format = typeof req.body === 'string' ? 'csv' : 'json';
+  let rows: RawFactRow[];
+
+  try {
+    if (typeof req.body === 'string') {
+      rows = csvFactRows(kind, req.body);
+    } else if (Array.isArray(req.body)) {
+      rows = jsonFactRows(req.body);
+    } else if (contentType.includes('text/csv')) {
+      // Only JSON and text/plain bodies are parsed; anything else arrives empty
+      throw new Error('Send CSV with Content-Type: text/plain');
+    } else {
+      throw new Error(`Body must be a JSON array of rows or CSV with the header ${csvColumns(kind).join(',')}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unreadable body';
+
+    logger.warn('Rejected unreadable facts upload', { kind, contentType, message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  if (rows.length > MAX_INGEST_ROWS) {
+    logger.warn('Rejected oversized facts upload', { kind, rows: rows.length, max: MAX_INGEST_ROWS });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message: `Upload contains ${rows.length} rows (max ${MAX_INGEST_ROWS}); split it into several requests`
+      }
+    };
+  }
+
+  const { valid, errors: validationErrors } = validateFactRows(kind, rows);
+  const { data: lookup, error: lookupError } = await resolveFactProducts(valid);
+
+  if (lookupError || !lookup) {
+    logger.error('Failed to look up products for facts upload', {
+      kind,
+      error: lookupError?.message,
+      step: 'ingest_facts'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to look up products: ${lookupError?.message ?? 'no result'}`
+      }
+    };
+  }
+
+  const { upserted, error: upsertError } = await upsertFacts(kind, lookup.resolved);
+
+  if (upsertError) {
+    logger.error('Failed to upsert facts', {
+      kind,
+      upserted,
+      total: lookup.resolved.length,
+      error: upsertError.message,
+      step: 'ingest_facts'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to write ${kind} facts after ${upserted} of ${lookup.resolved.length} rows: ${upsertError.message}`
+      }
+    };
+  }
+
+  const errors = sortRowErrors([...validationErrors, ...lookup.errors]);
+  const rejected = new Set(errors.map(error => error.row)).size;
+
+  logger.info('Facts ingested', {
+    kind,
+    format,
+    received: rows.length,
+    upserted,
+    rejected,
+    step: 'ingest_facts'
+  });
+
+  const productIds = [...new Set(lookup.resolved.map(row => row.productId))].sort();
+  let batch: { batchId: string; productCount: number } | undefined;
+
+  if (reforecast && productIds.length > 0) {
+    const batchId = createBatchId();
+    const forecastBatch = await saveForecastBatch(state, {
+      batchId,
+      source: 'ingest',
+      concurrency: DEFAULT_BATCH_CONCURRENCY,
+      parameters: {
+        timeRange: DEFAULT_TIME_RANGE,
+        asOf: todayIsoDate()
+      },
+      productIds,
+      createdAt: new Date().toISOString()
+    });
+
+    logger.info('Re-forecasting products after facts ingestion', {
+      kind,
+      batchId,
+      productCount: productIds.length,
+      step: 'ingest_facts'
+    });
+
+    for (const lane of activeLanes(forecastBatch)) {
+      await emit({
+        topic: 'dispatch-forecast-batch',
+        data: { batchId, lane }
+      });
+    }
+
+    batch = { batchId, productCount: productIds.length };
+  }
+
+  return {
+    status: 200,
+    body: {
+      kind,
+      format,
+      received: rows.length,
+      upserted,
+      rejected,
+      errors,
+      reforecast: batch
+    }
+  };
+};
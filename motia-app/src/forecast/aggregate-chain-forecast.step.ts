@@ -0,0 +1,177 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { getForecastStatus, recordForecastStatus } from '../lib/forecast-status';
+import { appVersion, finishForecastRun, saveForecastRun } from '../lib/forecast-runs';
+import { CHAIN_MODEL_VERSION, getChainForecast, sumStoreForecasts } from '../lib/chain-forecast';
+import { DEFAULT_GRANULARITY } from '../lib/granularity';
+import { DEFAULT_INTERVAL_METHOD } from '../lib/models';
+import { DEFAULT_EXPLANATION_LOCALE } from '../lib/explanations';
+import type { ExplanationLocale } from '../lib/explanations';
+
+const inputSchema = z.object({
+  requestId: z.string()
+});
+
+// Store-level runs are generated at this level (see LoadHistoricalFacts)
+const CONFIDENCE_LEVEL = 0.95;
+
+export const config: EventConfig = {
+  name: 'AggregateChainForecast',
+  type: 'event',
+  description: 'Writes the chain-level forecast as the sum of the store-level forecasts',
+  subscribes: ['aggregate-chain-forecast'],
+  emits: [],
+  flows: ['forecast_pipeline'],
+  input: inputSchema
+};
+
+export const handler: Handlers['AggregateChainForecast'] = async (input, { logger, state }) => {
+  logger.info('=== AGGREGATE CHAIN FORECAST STEP STARTED ===');
+
+  const { requestId } = input;
+
+  const [chain, chainRun] = await Promise.all([
+    getChainForecast(state, requestId),
+    getForecastStatus(state, requestId)
+  ]);
+
+  if (!chain) {
+    logger.warn('Chain forecast not found', { requestId, step: 'aggregate_chain_forecast' });
+    return;
+  }
+
+  if (chainRun?.status === 'completed') {
+    logger.info('Chain forecast already aggregated', { requestId, step: 'aggregate_chain_forecast' });
+    return;
+  }
+
+  const storeRuns = await Promise.all(chain.storeIds.map(async storeId => ({
+    storeId,
+    run: chain.storeRuns[storeId] ? await getForecastStatus(state, chain.storeRuns[storeId]) : null
+  })));
+
+  // A total that silently leaves out a store would understate chain demand, so any
+  // failed store fails the chain run; the store-level forecasts that did complete stay persisted
+  const failedStores = storeRuns.filter(({ run }) => run?.status !== 'completed' || !run.result);
+  if (failedStores.length > 0) {
+    const reasons = failedStores.map(({ storeId, run }) => `${storeId}: ${run?.error ?? run?.status ?? 'not started'}`);
+
+    logger.warn('Chain forecast not aggregated, store-level forecasts failed', {
+      requestId,
+      productId: chain.productId,
+      failedStores: reasons,
+      step: 'aggregate_chain_forecast'
+    });
+
+    await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'aggregate_chain_forecast',
+      error: `Store-level forecasts failed for ${failedStores.length} of ${chain.storeIds.length} stores ` +
+        `(${reasons.join('; ')}); the chain-level forecast was not written`
+    }, logger);
+    return;
+  }
+
+  const persistingRun = await recordForecastStatus(state, requestId, {
+    status: 'persisting',
+    step: 'aggregate_chain_forecast',
+    lineage: {
+      model: { name: 'chain-sum', version: CHAIN_MODEL_VERSION, parameters: { stores: chain.storeIds.length } },
+      appVersion: appVersion()
+    }
+  });
+
+  const forecastPeriods = sumStoreForecasts(storeRuns.flatMap(({ run }) => run?.result ? [run.result.forecastPeriods] : []));
+  const values = forecastPeriods.map(period => period.forecastValue);
+  const locale = chain.parameters.locale ?? DEFAULT_EXPLANATION_LOCALE;
+  const forecastRationales: Record<ExplanationLocale, string> = {
+    en: `Chain-level forecast: the sum of ${chain.storeIds.length} store-level forecasts ` +
+      `(stores ${chain.storeIds.join(', ')}). See each store's forecast for its method and rationale.`,
+    ja: `チェーン合計の予測：${chain.storeIds.length}店舗の店舗別予測の合計です（店舗 ${chain.storeIds.join('、')}）。` +
+      '予測方法と根拠は各店舗の予測を参照してください。'
+  };
+  const forecastRationale = forecastRationales[locale];
+
+  // The chain rows reference the chain-level run; its store-level runs have their own lineage rows
+  const { error: runError } = await saveForecastRun(persistingRun);
+
+  if (runError) {
+    await recordForecastStatus(state, requestId, {
+      status: 'failed',
+      step: 'aggregate_chain_forecast',
+      error: `Failed to record forecast run lineage: ${runError.message}`
+    });
+    throw new Error(`Failed to record forecast run lineage: ${runError.message}`);
+  }
+
+  // Keyed like store-level rows, so a redelivered event does not write the chain total twice
+  const { error } = await supabase
+    .from('f1_forecast_results')
+    .upsert(forecastPeriods.map(period => ({
+      request_id: requestId,
+      forecast_run_id: requestId,
+      store_id: null,
+      aggregation_level: 'chain',
+      // The chain total is the bottom-up sum of the store forecasts
+      reconciliation_method: 'bottom_up',
+      product_id: chain.productId,
+      forecast_date: period.date,
+      period_start: period.periodStart,
+      period_end: period.periodEnd,
+      granularity: chain.parameters.granularity ?? DEFAULT_GRANULARITY,
+      forecast_quantity: period.forecastValue,
+      forecast_lower: period.confidenceInterval.lower,
+      forecast_upper: period.confidenceInterval.upper,
+      confidence_level: CONFIDENCE_LEVEL,
+      interval_method: chain.parameters.intervalMethod ?? DEFAULT_INTERVAL_METHOD,
+      model_version: CHAIN_MODEL_VERSION,
+      explanation: forecastRationale,
+      forecast_rationale: forecastRationale,
+      rationale_locale: locale,
+      // Fixed wording, stored in the same shape as the store-level rationales
+      forecast_rationales: Object.fromEntries(
+        Object.entries(forecastRationales).map(([each, rationale]) => [each, { rationale, source: 'template' }])
+      )
+    })), { onConflict: 'request_id,forecast_date', ignoreDuplicates: true });
+
+  if (error) {
+    logger.error('Failed to persist chain-level forecast', {
+      requestId,
+      productId: chain.productId,
+      error: error.message,
+      step: 'aggregate_chain_forecast'
+    });
+
+    await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'aggregate_chain_forecast',
+      error: `Supabase insert failed for the chain-level forecast: ${error.message}`
+    }, logger);
+    throw new Error(`Supabase insert failed for the chain-level forecast: ${error.message}`);
+  }
+
+  await finishForecastRun(state, requestId, {
+    status: 'completed',
+    step: 'aggregate_chain_forecast',
+    result: {
+      forecastPeriods,
+      forecastSummary: {
+        averageForecast: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0,
+        minForecast: values.length > 0 ? Math.min(...values) : 0,
+        maxForecast: values.length > 0 ? Math.max(...values) : 0,
+        storeCount: chain.storeIds.length
+      },
+      forecastRationale,
+      forecastRationales
+    }
+  }, logger);
+
+  logger.info('Chain-level forecast persisted', {
+    requestId,
+    productId: chain.productId,
+    stores: chain.storeIds.length,
+    periods: forecastPeriods.length,
+    step: 'aggregate_chain_forecast'
+  });
+};
@@ -0,0 +1,154 @@
+/**
+ * Forecast Backtest API Endpoint
+ *
+ * Starts a rolling-origin backtest: RunForecastBacktest replays the forecast pipeline
+ * (data-quality gate, stock-out censoring, lib/forecast-engine) at successive historical
+ * cut-off dates and scores each fold against the sales that followed. Folds × methods can take
+ * a while, so they run in the event step rather than here; GET /api/forecast/backtest/:backtestId
+ * returns the result. Nothing is written to f1_forecast_results.
+ * Without storeId the sales and inventory of every store are summed per day (chain-level demand).
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { planFolds, recordBacktest } from '../lib/backtest';
+import { createRequestId } from '../lib/forecast-status';
+import { isIsoDate, todayIsoDate } from '../lib/dates';
+import { censoringMethodSchema } from '../lib/censoring';
+import {
+  DEFAULT_FORECAST_METHOD,
+  intervalMethodSchema,
+  isForecastMethod,
+  listForecastMethods
+} from '../lib/models';
+
+const methodSchema = z.string().refine(isForecastMethod, {
+  message: `method must be one of: ${listForecastMethods().join(', ')}`
+});
+
+const bodySchema = z.object({
+  productId: z.string().min(1),
+  storeId: z.string().min(1).optional(),
+  method: methodSchema.optional(),
+  methods: z.array(methodSchema).min(1).max(10).optional(),
+  horizon: z.number().int().min(1).max(90).default(7),
+  folds: z.number().int().min(1).max(52).default(4),
+  stepDays: z.number().int().min(1).max(365).optional(),
+  trainingDays: z.number().int().min(7).max(3650).default(90),
+  asOf: z.string().refine(isIsoDate, { message: 'asOf must be an ISO date (YYYY-MM-DD)' }).optional(),
+  intervalMethod: intervalMethodSchema.optional(),
+  censoring: censoringMethodSchema.optional()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ForecastBacktestAPI',
+  type: 'api',
+  path: '/api/forecast/backtest',
+  method: 'POST',
+  description: 'Starts a rolling-origin backtest of forecast methods over historical facts',
+  emits: ['run-forecast-backtest'],
+  flows: ['forecast_pipeline'],
+  bodySchema,
+  responseSchema: {
+    200: z.object({
+      message: z.string(),
+      backtestId: z.string(),
+      status: z.string(),
+      productId: z.string(),
+      storeId: z.string().optional(),
+      asOf: z.string(),
+      folds: z.number(),
+      from: z.string(),
+      to: z.string()
+    }),
+    400: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+export const handler: Handlers['ForecastBacktestAPI'] = async (req, { logger, emit, state }) => {
+  logger.info('=== FORECAST BACKTEST API ENDPOINT INVOKED ===');
+
+  const parsedBody = bodySchema.safeParse(req.body ?? {});
+
+  if (!parsedBody.success) {
+    const message = parsedBody.error.issues
+      .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid backtest request', { message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  const body = parsedBody.data;
+  const methods = body.methods ?? [body.method ?? DEFAULT_FORECAST_METHOD];
+  const options = {
+    methods,
+    horizon: body.horizon,
+    folds: body.folds,
+    stepDays: body.stepDays ?? body.horizon,
+    trainingDays: body.trainingDays,
+    asOf: body.asOf ?? todayIsoDate(),
+    confidenceLevel: 0.95,
+    intervalMethod: body.intervalMethod,
+    censoring: body.censoring
+  };
+
+  const windows = planFolds(options);
+  const from = windows[0].trainFrom;
+  const to = windows[windows.length - 1].testTo;
+  const backtestId = createRequestId();
+
+  await recordBacktest(state, backtestId, {
+    status: 'queued',
+    productId: body.productId,
+    storeId: body.storeId,
+    parameters: options
+  });
+
+  logger.info('Backtest queued', {
+    backtestId,
+    productId: body.productId,
+    storeId: body.storeId,
+    methods,
+    horizon: options.horizon,
+    folds: options.folds,
+    from,
+    to,
+    step: 'forecast_backtest'
+  });
+
+  await emit({
+    topic: 'run-forecast-backtest',
+    data: {
+      backtestId,
+      productId: body.productId,
+      storeId: body.storeId,
+      options
+    }
+  });
+
+  return {
+    status: 200,
+    body: {
+      message: 'Backtest started',
+      backtestId,
+      status: 'queued',
+      productId: body.productId,
+      storeId: body.storeId,
+      asOf: options.asOf,
+      folds: options.folds,
+      from,
+      to
+    }
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * Forecast Backtest Status API Endpoint
+ *
+ * Reports a backtest started by POST /api/forecast/backtest and, once completed, its
+ * per-method fold metrics and aggregate accuracy. Folds blocked by the data-quality gate
+ * carry the reason as their error.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { getBacktest } from '../lib/backtest';
+import { accuracyMetricsSchema } from '../lib/accuracy';
+
+const foldSchema = z.object({
+  cutoff: z.string(),
+  trainFrom: z.string(),
+  trainTo: z.string(),
+  testFrom: z.string(),
+  testTo: z.string(),
+  trainingPoints: z.number(),
+  censoredDays: z.number().optional(),
+  qualityWarnings: z.array(z.string()).optional(),
+  modelVersion: z.string().optional(),
+  metrics: accuracyMetricsSchema.optional(),
+  error: z.string().optional()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ForecastBacktestStatusAPI',
+  type: 'api',
+  path: '/api/forecast/backtest/:backtestId',
+  method: 'GET',
+  description: 'Returns the status and, once completed, the results of a backtest',
+  emits: [],
+  flows: ['forecast_pipeline'],
+  responseSchema: {
+    200: z.object({
+      backtestId: z.string(),
+      productId: z.string(),
+      storeId: z.string().optional(),
+      status: z.enum(['queued', 'running', 'completed', 'failed']),
+      parameters: z.object({
+        methods: z.array(z.string()),
+        horizon: z.number(),
+        folds: z.number(),
+        stepDays: z.number(),
+        trainingDays: z.number(),
+        asOf: z.string(),
+        confidenceLevel: z.number(),
+        intervalMethod: z.string().optional(),
+        censoring: z.string().optional()
+      }),
+      error: z.string().optional(),
+      results: z.array(z.object({
+        method: z.string(),
+        folds: z.array(foldSchema),
+        aggregate: accuracyMetricsSchema
+      })).optional(),
+      createdAt: z.string(),
+      updatedAt: z.string()
+    }),
+    404: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+export const handler: Handlers['ForecastBacktestStatusAPI'] = async (req, { logger, state }) => {
+  const { backtestId } = req.pathParams;
+
+  const backtest = await getBacktest(state, backtestId);
+
+  if (!backtest) {
+    logger.warn('Backtest requested for unknown backtestId', { backtestId });
+
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `No backtest found for backtestId ${backtestId}`
+      }
+    };
+  }
+
+  logger.info('Backtest status retrieved', { backtestId, status: backtest.status });
+
+  return {
+    status: 200,
+    body: backtest
+  };
+};
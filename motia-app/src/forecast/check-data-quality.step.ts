@@ -0,0 +1,138 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { recordForecastStatus } from '../lib/forecast-status';
+import { finishForecastRun } from '../lib/forecast-runs';
+import { runFinishedEvents } from '../lib/run-completion';
+import { assessDataQuality, blockingReason, qualityWarnings } from '../lib/data-quality';
+import { censoringMethodSchema, stockoutThreshold } from '../lib/censoring';
+import { explanationLocaleSchema } from '../lib/explanations';
+import { DEFAULT_FORECAST_METHOD, intervalMethodSchema } from '../lib/models';
+import { granularitySchema } from '../lib/granularity';
+
+const inputSchema = z.object({
+  requestId: z.string(),
+  historicalData: z.object({
+    productId: z.string(),
+    storeId: z.string(),
+    product: z.object({
+      sku: z.string(),
+      name: z.string()
+    }).optional(),
+    timeRange: z.string(),
+    window: z.object({
+      from: z.string(),
+      to: z.string()
+    }),
+    dailySales: z.array(z.object({
+      date: z.string(),
+      value: z.number(),
+      censored: z.boolean().optional()
+    })),
+    inventorySnapshots: z.array(z.object({
+      date: z.string(),
+      value: z.number()
+    })),
+    loadedAt: z.string()
+  }),
+  forecastParameters: z.object({
+    method: z.string(),
+    confidenceLevel: z.number(),
+    horizon: z.number().optional(),
+    granularity: granularitySchema.optional(),
+    intervalMethod: intervalMethodSchema.optional(),
+    censoring: censoringMethodSchema.optional(),
+    locale: explanationLocaleSchema.optional()
+  })
+});
+
+export const config: EventConfig = {
+  name: 'CheckDataQuality',
+  type: 'event',
+  description: 'Checks loaded facts for gaps, bad values and short history before forecasting',
+  subscribes: ['check-data-quality'],
+  emits: ['generate-forecast', 'dispatch-forecast-batch', 'dispatch-chain-forecast'],
+  flows: ['forecast_pipeline'],
+  input: inputSchema
+};
+
+export const handler: Handlers['CheckDataQuality'] = async (input, { logger, emit, state }) => {
+  logger.info('=== CHECK DATA QUALITY STEP STARTED ===');
+
+  const { requestId, historicalData, forecastParameters } = input;
+
+  await recordForecastStatus(state, requestId, {
+    status: 'checking_quality',
+    step: 'check_data_quality',
+    storeId: historicalData.storeId
+  });
+
+  const { report, dailySales } = assessDataQuality({
+    dailySales: historicalData.dailySales,
+    inventorySnapshots: historicalData.inventorySnapshots,
+    windowEnd: historicalData.window.to,
+    method: forecastParameters.method || DEFAULT_FORECAST_METHOD,
+    excludeCensored: forecastParameters.censoring === 'exclude',
+    stockoutThreshold: stockoutThreshold()
+  });
+
+  logger.info('Data quality report', {
+    requestId,
+    productId: historicalData.productId,
+    passed: report.passed,
+    salesDays: report.salesDays,
+    filledDays: report.filledDays,
+    issues: report.issues.map(({ code, severity, count }) => ({ code, severity, count })),
+    step: 'check_data_quality'
+  });
+
+  // Blocking issues are properties of the facts, so retrying cannot help: fail the run without throwing
+  if (!report.passed) {
+    const reason = blockingReason(report);
+
+    logger.warn('Forecast run blocked by data quality', {
+      requestId,
+      productId: historicalData.productId,
+      reason,
+      step: 'check_data_quality'
+    });
+
+    const runState = await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'check_data_quality',
+      error: `Data quality check failed: ${reason}`,
+      dataQuality: report
+    }, logger);
+
+    for (const event of runFinishedEvents(runState)) {
+      await emit(event);
+    }
+    return;
+  }
+
+  await recordForecastStatus(state, requestId, {
+    status: 'checking_quality',
+    step: 'check_data_quality',
+    dataQuality: report
+  });
+
+  logger.info('Emitting generate-forecast event with checked historical data', {
+    requestId,
+    topic: 'generate-forecast',
+    dailySalesCount: dailySales.length,
+    warnings: qualityWarnings(report).length,
+    step: 'check_data_quality'
+  });
+
+  await emit({
+    topic: 'generate-forecast',
+    data: {
+      requestId,
+      historicalData: {
+        ...historicalData,
+        dailySales
+      },
+      forecastParameters,
+      dataQuality: report
+    }
+  });
+};
@@ -0,0 +1,113 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { createRequestId, recordForecastStatus } from '../lib/forecast-status';
+import { getChainForecast, saveChainForecast } from '../lib/chain-forecast';
+
+const inputSchema = z.object({
+  requestId: z.string(),
+  // The store-level run whose completion triggered this dispatch; absent when StartChainForecast starts the chain
+  afterRequestId: z.string().optional()
+});
+
+export const config: EventConfig = {
+  name: 'DispatchChainForecast',
+  type: 'event',
+  description: 'Starts the next store-level run of a chain forecast, then its aggregation',
+  subscribes: ['dispatch-chain-forecast'],
+  emits: ['load-historical-facts', 'aggregate-chain-forecast'],
+  flows: ['forecast_pipeline'],
+  input: inputSchema
+};
+
+export const handler: Handlers['DispatchChainForecast'] = async (input, { logger, emit, state }) => {
+  const { requestId, afterRequestId } = input;
+
+  const chain = await getChainForecast(state, requestId);
+
+  if (!chain) {
+    logger.warn('Chain forecast not found', { requestId, step: 'dispatch_chain_forecast' });
+    return;
+  }
+
+  // Only the store run the chain is waiting on may advance it, as with batch lanes
+  const isStart = afterRequestId === undefined && chain.nextIndex === 0;
+  if (!isStart && (afterRequestId === undefined || afterRequestId !== chain.currentRequestId)) {
+    logger.info('Ignoring stale chain dispatch', {
+      requestId,
+      afterRequestId,
+      currentRequestId: chain.currentRequestId,
+      step: 'dispatch_chain_forecast'
+    });
+    return;
+  }
+
+  if (chain.nextIndex >= chain.storeIds.length) {
+    await saveChainForecast(state, { ...chain, currentRequestId: undefined });
+
+    logger.info('Every store of the chain forecast finished, aggregating', {
+      requestId,
+      stores: chain.storeIds.length,
+      step: 'dispatch_chain_forecast'
+    });
+
+    await emit({
+      topic: 'aggregate-chain-forecast',
+      data: { requestId }
+    });
+    return;
+  }
+
+  const storeId = chain.storeIds[chain.nextIndex];
+  const storeRequestId = createRequestId();
+  const storeRuns = { ...chain.storeRuns, [storeId]: storeRequestId };
+  const { timeRange, asOf, method, horizon, granularity, intervalMethod, censoring, locale } = chain.parameters;
+
+  // Claim the store before emitting so a redelivered dispatch cannot start it twice
+  await saveChainForecast(state, {
+    ...chain,
+    nextIndex: chain.nextIndex + 1,
+    currentRequestId: storeRequestId,
+    storeRuns
+  });
+
+  await recordForecastStatus(state, requestId, {
+    status: 'generating',
+    step: 'store_forecasts',
+    storeRuns
+  });
+
+  await recordForecastStatus(state, storeRequestId, {
+    status: 'queued',
+    productId: chain.productId,
+    storeId,
+    timeRange,
+    parentRequestId: requestId
+  });
+
+  logger.info('Dispatching store-level forecast run', {
+    requestId,
+    storeRequestId,
+    productId: chain.productId,
+    storeId,
+    position: chain.nextIndex + 1,
+    stores: chain.storeIds.length,
+    step: 'dispatch_chain_forecast'
+  });
+
+  await emit({
+    topic: 'load-historical-facts',
+    data: {
+      requestId: storeRequestId,
+      productId: chain.productId,
+      storeId,
+      timeRange,
+      asOf,
+      method,
+      horizon,
+      granularity,
+      intervalMethod,
+      censoring,
+      locale
+    }
+  });
+};
@@ -0,0 +1,116 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { createRequestId, recordForecastStatus } from '../lib/forecast-status';
+import {
+  getForecastBatch,
+  getForecastBatchLane,
+  laneProductIds,
+  saveForecastBatchLane
+} from '../lib/forecast-batch';
+
+const inputSchema = z.object({
+  batchId: z.string(),
+  lane: z.number().int().min(0),
+  // The run whose completion triggered this dispatch; absent when StartForecastBatch starts the lane
+  afterRequestId: z.string().optional()
+});
+
+export const config: EventConfig = {
+  name: 'DispatchForecastBatch',
+  type: 'event',
+  description: 'Starts the next forecast run of a batch lane',
+  subscribes: ['dispatch-forecast-batch'],
+  emits: ['load-historical-facts'],
+  flows: ['forecast_pipeline'],
+  input: inputSchema
+};
+
+export const handler: Handlers['DispatchForecastBatch'] = async (input, { logger, emit, state }) => {
+  const { batchId, lane, afterRequestId } = input;
+
+  const batch = await getForecastBatch(state, batchId);
+
+  if (!batch) {
+    logger.warn('Forecast batch not found', { batchId, lane, step: 'dispatch_forecast_batch' });
+    return;
+  }
+
+  const laneState = await getForecastBatchLane(state, batchId, lane);
+
+  // Only the run the lane is waiting on may advance it. This drops duplicate triggers,
+  // e.g. a step that failed, freed the lane and then succeeded on retry.
+  const isStart = afterRequestId === undefined && laneState.nextIndex === 0;
+  if (!isStart && (afterRequestId === undefined || afterRequestId !== laneState.currentRequestId)) {
+    logger.info('Ignoring stale batch dispatch', {
+      batchId,
+      lane,
+      afterRequestId,
+      currentRequestId: laneState.currentRequestId,
+      step: 'dispatch_forecast_batch'
+    });
+    return;
+  }
+
+  const productIds = laneProductIds(batch, lane);
+
+  if (laneState.nextIndex >= productIds.length) {
+    await saveForecastBatchLane(state, { ...laneState, currentRequestId: undefined });
+
+    logger.info('Forecast batch lane finished', {
+      batchId,
+      lane,
+      runs: Object.keys(laneState.requestIds).length,
+      step: 'dispatch_forecast_batch'
+    });
+    return;
+  }
+
+  const productId = productIds[laneState.nextIndex];
+  const requestId = createRequestId();
+  const { timeRange, asOf, method, horizon, granularity, intervalMethod, censoring, locale } = batch.parameters;
+
+  // Claim the product before emitting so a redelivered dispatch cannot start it twice
+  await saveForecastBatchLane(state, {
+    ...laneState,
+    nextIndex: laneState.nextIndex + 1,
+    currentRequestId: requestId,
+    requestIds: { ...laneState.requestIds, [productId]: requestId }
+  });
+
+  await recordForecastStatus(state, requestId, {
+    status: 'queued',
+    productId,
+    storeId: batch.storeId,
+    timeRange,
+    batchId,
+    batchLane: lane
+  });
+
+  logger.info('Dispatching batch forecast run', {
+    batchId,
+    lane,
+    requestId,
+    productId,
+    position: laneState.nextIndex + 1,
+    laneSize: productIds.length,
+    step: 'dispatch_forecast_batch'
+  });
+
+  await emit({
+    topic: 'load-historical-facts',
+    data: {
+      requestId,
+      productId,
+      // A store batch forecasts each product for that store only
+      storeId: batch.storeId,
+      timeRange,
+      asOf,
+      method,
+      horizon,
+      granularity,
+      intervalMethod,
+      censoring,
+      locale
+    }
+  });
+};
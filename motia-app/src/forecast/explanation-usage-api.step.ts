@@ -0,0 +1,131 @@
+/**
+ * Explanation Usage API Endpoint
+ *
+ * Reports what writing forecast rationales cost: provider calls, tokens, cache hits and
+ * template fallbacks, per UTC day and provider, as counted in Motia state by lib/explanations.
+ * Query: from, to (UTC days, inclusive; default the last 7 days up to today).
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { getExplanationUsage, sumUsageCounts } from '../lib/explanations';
+import type { ExplanationUsageCounts } from '../lib/explanations';
+import { addDays, isIsoDate, todayIsoDate } from '../lib/dates';
+
+const isoDateSchema = z.string().refine(isIsoDate, { message: 'must be an ISO date (YYYY-MM-DD)' });
+
+const querySchema = z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional()
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to',
+  path: ['from']
+});
+
+const countsSchema = z.object({
+  calls: z.number(),
+  failedCalls: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  cacheHits: z.number(),
+  fallbacks: z.number(),
+  rateLimited: z.number()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ExplanationUsageAPI',
+  type: 'api',
+  path: '/api/explanations/usage',
+  method: 'GET',
+  description: 'Returns explanation provider calls, tokens, cache hits and fallbacks per day and provider',
+  emits: [],
+  flows: ['forecast_pipeline'],
+  queryParams: [
+    { name: 'from', description: 'First UTC day (YYYY-MM-DD, inclusive); default 6 days before to' },
+    { name: 'to', description: 'Last UTC day (YYYY-MM-DD, inclusive); default today' }
+  ],
+  responseSchema: {
+    200: z.object({
+      from: z.string(),
+      to: z.string(),
+      totals: countsSchema,
+      providers: z.record(z.string(), countsSchema),
+      days: z.array(countsSchema.extend({
+        date: z.string(),
+        provider: z.string()
+      }))
+    }),
+    400: z.object({
+      error: z.string(),
+      message: z.string()
+    }),
+    500: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export const handler: Handlers['ExplanationUsageAPI'] = async (req, { logger, state }) => {
+  const parsedQuery = querySchema.safeParse({
+    from: firstValue(req.queryParams.from),
+    to: firstValue(req.queryParams.to)
+  });
+
+  if (!parsedQuery.success) {
+    const message = parsedQuery.error.issues
+      .map(issue => `${issue.path.join('.') || 'query'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid explanation usage query', { message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  const to = parsedQuery.data.to ?? todayIsoDate();
+  const from = parsedQuery.data.from ?? addDays(to, -6);
+
+  let usage;
+  try {
+    usage = await getExplanationUsage(state, from, to);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to load explanation usage', { from, to, error: message, step: 'explanation_usage' });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to load explanation usage: ${message}`
+      }
+    };
+  }
+
+  const providers: Record<string, ExplanationUsageCounts> = {};
+  for (const provider of new Set(usage.map(row => row.provider))) {
+    providers[provider] = sumUsageCounts(usage.filter(row => row.provider === provider));
+  }
+
+  logger.info('Explanation usage retrieved', { from, to, records: usage.length, step: 'explanation_usage' });
+
+  return {
+    status: 200,
+    body: {
+      from,
+      to,
+      totals: sumUsageCounts(usage),
+      providers,
+      days: usage.map(({ updatedAt, ...row }) => row)
+    }
+  };
+};
@@ -7,15 +7,65 @@
  * - This follows Motia's step-based architecture pattern
  *
  * How this API connects to the flow:
- * - The endpoint receives POST requests with { productId, timeRange }
+ * - The endpoint receives POST requests with { productId, storeId, allStores, timeRange, asOf, method, horizon, granularity, intervalMethod, censoring, locale }
+ * - locale (en or ja) picks the language of forecast_rationale; rationales in every locale are stored either way
+ * - timeRange and asOf are validated here; asOf is pinned to today when omitted so
+ *   retries and replays of the run load exactly the same facts
  * - It emits the 'load-historical-facts' event which triggers the forecast_pipeline
  * - The forecast_pipeline is defined in this file's config with flows: ['forecast_pipeline']
- * - The pipeline processes through: load-historical-facts → generate-forecast → persist-forecast-result
+ * - The pipeline processes through: load-historical-facts → check-data-quality → generate-forecast → persist-forecast-result
+ * - With allStores it emits 'start-chain-forecast' instead: every store that sold the product runs the
+ *   pipeline on its own, then AggregateChainForecast writes the chain-level total
  */
 
 import type { ApiRouteConfig, Handlers } from 'motia';
 import { z } from 'zod';
+import { createRequestId, recordForecastStatus } from '../lib/forecast-status';
+import { DEFAULT_TIME_RANGE, resolveTimeRange, timeRangeSchema } from '../lib/time-range';
+import {
+  DEFAULT_FORECAST_METHOD,
+  DEFAULT_INTERVAL_METHOD,
+  intervalMethodSchema,
+  isForecastMethod,
+  listForecastMethods
+} from '../lib/models';
+import { DEFAULT_GRANULARITY, DEFAULT_HORIZON, granularitySchema, horizonSchema } from '../lib/granularity';
+import { censoringMethodSchema, DEFAULT_CENSORING_METHOD } from '../lib/censoring';
+import { DEFAULT_EXPLANATION_LOCALE, explanationLocaleSchema } from '../lib/explanations';
 
+const bodySchema = z.object({
+  productId: z.string().optional(),
+  storeId: z.string().min(1).optional(),
+  allStores: z.boolean().optional(),
+  timeRange: timeRangeSchema.optional(),
+  asOf: z.string().optional(),
+  method: z.string().refine(isForecastMethod, {
+    message: `method must be one of: ${listForecastMethods().join(', ')}`
+  }).optional(),
+  horizon: horizonSchema.optional(),
+  granularity: granularitySchema.optional(),
+  intervalMethod: intervalMethodSchema.optional(),
+  censoring: censoringMethodSchema.optional(),
+  locale: explanationLocaleSchema.optional()
+}).superRefine((body, ctx) => {
+  if (body.storeId !== undefined && body.allStores) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['allStores'],
+      message: 'Provide either storeId or allStores, not both'
+    });
+  }
+
+  try {
+    resolveTimeRange(body.timeRange ?? DEFAULT_TIME_RANGE, body.asOf);
+  } catch (error) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['timeRange'],
+      message: error instanceof Error ? error.message : 'Invalid timeRange'
+    });
+  }
+});
 
 export const config: ApiRouteConfig = {
   name: 'ForecastAPI',
@@ -23,15 +73,25 @@ export const config: ApiRouteConfig = {
   path: '/api/forecast',
   method: 'POST',
   description: 'Triggers forecast generation pipeline',
-  emits: ['load-historical-facts'],
+  emits: ['load-historical-facts', 'start-chain-forecast'],
   flows: ['forecast_pipeline'],
+  bodySchema,
   responseSchema: {
     200: z.object({
       message: z.string(),
       status: z.string(),
       requestId: z.string(),
       productId: z.string().optional(),
+      storeId: z.string().optional(),
+      allStores: z.boolean(),
       timeRange: z.string().optional(),
+      asOf: z.string().optional(),
+      method: z.string().optional(),
+      horizon: z.number().optional(),
+      granularity: z.string().optional(),
+      intervalMethod: z.string().optional(),
+      censoring: z.string().optional(),
+      locale: z.string().optional(),
       timestamp: z.string()
     }),
     400: z.object({
@@ -41,45 +101,115 @@ export const config: ApiRouteConfig = {
   }
 };
 
-export const handler: Handlers['ForecastAPI'] = async (input, { emit, logger }) => {
+export const handler: Handlers['ForecastAPI'] = async (input, { emit, logger, state }) => {
   // Log API request received
   logger.info('=== FORECAST API ENDPOINT INVOKED ===');
 
+  // Parse and validate input
+  const parsedBody = bodySchema.safeParse(input?.body ?? {});
+
+  if (!parsedBody.success) {
+    const message = parsedBody.error.issues
+      .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid forecast request', { message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
   try {
-    // Parse and validate input
-    const requestId = Math.random().toString(36).substring(2, 11);
-    const productId = input?.body?.productId || input?.productId || 'default-product';
-    const timeRange = input?.body?.timeRange || input?.timeRange || 'last-30-days';
+    const requestId = createRequestId();
+    const productId = parsedBody.data.productId || 'default-product';
+    const storeId = parsedBody.data.storeId;
+    const allStores = parsedBody.data.allStores ?? false;
+    const resolvedRange = resolveTimeRange(parsedBody.data.timeRange ?? DEFAULT_TIME_RANGE, parsedBody.data.asOf);
+    const timeRange = resolvedRange.label;
+    const asOf = resolvedRange.asOf;
+    const method = parsedBody.data.method || DEFAULT_FORECAST_METHOD;
+    const horizon = parsedBody.data.horizon ?? DEFAULT_HORIZON;
+    const granularity = parsedBody.data.granularity ?? DEFAULT_GRANULARITY;
+    const intervalMethod = parsedBody.data.intervalMethod ?? DEFAULT_INTERVAL_METHOD;
+    const censoring = parsedBody.data.censoring ?? DEFAULT_CENSORING_METHOD;
+    const locale = parsedBody.data.locale ?? DEFAULT_EXPLANATION_LOCALE;
 
     logger.info('API request received', {
       requestId,
       productId,
+      storeId,
+      allStores,
       timeRange,
+      asOf,
+      method,
+      horizon,
+      granularity,
+      intervalMethod,
+      censoring,
+      locale,
+      from: resolvedRange.from,
+      to: resolvedRange.to,
       hasInput: !!input
     });
 
+    // Record the run before emitting so GET /api/forecast/:requestId can see it immediately
+    await recordForecastStatus(state, requestId, {
+      status: 'queued',
+      productId,
+      storeId,
+      timeRange
+    });
+
+    const topic = allStores ? 'start-chain-forecast' : 'load-historical-facts';
+
     // Log event emission
-    logger.info('Emitting load-historical-facts event to start forecast pipeline', {
+    logger.info(`Emitting ${topic} event to start forecast pipeline`, {
       requestId,
-      topic: 'load-historical-facts',
+      topic,
       productId,
-      timeRange
+      storeId,
+      timeRange,
+      asOf
     });
 
     // Emit event to trigger the forecast pipeline
-    const emitResult = await emit({
-      topic: 'load-historical-facts',
-      data: {
-        requestId,
-        productId,
-        timeRange
-      }
-    });
+    if (allStores) {
+      await emit({
+        topic: 'start-chain-forecast',
+        data: {
+          requestId,
+          productId,
+          parameters: { timeRange, asOf, method, horizon, granularity, intervalMethod, censoring, locale }
+        }
+      });
+    } else {
+      await emit({
+        topic: 'load-historical-facts',
+        data: {
+          requestId,
+          productId,
+          storeId,
+          timeRange,
+          asOf,
+          method,
+          horizon,
+          granularity,
+          intervalMethod,
+          censoring,
+          locale
+        }
+      });
+    }
 
     logger.info('Event emission completed successfully', {
       requestId,
       emissionSuccess: true,
-      topic: 'load-historical-facts'
+      topic
     });
 
     // Log request completion
@@ -95,7 +225,16 @@ export const handler: Handlers['ForecastAPI'] = async (input, { emit, logger })
         status: 'processing',
         requestId,
         productId,
+        storeId,
+        allStores,
         timeRange,
+        asOf,
+        method,
+        horizon,
+        granularity,
+        intervalMethod,
+        censoring,
+        locale,
         timestamp: new Date().toISOString()
       }
     };
@@ -0,0 +1,220 @@
+/**
+ * Forecast Batch API Endpoint
+ *
+ * Starts one forecast_pipeline run per product, either for an explicit list of
+ * productIds or for every product of a store, all with the same parameters.
+ * The batch is run by DispatchForecastBatch exactly like the nightly schedule;
+ * GET /api/forecast/batch/:batchId reports its progress.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { listProducts } from '../lib/products';
+import {
+  activeLanes,
+  createBatchId,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  saveForecastBatch
+} from '../lib/forecast-batch';
+import { DEFAULT_TIME_RANGE, resolveTimeRange, timeRangeSchema } from '../lib/time-range';
+import {
+  DEFAULT_FORECAST_METHOD,
+  DEFAULT_INTERVAL_METHOD,
+  intervalMethodSchema,
+  isForecastMethod,
+  listForecastMethods
+} from '../lib/models';
+import { DEFAULT_GRANULARITY, DEFAULT_HORIZON, granularitySchema, horizonSchema } from '../lib/granularity';
+import { censoringMethodSchema, DEFAULT_CENSORING_METHOD } from '../lib/censoring';
+import { DEFAULT_EXPLANATION_LOCALE, explanationLocaleSchema } from '../lib/explanations';
+
+const MAX_BATCH_PRODUCTS = 1000;
+
+const bodySchema = z.object({
+  productIds: z.array(z.string().min(1)).min(1).max(MAX_BATCH_PRODUCTS).optional(),
+  storeId: z.string().min(1).optional(),
+  timeRange: timeRangeSchema.optional(),
+  asOf: z.string().optional(),
+  method: z.string().refine(isForecastMethod, {
+    message: `method must be one of: ${listForecastMethods().join(', ')}`
+  }).optional(),
+  horizon: horizonSchema.optional(),
+  granularity: granularitySchema.optional(),
+  intervalMethod: intervalMethodSchema.optional(),
+  censoring: censoringMethodSchema.optional(),
+  locale: explanationLocaleSchema.optional(),
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional()
+}).superRefine((body, ctx) => {
+  if ((body.productIds === undefined) === (body.storeId === undefined)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['productIds'],
+      message: 'Provide either productIds or storeId'
+    });
+  }
+
+  try {
+    resolveTimeRange(body.timeRange ?? DEFAULT_TIME_RANGE, body.asOf);
+  } catch (error) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['timeRange'],
+      message: error instanceof Error ? error.message : 'Invalid timeRange'
+    });
+  }
+});
+
+const errorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ForecastBatchAPI',
+  type: 'api',
+  path: '/api/forecast/batch',
+  method: 'POST',
+  description: 'Starts forecast runs for many products with shared parameters',
+  emits: ['dispatch-forecast-batch'],
+  flows: ['forecast_pipeline'],
+  bodySchema,
+  responseSchema: {
+    200: z.object({
+      message: z.string(),
+      status: z.string(),
+      batchId: z.string(),
+      storeId: z.string().optional(),
+      productCount: z.number(),
+      concurrency: z.number(),
+      timeRange: z.string(),
+      asOf: z.string(),
+      method: z.string(),
+      horizon: z.number(),
+      granularity: z.string(),
+      intervalMethod: z.string(),
+      censoring: z.string(),
+      locale: z.string(),
+      timestamp: z.string()
+    }),
+    400: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ForecastBatchAPI'] = async (req, { emit, logger, state }) => {
+  logger.info('=== FORECAST BATCH API ENDPOINT INVOKED ===');
+
+  const parsedBody = bodySchema.safeParse(req.body ?? {});
+
+  if (!parsedBody.success) {
+    const message = parsedBody.error.issues
+      .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid forecast batch request', { message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  const body = parsedBody.data;
+  const batchId = createBatchId();
+  let productIds = body.productIds ? [...new Set(body.productIds)] : [];
+
+  if (body.storeId) {
+    const { data: products, error } = await listProducts(body.storeId);
+
+    if (error) {
+      logger.error('Failed to load products for forecast batch', {
+        batchId,
+        storeId: body.storeId,
+        error: error.message,
+        step: 'forecast_batch_api'
+      });
+
+      return {
+        status: 500,
+        body: {
+          error: 'internal_error',
+          message: `Failed to load products: ${error.message}`
+        }
+      };
+    }
+
+    productIds = (products ?? []).map(product => product.id);
+
+    if (productIds.length === 0) {
+      return {
+        status: 404,
+        body: {
+          error: 'not_found',
+          message: `No products found for storeId ${body.storeId}`
+        }
+      };
+    }
+  }
+
+  // Pin asOf once so every run in the batch loads facts up to the same day
+  const resolvedRange = resolveTimeRange(body.timeRange ?? DEFAULT_TIME_RANGE, body.asOf);
+  const parameters = {
+    timeRange: resolvedRange.label,
+    asOf: resolvedRange.asOf,
+    method: body.method || DEFAULT_FORECAST_METHOD,
+    horizon: body.horizon ?? DEFAULT_HORIZON,
+    granularity: body.granularity ?? DEFAULT_GRANULARITY,
+    intervalMethod: body.intervalMethod ?? DEFAULT_INTERVAL_METHOD,
+    censoring: body.censoring ?? DEFAULT_CENSORING_METHOD,
+    locale: body.locale ?? DEFAULT_EXPLANATION_LOCALE
+  };
+  const concurrency = body.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+
+  const batch = await saveForecastBatch(state, {
+    batchId,
+    source: 'api',
+    storeId: body.storeId,
+    concurrency,
+    parameters,
+    productIds,
+    createdAt: new Date().toISOString()
+  });
+
+  const lanes = activeLanes(batch);
+
+  logger.info('Forecast batch created', {
+    batchId,
+    source: batch.source,
+    storeId: batch.storeId,
+    productCount: productIds.length,
+    lanes: lanes.length,
+    ...parameters,
+    step: 'forecast_batch_api'
+  });
+
+  for (const lane of lanes) {
+    await emit({
+      topic: 'dispatch-forecast-batch',
+      data: { batchId, lane }
+    });
+  }
+
+  return {
+    status: 200,
+    body: {
+      message: 'Forecast batch started successfully',
+      status: 'processing',
+      batchId,
+      storeId: body.storeId,
+      productCount: productIds.length,
+      concurrency,
+      ...parameters,
+      timestamp: new Date().toISOString()
+    }
+  };
+};
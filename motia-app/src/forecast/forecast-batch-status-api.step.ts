@@ -0,0 +1,105 @@
+/**
+ * Forecast Batch Status API Endpoint
+ *
+ * Aggregates the per-product run status of a forecast batch (started by
+ * POST /api/forecast/batch or the nightly schedule). Failed products are listed
+ * alongside the completed ones, so a partially failed batch still reports its successes.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { getForecastBatch, summarizeForecastBatch } from '../lib/forecast-batch';
+
+const runStatusSchema = z.enum(['pending', 'queued', 'loading_facts', 'checking_quality', 'generating', 'persisting', 'completed', 'failed']);
+
+export const config: ApiRouteConfig = {
+  name: 'ForecastBatchStatusAPI',
+  type: 'api',
+  path: '/api/forecast/batch/:batchId',
+  method: 'GET',
+  description: 'Returns the aggregated status of a forecast batch',
+  emits: [],
+  flows: ['forecast_pipeline'],
+  responseSchema: {
+    200: z.object({
+      batchId: z.string(),
+      source: z.enum(['schedule', 'api', 'ingest']),
+      storeId: z.string().optional(),
+      createdAt: z.string(),
+      parameters: z.object({
+        timeRange: z.string(),
+        asOf: z.string(),
+        method: z.string().optional(),
+        horizon: z.number().optional(),
+        granularity: z.string().optional(),
+        intervalMethod: z.string().optional(),
+        censoring: z.string().optional(),
+        locale: z.string().optional()
+      }),
+      status: z.enum(['running', 'completed', 'partially_failed', 'failed']),
+      total: z.number(),
+      counts: z.record(runStatusSchema, z.number()),
+      failures: z.array(z.object({
+        productId: z.string(),
+        requestId: z.string().optional(),
+        step: z.string().optional(),
+        error: z.string().optional()
+      })),
+      products: z.array(z.object({
+        productId: z.string(),
+        requestId: z.string().optional(),
+        status: runStatusSchema,
+        step: z.string().optional(),
+        error: z.string().optional()
+      }))
+    }),
+    404: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+export const handler: Handlers['ForecastBatchStatusAPI'] = async (req, { logger, state }) => {
+  const { batchId } = req.pathParams;
+
+  const batch = await getForecastBatch(state, batchId);
+
+  if (!batch) {
+    logger.warn('Forecast batch status requested for unknown batchId', { batchId });
+
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `No forecast batch found for batchId ${batchId}`
+      }
+    };
+  }
+
+  const summary = await summarizeForecastBatch(state, batch);
+  const failures = summary.products
+    .filter(product => product.status === 'failed')
+    .map(({ productId, requestId, step, error }) => ({ productId, requestId, step, error }));
+
+  logger.info('Forecast batch status retrieved', {
+    batchId,
+    status: summary.status,
+    total: summary.total,
+    completed: summary.counts.completed,
+    failed: summary.counts.failed
+  });
+
+  return {
+    status: 200,
+    body: {
+      batchId: batch.batchId,
+      source: batch.source,
+      storeId: batch.storeId,
+      createdAt: batch.createdAt,
+      parameters: batch.parameters,
+      ...summary,
+      failures
+    }
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * Forecast Export API Endpoint
+ *
+ * Downloads persisted forecast rows as CSV, NDJSON or XLSX for spreadsheets and BI tools.
+ * Query: format (csv | ndjson | xlsx, default csv), columns (comma-separated value columns;
+ * the key columns are always included), storeId and productId (repeat or comma-separate for
+ * several), from, to (forecast dates, inclusive), requestId (rows of one forecast run),
+ * locale (en | ja: the language of forecast_rationale, default the one each run was requested in).
+ * Every row matching the filters is exported, including older versions of the same target.
+ *
+ * A Motia API step returns its whole body at once, so this route is registered on the HTTP
+ * server directly (motia.config.ts) and streams the file: each page of rows is encoded and
+ * written to the response before the next page is read, so exports of any size hold one page.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Logger } from '@motiadev/core';
+import { z } from 'zod';
+import {
+  createExportWriter,
+  DEFAULT_VALUE_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  exportFormatSchema,
+  fetchForecastExportPage,
+  KEY_COLUMNS,
+  valueColumnSchema
+} from '../lib/forecast-export';
+import { isIsoDate } from '../lib/dates';
+import { explanationLocaleSchema } from '../lib/explanations';
+
+export const FORECAST_EXPORT_PATH = '/api/forecasts/export';
+
+const logger = new Logger(false, { route: 'ForecastExport' });
+
+const isoDateSchema = z.string().refine(isIsoDate, { message: 'must be an ISO date (YYYY-MM-DD)' });
+
+const querySchema = z.object({
+  format: exportFormatSchema.default('csv'),
+  columns: z.array(valueColumnSchema).min(1).optional(),
+  storeIds: z.array(z.string().min(1)).optional(),
+  productIds: z.array(z.string().min(1)).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  requestId: z.string().min(1).optional(),
+  locale: explanationLocaleSchema.optional()
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to',
+  path: ['from']
+});
+
+function firstValue(values: string[]): string | undefined {
+  return values[0];
+}
+
+function listValue(values: string[]): string[] | undefined {
+  const items = values
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+  return items.length > 0 ? [...new Set(items)] : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: { error: string; message: string }): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+}
+
+export async function handleForecastExport(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const query = new URL(req.url ?? '', 'http://localhost').searchParams;
+
+  const parsedQuery = querySchema.safeParse({
+    format: firstValue(query.getAll('format')),
+    columns: listValue(query.getAll('columns')),
+    storeIds: listValue(query.getAll('storeId')),
+    productIds: listValue(query.getAll('productId')),
+    from: firstValue(query.getAll('from')),
+    to: firstValue(query.getAll('to')),
+    requestId: firstValue(query.getAll('requestId')),
+    locale: firstValue(query.getAll('locale'))
+  });
+
+  if (!parsedQuery.success) {
+    const message = parsedQuery.error.issues
+      .map(issue => `${issue.path.join('.') || 'query'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid forecast export query', { message });
+    sendJson(res, 400, { error: 'bad_request', message });
+    return;
+  }
+
+  const { format, columns, locale, ...filter } = parsedQuery.data;
+
+  // Read the first page before answering, so a failing query still gets a proper 500
+  let page = await fetchForecastExportPage(filter, null, locale);
+
+  if (page.error) {
+    logger.error('Failed to load forecast export rows', { error: page.error.message, rows: 0, step: 'forecast_export' });
+    sendJson(res, 500, { error: 'internal_error', message: `Failed to export forecasts: ${page.error.message}` });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': EXPORT_CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="forecasts-${new Date().toISOString().slice(0, 10)}.${format}"`,
+    'Access-Control-Allow-Origin': '*'
+  });
+
+  const writer = createExportWriter(format, [...KEY_COLUMNS, ...(columns ?? DEFAULT_VALUE_COLUMNS)], res);
+  let rows = 0;
+
+  try {
+    for (;;) {
+      await writer.write(page.data ?? []);
+      rows += page.data?.length ?? 0;
+
+      if (!page.lastId) {
+        break;
+      }
+
+      page = await fetchForecastExportPage(filter, page.lastId, locale);
+
+      if (page.error) {
+        throw new Error(page.error.message);
+      }
+    }
+
+    await writer.finish();
+    res.end();
+  } catch (error) {
+    // The status line is already sent: cutting the connection is the only way to tell the client
+    logger.error('Forecast export aborted', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      rows,
+      step: 'forecast_export'
+    });
+    res.destroy();
+    return;
+  }
+
+  logger.info('Forecasts exported', { format, rows, filter, step: 'forecast_export' });
+}
@@ -0,0 +1,132 @@
+/**
+ * Forecast Status API Endpoint
+ *
+ * Reports the progress of a forecast_pipeline run started by POST /api/forecast.
+ * Each pipeline step records its progress in Motia state under the requestId,
+ * so this endpoint answers without querying Supabase.
+ * A chain-level (allStores) run lists its store-level runs in storeRuns (storeId -> requestId).
+ * lineage and stepTimings are what the run writes to f1_forecast_runs.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { getForecastStatus } from '../lib/forecast-status';
+import { dataQualityReportSchema } from '../lib/data-quality';
+
+export const config: ApiRouteConfig = {
+  name: 'ForecastStatusAPI',
+  type: 'api',
+  path: '/api/forecast/:requestId',
+  method: 'GET',
+  description: 'Returns the status and, once completed, the result of a forecast request',
+  emits: [],
+  flows: ['forecast_pipeline'],
+  responseSchema: {
+    200: z.object({
+      requestId: z.string(),
+      productId: z.string().optional(),
+      storeId: z.string().optional(),
+      timeRange: z.string().optional(),
+      parentRequestId: z.string().optional(),
+      storeRuns: z.record(z.string(), z.string()).optional(),
+      batchId: z.string().optional(),
+      batchLane: z.number().optional(),
+      status: z.enum(['queued', 'loading_facts', 'checking_quality', 'generating', 'persisting', 'completed', 'failed']),
+      step: z.string().optional(),
+      error: z.string().optional(),
+      dataQuality: dataQualityReportSchema.optional(),
+      hierarchy: z.object({
+        reconciliation: z.string(),
+        series: z.number(),
+        stores: z.number(),
+        skus: z.number(),
+        skippedProducts: z.number()
+      }).optional(),
+      lineage: z.object({
+        window: z.object({
+          from: z.string(),
+          to: z.string(),
+          asOf: z.string()
+        }).optional(),
+        facts: z.object({
+          salesRows: z.number(),
+          inventoryRows: z.number(),
+          hash: z.string(),
+          stockoutThreshold: z.number().optional()
+        }).optional(),
+        forecastParameters: z.record(z.string(), z.unknown()).optional(),
+        model: z.object({
+          name: z.string(),
+          version: z.string(),
+          parameters: z.record(z.string(), z.number())
+        }).optional(),
+        appVersion: z.string().optional(),
+        rationaleSource: z.enum(['gemini', 'openai', 'template', 'recorded', 'fallback']).optional()
+      }).optional(),
+      stepTimings: z.array(z.object({
+        step: z.string(),
+        startedAt: z.string(),
+        finishedAt: z.string().optional(),
+        durationMs: z.number().optional()
+      })).optional(),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+      forecastPeriods: z.array(z.object({
+        date: z.string(),
+        periodStart: z.string().optional(),
+        periodEnd: z.string().optional(),
+        forecastValue: z.number(),
+        confidenceInterval: z.object({
+          lower: z.number(),
+          upper: z.number()
+        })
+      })).optional(),
+      forecastSummary: z.record(z.string(), z.unknown()).optional(),
+      censoring: z.object({
+        method: z.string(),
+        censoredDays: z.number(),
+        adjustedDays: z.number()
+      }).optional(),
+      forecastRationale: z.string().optional(),
+      forecastRationales: z.record(z.string(), z.string()).optional()
+    }),
+    404: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+export const handler: Handlers['ForecastStatusAPI'] = async (req, { logger, state }) => {
+  const { requestId } = req.pathParams;
+
+  const runState = await getForecastStatus(state, requestId);
+
+  if (!runState) {
+    logger.warn('Forecast status requested for unknown requestId', { requestId });
+
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `No forecast request found for requestId ${requestId}`
+      }
+    };
+  }
+
+  logger.info('Forecast status retrieved', {
+    requestId,
+    status: runState.status,
+    step: runState.step
+  });
+
+  const { result, ...status } = runState;
+
+  return {
+    status: 200,
+    body: {
+      ...status,
+      ...(result ?? {})
+    }
+  };
+};
@@ -0,0 +1,197 @@
+/**
+ * Forecasts Query API Endpoint
+ *
+ * Forecast rows are never overwritten, so every run adds another forecast for the same
+ * product and date. This endpoint picks the one to use: by default the latest forecast of each
+ * target date (per store, or chain level, and granularity).
+ * Query: productId (required), storeId, from, to (forecast dates, inclusive), granularity,
+ * asOf (date or timestamp: only forecasts created by then), history=true (every version of
+ * each target date, oldest first, instead of the latest only).
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { fetchForecastVersions, sortByTarget, versionHistory } from '../lib/forecast-versions';
+import { isIsoDate } from '../lib/dates';
+import { granularitySchema } from '../lib/granularity';
+
+const isoDateSchema = z.string().refine(isIsoDate, { message: 'must be an ISO date (YYYY-MM-DD)' });
+
+const querySchema = z.object({
+  productId: z.string().min(1),
+  storeId: z.string().min(1).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  granularity: granularitySchema.optional(),
+  asOf: z.string().refine(value => isIsoDate(value) || !Number.isNaN(Date.parse(value)), {
+    message: 'must be an ISO date (YYYY-MM-DD) or timestamp'
+  }).optional(),
+  history: z.enum(['true', 'false']).optional()
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to',
+  path: ['from']
+});
+
+const versionSchema = z.object({
+  forecastDate: z.string(),
+  periodStart: z.string().nullable(),
+  periodEnd: z.string().nullable(),
+  granularity: z.string(),
+  storeId: z.string().nullable(),
+  aggregationLevel: z.string(),
+  forecastQuantity: z.number(),
+  forecastLower: z.number().nullable(),
+  forecastUpper: z.number().nullable(),
+  confidenceLevel: z.number().nullable(),
+  modelVersion: z.string(),
+  requestId: z.string().nullable(),
+  createdAt: z.string()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ForecastsQueryAPI',
+  type: 'api',
+  path: '/api/forecasts',
+  method: 'GET',
+  description: 'Returns the latest forecast per target date, optionally as of an earlier time or with its full history',
+  emits: [],
+  flows: ['forecast_pipeline'],
+  queryParams: [
+    { name: 'productId', description: 'Product to return forecasts for (required)' },
+    { name: 'storeId', description: 'Only this store; without it every store and the chain level are returned' },
+    { name: 'from', description: 'First forecast date (YYYY-MM-DD, inclusive)' },
+    { name: 'to', description: 'Last forecast date (YYYY-MM-DD, inclusive)' },
+    { name: 'granularity', description: 'Only daily, weekly or monthly forecasts' },
+    { name: 'asOf', description: 'Only forecasts created by this date (end of day, UTC) or timestamp' },
+    { name: 'history', description: 'true to return every version of each target date instead of the latest' }
+  ],
+  responseSchema: {
+    200: z.object({
+      productId: z.string(),
+      storeId: z.string().optional(),
+      from: z.string().optional(),
+      to: z.string().optional(),
+      asOf: z.string().optional(),
+      mode: z.enum(['latest', 'history']),
+      count: z.number(),
+      forecasts: z.array(versionSchema).optional(),
+      history: z.array(z.object({
+        forecastDate: z.string(),
+        storeId: z.string().nullable(),
+        aggregationLevel: z.string(),
+        granularity: z.string(),
+        versions: z.array(versionSchema)
+      })).optional()
+    }),
+    400: z.object({
+      error: z.string(),
+      message: z.string()
+    }),
+    500: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export const handler: Handlers['ForecastsQueryAPI'] = async (req, { logger }) => {
+  const parsedQuery = querySchema.safeParse({
+    productId: firstValue(req.queryParams.productId),
+    storeId: firstValue(req.queryParams.storeId),
+    from: firstValue(req.queryParams.from),
+    to: firstValue(req.queryParams.to),
+    granularity: firstValue(req.queryParams.granularity),
+    asOf: firstValue(req.queryParams.asOf),
+    history: firstValue(req.queryParams.history)
+  });
+
+  if (!parsedQuery.success) {
+    const message = parsedQuery.error.issues
+      .map(issue => `${issue.path.join('.') || 'query'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid forecasts query', { message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  const query = parsedQuery.data;
+  const mode = query.history === 'true' ? 'history' : 'latest';
+  // A bare date covers forecasts created at any time that day
+  const createdAtMost = query.asOf
+    ? (isIsoDate(query.asOf) ? `${query.asOf}T23:59:59.999Z` : new Date(query.asOf).toISOString())
+    : undefined;
+
+  const { data: versions, error } = await fetchForecastVersions({
+    productId: query.productId,
+    storeId: query.storeId,
+    from: query.from,
+    to: query.to,
+    granularity: query.granularity,
+    createdAtMost,
+    latest: mode === 'latest'
+  });
+
+  if (error) {
+    logger.error('Failed to load forecast versions', {
+      productId: query.productId,
+      storeId: query.storeId,
+      error: error.message,
+      step: 'forecasts_query'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to load forecasts: ${error.message}`
+      }
+    };
+  }
+
+  logger.info('Forecast versions retrieved', {
+    productId: query.productId,
+    storeId: query.storeId,
+    from: query.from,
+    to: query.to,
+    asOf: query.asOf,
+    mode,
+    versions: versions?.length ?? 0,
+    step: 'forecasts_query'
+  });
+
+  const base = {
+    productId: query.productId,
+    storeId: query.storeId,
+    from: query.from,
+    to: query.to,
+    asOf: query.asOf,
+    mode
+  } as const;
+
+  if (mode === 'history') {
+    const history = versionHistory(versions ?? []);
+
+    return {
+      status: 200,
+      body: { ...base, count: history.length, history }
+    };
+  }
+
+  const forecasts = sortByTarget(versions ?? []);
+
+  return {
+    status: 200,
+    body: { ...base, count: forecasts.length, forecasts }
+  };
+};
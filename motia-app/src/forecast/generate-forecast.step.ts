@@ -1,6 +1,24 @@
 import type { EventConfig, Handlers } from 'motia';
 import { z } from 'zod';
-import { GeminiClient } from '../lib/gemini-client';
+import {
+  averageDailyForecast,
+  DEFAULT_EXPLANATION_LOCALE,
+  explainForecastInLocales,
+  explanationLocaleSchema,
+  intervalWidth,
+  inventoryCover,
+  weekdayPattern
+} from '../lib/explanations';
+import type { ExplanationLocale, ForecastExplanation, RationaleValidation } from '../lib/explanations';
+import { recordForecastStatus } from '../lib/forecast-status';
+import { appVersion, finishForecastRun } from '../lib/forecast-runs';
+import { runFinishedEvents } from '../lib/run-completion';
+import { describeModel, intervalMethodSchema } from '../lib/models';
+import { granularitySchema } from '../lib/granularity';
+import { runForecast } from '../lib/forecast-engine';
+import { openingInventory } from '../lib/replenishment';
+import { censoringMethodSchema } from '../lib/censoring';
+import { dataQualityReportSchema, qualityWarnings } from '../lib/data-quality';
 import { config as dotenvConfig } from 'dotenv';
 import { resolve } from 'path';
 
@@ -12,10 +30,19 @@ const inputSchema = z.object({
   historicalData: z.object({
     productId: z.string(),
     storeId: z.string(),
+    product: z.object({
+      sku: z.string(),
+      name: z.string()
+    }).optional(),
     timeRange: z.string(),
+    window: z.object({
+      from: z.string(),
+      to: z.string()
+    }),
     dailySales: z.array(z.object({
       date: z.string(),
-      value: z.number()
+      value: z.number(),
+      censored: z.boolean().optional()
     })),
     inventorySnapshots: z.array(z.object({
       date: z.string(),
@@ -25,8 +52,14 @@ const inputSchema = z.object({
   }),
   forecastParameters: z.object({
     method: z.string(),
-    confidenceLevel: z.number()
-  })
+    confidenceLevel: z.number(),
+    horizon: z.number().optional(),
+    granularity: granularitySchema.optional(),
+    intervalMethod: intervalMethodSchema.optional(),
+    censoring: censoringMethodSchema.optional(),
+    locale: explanationLocaleSchema.optional()
+  }),
+  dataQuality: dataQualityReportSchema.optional()
 });
 
 export const config: EventConfig = {
@@ -34,223 +67,192 @@ export const config: EventConfig = {
   type: 'event',
   description: 'Generates forecast based on historical data',
   subscribes: ['generate-forecast'],
-  emits: ['persist-forecast-result'],
+  emits: ['persist-forecast-result', 'dispatch-forecast-batch', 'dispatch-chain-forecast'],
   flows: ['forecast_pipeline'],
   input: inputSchema
 };
 
-export const handler: Handlers['GenerateForecast'] = async (input, { logger, emit }) => {
+export const handler: Handlers['GenerateForecast'] = async (input, { logger, emit, state }) => {
   logger.info('=== GENERATE FORECAST STEP STARTED ===');
 
-  const { requestId, historicalData, forecastParameters } = input;
-
-  logger.info('Generate forecast step received input', {
-    requestId,
-    inputReceived: !!input,
-    historicalDataPresent: !!historicalData,
-    forecastParametersPresent: !!forecastParameters,
-    step: 'generate_forecast'
-  });
-
-  // This forecast is fully determined by the historical facts loaded from the database.
-  // No randomness, no external calls, no hidden state - purely deterministic.
-
-  logger.info('Starting deterministic forecast generation', {
-    requestId,
-    productId: historicalData.productId,
-    method: forecastParameters.method,
-    dailySalesCount: historicalData.dailySales.length,
-    inventorySnapshotsCount: historicalData.inventorySnapshots.length,
-    step: 'generate_forecast'
-  });
-
-  // Log input data summary
-  logger.info('Input data summary for deterministic forecast', {
-    requestId,
-    productId: historicalData.productId,
-    dateRange: `${historicalData.dailySales[0]?.date} to ${historicalData.dailySales[historicalData.dailySales.length - 1]?.date}`,
-    totalSales: historicalData.dailySales.reduce((sum, sale) => sum + sale.value, 0),
-    averageDailySales: historicalData.dailySales.reduce((sum, sale) => sum + sale.value, 0) / historicalData.dailySales.length,
-    averageInventory: historicalData.inventorySnapshots.reduce((sum, inv) => sum + inv.value, 0) / historicalData.inventorySnapshots.length,
-    step: 'generate_forecast'
-  });
-
-  // Step 1: Calculate 7-day moving average (deterministic)
-  const movingAverages = [];
-  for (let i = 0; i <= historicalData.dailySales.length - 7; i++) {
-    const window = historicalData.dailySales.slice(i, i + 7);
-    const sum = window.reduce((acc, day) => acc + day.value, 0);
-    movingAverages.push(sum / 7);
-  }
-  const finalMovingAverage = movingAverages[movingAverages.length - 1] || 0;
+  const { requestId, historicalData, forecastParameters, dataQuality } = input;
 
-  logger.info('Moving average calculation completed', {
-    requestId,
-    movingAverageWindowSize: 7,
-    finalMovingAverage,
+  await recordForecastStatus(state, requestId, {
+    status: 'generating',
     step: 'generate_forecast'
   });
 
-  // Step 2: Calculate trend slope (deterministic)
-  const firstSales = historicalData.dailySales[0]?.value || 0;
-  const lastSales = historicalData.dailySales[historicalData.dailySales.length - 1]?.value || 0;
-  const daysCount = historicalData.dailySales.length;
-  const trendSlope = (lastSales - firstSales) / daysCount;
-
-  logger.info('Trend slope calculation completed', {
-    requestId,
-    firstSalesValue: firstSales,
-    lastSalesValue: lastSales,
-    daysCount,
-    trendSlope,
-    step: 'generate_forecast'
-  });
+  try {
+    logger.info('Generate forecast step received input', {
+      requestId,
+      inputReceived: !!input,
+      historicalDataPresent: !!historicalData,
+      forecastParametersPresent: !!forecastParameters,
+      step: 'generate_forecast'
+    });
 
-  // Step 3: Generate deterministic forecast (next 5 periods)
-  const lastDate = new Date(historicalData.dailySales[historicalData.dailySales.length - 1].date);
-  const forecastPeriods = Array.from({ length: 5 }, (_, i) => {
-    const daysAhead = i + 1;
-    const futureDate = new Date(lastDate);
-    futureDate.setDate(futureDate.getDate() + daysAhead);
+    // This forecast is fully determined by the historical facts loaded from the database.
+    // No randomness, no external calls, no hidden state - purely deterministic.
 
-    // Deterministic forecast: moving average + trend adjustment
-    const deterministicValue = finalMovingAverage + (trendSlope * daysAhead);
+    logger.info('Starting deterministic forecast generation', {
+      requestId,
+      productId: historicalData.productId,
+      method: forecastParameters.method,
+      dailySalesCount: historicalData.dailySales.length,
+      inventorySnapshotsCount: historicalData.inventorySnapshots.length,
+      step: 'generate_forecast'
+    });
 
-    // Confidence interval based on historical variance (deterministic)
-    const historicalValues = historicalData.dailySales.map(sale => sale.value);
-    const avg = historicalValues.reduce((a, b) => a + b, 0) / historicalValues.length;
-    const variance = historicalValues.reduce((sq, n) => sq + Math.pow(n - avg, 2), 0) / historicalValues.length;
-    const stdDev = Math.sqrt(variance);
-    const confidenceMargin = stdDev * forecastParameters.confidenceLevel;
+    // Log input data summary
+    logger.info('Input data summary for deterministic forecast', {
+      requestId,
+      productId: historicalData.productId,
+      dateRange: `${historicalData.dailySales[0]?.date} to ${historicalData.dailySales[historicalData.dailySales.length - 1]?.date}`,
+      totalSales: historicalData.dailySales.reduce((sum, sale) => sum + sale.value, 0),
+      averageDailySales: historicalData.dailySales.reduce((sum, sale) => sum + sale.value, 0) / historicalData.dailySales.length,
+      averageInventory: historicalData.inventorySnapshots.reduce((sum, inv) => sum + inv.value, 0) / historicalData.inventorySnapshots.length,
+      step: 'generate_forecast'
+    });
 
-    return {
-      date: futureDate.toISOString().split('T')[0],
-      forecastValue: Math.round(deterministicValue * 100) / 100,
-      confidenceInterval: {
-        lower: Math.round((deterministicValue - confidenceMargin) * 100) / 100,
-        upper: Math.round((deterministicValue + confidenceMargin) * 100) / 100
-      }
-    };
-  });
+    // Steps 1-4: Fit the requested model and generate the forecast (deterministic, see lib/forecast-engine)
+    const engineOutput = runForecast({
+      dailySales: historicalData.dailySales,
+      method: forecastParameters.method,
+      confidenceLevel: forecastParameters.confidenceLevel,
+      horizon: forecastParameters.horizon,
+      granularity: forecastParameters.granularity,
+      intervalMethod: forecastParameters.intervalMethod,
+      censoring: forecastParameters.censoring,
+      // Forecast from the end of the requested window, even when its last days had no sales
+      lastObservedDate: historicalData.window.to
+    });
+    const { horizon, forecastPeriods } = engineOutput;
+    const finalMovingAverage = engineOutput.forecastSummary.movingAverage;
+    const trendSlope = engineOutput.forecastSummary.trendSlope;
 
-  // Calculate forecast summary (deterministic)
-  const forecastValues = forecastPeriods.map(p => p.forecastValue);
-  const forecastResult = {
-    requestId,
-    productId: historicalData.productId,
-    storeId: historicalData.storeId,
-    generatedAt: new Date().toISOString(),
-    forecastMethod: 'deterministic-moving-average-with-trend',
-    confidenceLevel: forecastParameters.confidenceLevel,
-    forecastPeriods,
-    forecastSummary: {
-      averageForecast: Math.round(forecastValues.reduce((a, b) => a + b, 0) / forecastValues.length * 100) / 100,
-      minForecast: Math.min(...forecastValues),
-      maxForecast: Math.max(...forecastValues),
-      trend: Math.round((forecastValues[forecastValues.length - 1] - forecastValues[0]) * 100) / 100,
-      // Additional deterministic metrics
+    logger.info('Forecast model fitted', {
+      requestId,
+      requestedMethod: forecastParameters.method,
+      model: engineOutput.model.name,
+      parameters: engineOutput.model.parameters,
+      modelVersion: engineOutput.model.version,
+      intervalMethod: engineOutput.intervalMethod,
+      censoring: engineOutput.censoring,
       movingAverage: finalMovingAverage,
-      trendSlope: trendSlope
-    },
-    forecastRationale: '' // Will be populated by AI explanation
-  };
-
-  logger.info('Deterministic forecast generated successfully', {
-    requestId,
-    productId: historicalData.productId,
-    averageForecast: forecastResult.forecastSummary.averageForecast,
-    minForecast: forecastResult.forecastSummary.minForecast,
-    maxForecast: forecastResult.forecastSummary.maxForecast,
-    trend: forecastResult.forecastSummary.trend,
-    forecastPeriodsCount: forecastPeriods.length,
-    step: 'generate_forecast'
-  });
-
-  // Step 4: Generate AI explanation using Gemini (non-deterministic but safe fallback)
-  // This step is completely separate from the deterministic forecast logic
-  // If Gemini fails, we use a deterministic fallback explanation
-  try {
-    // Initialize Gemini client with API key from environment
-    const geminiApiKey = process.env.GEMINI_API_KEY || '';
-    const geminiClient = new GeminiClient(geminiApiKey, logger);
+      trendSlope,
+      step: 'generate_forecast'
+    });
 
-    // Prepare request with deterministic values only
-    const explanationRequest = {
-      movingAverage: finalMovingAverage,
-      trendSlope: trendSlope,
-      historicalDataPoints: historicalData.dailySales.length,
-      forecastHorizon: forecastPeriods.length,
-      productId: historicalData.productId
+    const forecastResult = {
+      requestId,
+      productId: historicalData.productId,
+      storeId: historicalData.storeId,
+      generatedAt: new Date().toISOString(),
+      forecastMethod: engineOutput.model.name,
+      model: engineOutput.model,
+      confidenceLevel: forecastParameters.confidenceLevel,
+      intervalMethod: engineOutput.intervalMethod,
+      horizon,
+      granularity: engineOutput.granularity,
+      censoring: engineOutput.censoring,
+      dataQuality,
+      forecastPeriods,
+      forecastSummary: engineOutput.forecastSummary,
+      // Stock at the start of the forecast, used by the replenishment flow
+      inventory: openingInventory(historicalData.inventorySnapshots, historicalData.dailySales),
+      forecastRationale: '', // Will be populated by the explanation provider
+      rationaleValidation: undefined as RationaleValidation | undefined,
+      // Why the template stood in for the configured provider
+      rationaleFallbackReason: undefined as string | undefined,
+      rationaleLocale: forecastParameters.locale ?? DEFAULT_EXPLANATION_LOCALE,
+      // The rationale in every locale, forecastRationale being the one in rationaleLocale
+      forecastRationales: {} as Partial<Record<ExplanationLocale, ForecastExplanation>>
     };
 
-    logger.info('Attempting to generate AI forecast explanation', {
+    logger.info('Deterministic forecast generated successfully', {
       requestId,
       productId: historicalData.productId,
-      usingGemini: !!geminiApiKey,
-      step: 'generate_forecast_explanation'
+      averageForecast: forecastResult.forecastSummary.averageForecast,
+      minForecast: forecastResult.forecastSummary.minForecast,
+      maxForecast: forecastResult.forecastSummary.maxForecast,
+      trend: forecastResult.forecastSummary.trend,
+      forecastPeriodsCount: forecastPeriods.length,
+      step: 'generate_forecast'
     });
 
-    // Generate explanation from Gemini API
-    const explanationResponse = await geminiClient.generateForecastExplanation(explanationRequest);
+    // Step 5: Explain the forecast in words (see lib/explanations). The provider only sees the
+    // deterministic values above and never changes the forecast; its reply may only quote those
+    // values, and if it fails or is rejected the deterministic template explanation is used instead.
+    // It is written in every locale; the requested one becomes forecastRationale
+    const forecastValues = forecastPeriods.map(period => period.forecastValue);
+    const dailyForecast = averageDailyForecast(forecastValues, horizon);
+    const explanations = await explainForecastInLocales({
+      movingAverage: finalMovingAverage,
+      trendSlope: trendSlope,
+      historicalDataPoints: historicalData.dailySales.length,
+      forecastHorizon: horizon,
+      forecastValues,
+      averageDailyForecast: dailyForecast,
+      productId: historicalData.productId,
+      product: historicalData.product,
+      model: { name: engineOutput.model.name, description: describeModel(engineOutput.model.name) },
+      weekdayPattern: weekdayPattern(historicalData.dailySales) ?? undefined,
+      inventory: forecastResult.inventory ? inventoryCover(forecastResult.inventory.openingLevel, dailyForecast) : undefined,
+      interval: intervalWidth(forecastPeriods, forecastParameters.confidenceLevel),
+      dataQualityWarnings: dataQuality
+        ? qualityWarnings(dataQuality).map(({ code, count, message }) => ({ code, count, message }))
+        : [],
+      censoredDays: engineOutput.censoring.censoredDays,
+      censoringMethod: engineOutput.censoring.method
+    }, forecastResult.rationaleLocale, { state, logger });
+    const explanation = explanations[forecastResult.rationaleLocale];
+    forecastResult.forecastRationales = explanations;
+    forecastResult.forecastRationale = explanation.rationale;
+    forecastResult.rationaleValidation = explanation.validation;
+    forecastResult.rationaleFallbackReason = explanation.error;
 
-    if (explanationResponse.success && explanationResponse.explanation) {
-      forecastResult.forecastRationale = explanationResponse.explanation;
-      logger.info('Successfully generated AI forecast explanation', {
-        requestId,
-        productId: historicalData.productId,
-        explanation: explanationResponse.explanation,
-        step: 'generate_forecast_explanation'
-      });
-    } else {
-      // Fallback to deterministic explanation if Gemini fails
-      const fallbackExplanation = geminiClient.generateFallbackExplanation(explanationRequest);
-      forecastResult.forecastRationale = fallbackExplanation;
-      logger.warn('Using fallback explanation due to Gemini API failure', {
-        requestId,
-        productId: historicalData.productId,
-        explanation: fallbackExplanation,
-        error: explanationResponse.error,
-        step: 'generate_forecast_explanation'
-      });
-    }
-  } catch (error) {
-    // Handle any unexpected errors and use fallback
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    logger.error('Unexpected error in Gemini explanation generation', {
+    // Log the forecast rationale before emitting
+    logger.info('Forecast rationale generated', {
       requestId,
       productId: historicalData.productId,
-      error: errorMessage,
-      step: 'generate_forecast_explanation'
+      forecastRationale: forecastResult.forecastRationale,
+      hasRationale: !!forecastResult.forecastRationale,
+      rationaleLength: forecastResult.forecastRationale?.length || 0,
+      rationaleSource: explanation.source,
+      rationaleValidation: explanation.validation?.status,
+      rationaleLocale: forecastResult.rationaleLocale,
+      step: 'generate_forecast'
     });
 
-    // Create fallback explanation manually if Gemini client fails to initialize
-    const geminiClient = new GeminiClient('', logger);
-    const fallbackExplanation = geminiClient.generateFallbackExplanation({
-      movingAverage: finalMovingAverage,
-      trendSlope: trendSlope,
-      historicalDataPoints: historicalData.dailySales.length,
-      forecastHorizon: forecastPeriods.length,
-      productId: historicalData.productId
+    await recordForecastStatus(state, requestId, {
+      status: 'generating',
+      step: 'generate_forecast',
+      lineage: {
+        model: engineOutput.model,
+        appVersion: appVersion(),
+        rationaleSource: explanation.source
+      }
     });
-    forecastResult.forecastRationale = fallbackExplanation;
-  }
 
-  // Log the forecast rationale before emitting
-  logger.info('Forecast rationale generated', {
-    requestId,
-    productId: historicalData.productId,
-    forecastRationale: forecastResult.forecastRationale,
-    hasRationale: !!forecastResult.forecastRationale,
-    rationaleLength: forecastResult.forecastRationale?.length || 0,
-    step: 'generate_forecast'
-  });
+    // Emit event for persisting forecast result
+    await emit({
+      topic: 'persist-forecast-result',
+      data: {
+        requestId,
+        forecastResult
+      }
+    });
+  } catch (error) {
+    const runState = await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'generate_forecast',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, logger);
 
-  // Emit event for persisting forecast result
-  await emit({
-    topic: 'persist-forecast-result',
-    data: {
-      requestId,
-      forecastResult
+    // A failed run still frees its batch lane or lets its chain-level run move on
+    for (const event of runFinishedEvents(runState)) {
+      await emit(event);
     }
-  });
+    throw error;
+  }
 };
@@ -1,11 +1,28 @@
 import type { EventConfig, Handlers } from 'motia';
 import { z } from 'zod';
-import { supabase } from '../lib/supabase';
+import { fetchDailySales, fetchInventorySnapshots } from '../lib/facts';
+import { fetchProduct } from '../lib/products';
+import { recordForecastStatus } from '../lib/forecast-status';
+import { finishForecastRun, hashFacts } from '../lib/forecast-runs';
+import { runFinishedEvents } from '../lib/run-completion';
+import { DEFAULT_TIME_RANGE, resolveTimeRange } from '../lib/time-range';
+import { DEFAULT_FORECAST_METHOD, intervalMethodSchema } from '../lib/models';
+import { DEFAULT_GRANULARITY, DEFAULT_HORIZON, granularitySchema } from '../lib/granularity';
+import { censoringMethodSchema, markCensoredDays, stockoutThreshold } from '../lib/censoring';
+import { explanationLocaleSchema } from '../lib/explanations';
 
 const inputSchema = z.object({
   requestId: z.string(),
   productId: z.string().optional(),
-  timeRange: z.string().optional()
+  storeId: z.string().optional(),
+  timeRange: z.string().optional(),
+  asOf: z.string().optional(),
+  method: z.string().optional(),
+  horizon: z.number().optional(),
+  granularity: granularitySchema.optional(),
+  intervalMethod: intervalMethodSchema.optional(),
+  censoring: censoringMethodSchema.optional(),
+  locale: explanationLocaleSchema.optional()
 });
 
 export const config: EventConfig = {
@@ -13,138 +30,218 @@ export const config: EventConfig = {
   type: 'event',
   description: 'Loads historical data for forecasting',
   subscribes: ['load-historical-facts'],
-  emits: ['generate-forecast'],
+  emits: ['check-data-quality', 'dispatch-forecast-batch', 'dispatch-chain-forecast'],
   flows: ['forecast_pipeline'],
   input: inputSchema
 };
 
-export const handler: Handlers['LoadHistoricalFacts'] = async (input, { logger, emit }) => {
+export const handler: Handlers['LoadHistoricalFacts'] = async (input, { logger, emit, state }) => {
   logger.info('=== LOAD HISTORICAL FACTS STEP STARTED ===');
 
-  const { requestId, productId = 'default-product', timeRange = 'last-30-days' } = input;
+  const { requestId, productId = 'default-product', storeId: requestedStoreId, timeRange = DEFAULT_TIME_RANGE, asOf, method = DEFAULT_FORECAST_METHOD } = input;
+  const { horizon = DEFAULT_HORIZON, granularity = DEFAULT_GRANULARITY, intervalMethod, censoring, locale } = input;
 
-  logger.info('Loading historical facts from Supabase', {
-    requestId,
-    productId,
-    timeRange,
+  await recordForecastStatus(state, requestId, {
+    status: 'loading_facts',
     step: 'load_historical_facts',
-    inputReceived: !!input,
-    inputDetails: `requestId: ${requestId}, productId: ${productId}, timeRange: ${timeRange}`
-  });
-
-  // Query daily sales data from Supabase
-  logger.info('Querying daily sales data from Supabase', {
-    requestId,
     productId,
-    step: 'load_historical_facts'
+    storeId: requestedStoreId,
+    timeRange
   });
 
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+  try {
+    // The window is resolved against asOf (pinned by ForecastAPI), never against wall-clock now,
+    // so the same request always loads the same facts
+    const window = resolveTimeRange(timeRange, asOf);
 
-  const { data: salesData, error: salesError } = await supabase
-    .from('f1_daily_sales')
-    .select('sales_date, quantity, store_id')
-    .eq('product_id', productId)
-    .gte('sales_date', thirtyDaysAgo.toISOString().split('T')[0])
-    .order('sales_date', { ascending: true });
-
-  if (salesError) {
-    logger.error('Failed to load daily sales data', {
+    logger.info('Loading historical facts from Supabase', {
       requestId,
-      error: salesError.message,
-      step: 'load_historical_facts'
+      productId,
+      storeId: requestedStoreId,
+      timeRange,
+      asOf: window.asOf,
+      from: window.from,
+      to: window.to,
+      step: 'load_historical_facts',
+      inputReceived: !!input,
+      inputDetails: `requestId: ${requestId}, productId: ${productId}, timeRange: ${timeRange}`
     });
-    throw new Error(`Failed to load daily sales data: ${salesError.message}`);
-  }
 
-  if (!salesData || salesData.length === 0) {
-    logger.error('No daily sales data found', {
+    // Query daily sales data from Supabase
+    logger.info('Querying daily sales data from Supabase', {
       requestId,
       productId,
+      storeId: requestedStoreId,
       step: 'load_historical_facts'
     });
-    throw new Error(`No daily sales data found for product ${productId}`);
-  }
 
-  // Query inventory snapshots data from Supabase
-  logger.info('Querying inventory snapshots data from Supabase', {
-    requestId,
-    productId,
-    step: 'load_historical_facts'
-  });
+    const { data: salesData, error: salesError } = await fetchDailySales(productId, window.from, window.to, requestedStoreId);
+
+    if (salesError) {
+      logger.error('Failed to load daily sales data', {
+        requestId,
+        error: salesError.message,
+        step: 'load_historical_facts'
+      });
+      throw new Error(`Failed to load daily sales data: ${salesError.message}`);
+    }
 
-  const { data: inventoryData, error: inventoryError } = await supabase
-    .from('f1_inventory_snapshots')
-    .select('snapshot_date, inventory_level')
-    .eq('product_id', productId)
-    .gte('snapshot_date', thirtyDaysAgo.toISOString().split('T')[0])
-    .order('snapshot_date', { ascending: true });
+    if (!salesData || salesData.length === 0) {
+      logger.error('No daily sales data found', {
+        requestId,
+        productId,
+        storeId: requestedStoreId,
+        step: 'load_historical_facts'
+      });
+      throw new Error(requestedStoreId
+        ? `No daily sales data found for product ${productId} in store ${requestedStoreId}`
+        : `No daily sales data found for product ${productId}`);
+    }
 
-  if (inventoryError) {
-    logger.error('Failed to load inventory snapshots data', {
-      requestId,
-      error: inventoryError.message,
-      step: 'load_historical_facts'
-    });
-    throw new Error(`Failed to load inventory snapshots data: ${inventoryError.message}`);
-  }
+    // Without a storeId the product must sell in exactly one store; mixing stores into one
+    // series would misattribute the forecast
+    const salesStoreIds = [...new Set(salesData.map(sale => sale.storeId))].sort();
+    if (salesStoreIds.length > 1) {
+      logger.error('Daily sales span several stores but no storeId was given', {
+        requestId,
+        productId,
+        storeIds: salesStoreIds,
+        step: 'load_historical_facts'
+      });
+      throw new Error(
+        `Product ${productId} has sales in ${salesStoreIds.length} stores (${salesStoreIds.join(', ')}); ` +
+        'pass storeId, or allStores to forecast every store and the chain total'
+      );
+    }
+    const storeId = requestedStoreId ?? salesStoreIds[0];
 
-  if (!inventoryData || inventoryData.length === 0) {
-    logger.error('No inventory snapshots data found', {
+    // Query inventory snapshots data from Supabase
+    logger.info('Querying inventory snapshots data from Supabase', {
       requestId,
       productId,
       step: 'load_historical_facts'
     });
-    throw new Error(`No inventory snapshots data found for product ${productId}`);
-  }
 
-  // Extract store_id from the first sales record
-  const storeId = salesData[0].store_id;
+    const { data: inventoryData, error: inventoryError } = await fetchInventorySnapshots(productId, window.from, window.to, storeId);
 
-  // Combine data for downstream processing
-  const historicalData = {
-    productId,
-    storeId,
-    timeRange,
-    dailySales: salesData.map(item => ({
-      date: item.sales_date,
-      value: item.quantity
-    })),
-    inventorySnapshots: inventoryData.map(item => ({
-      date: item.snapshot_date,
-      value: item.inventory_level
-    })),
-    loadedAt: new Date().toISOString()
-  };
-
-  logger.info('Historical facts loaded successfully from Supabase', {
-    requestId,
-    dailySalesCount: historicalData.dailySales.length,
-    inventorySnapshotsCount: historicalData.inventorySnapshots.length,
-    step: 'load_historical_facts'
-  });
+    if (inventoryError) {
+      logger.error('Failed to load inventory snapshots data', {
+        requestId,
+        error: inventoryError.message,
+        step: 'load_historical_facts'
+      });
+      throw new Error(`Failed to load inventory snapshots data: ${inventoryError.message}`);
+    }
 
-  logger.info('Emitting generate-forecast event with loaded historical data', {
-    requestId,
-    topic: 'generate-forecast',
-    dailySalesCount: historicalData.dailySales.length,
-    inventorySnapshotsCount: historicalData.inventorySnapshots.length,
-    step: 'load_historical_facts'
-  });
+    if (!inventoryData || inventoryData.length === 0) {
+      logger.error('No inventory snapshots data found', {
+        requestId,
+        productId,
+        storeId,
+        step: 'load_historical_facts'
+      });
+      throw new Error(`No inventory snapshots data found for product ${productId} in store ${storeId}`);
+    }
+
+    // Name and SKU only make the explanation readable, so a failed lookup does not fail the run
+    const { data: product, error: productError } = await fetchProduct(productId);
 
-  // Emit event for forecast generation
-  await emit({
-    topic: 'generate-forecast',
-    data: {
+    if (productError) {
+      logger.warn('Failed to load product details for the explanation', {
+        requestId,
+        productId,
+        error: productError.message,
+        step: 'load_historical_facts'
+      });
+    }
+
+    // Sales on days that ended with (near) zero stock were capped by supply, not demand
+    const threshold = stockoutThreshold();
+    const dailySales = markCensoredDays(
+      salesData.map(({ date, value }) => ({ date, value })),
+      inventoryData,
+      threshold
+    );
+    const censoredDays = dailySales.filter(sale => sale.censored).length;
+
+    const forecastParameters = {
+      method,
+      confidenceLevel: 0.95,
+      horizon,
+      granularity,
+      intervalMethod,
+      censoring,
+      locale
+    };
+
+    // Enough to reload exactly these facts later and tell whether they have changed since
+    await recordForecastStatus(state, requestId, {
+      status: 'loading_facts',
+      step: 'load_historical_facts',
+      storeId,
+      lineage: {
+        window: { from: window.from, to: window.to, asOf: window.asOf },
+        facts: {
+          salesRows: salesData.length,
+          inventoryRows: inventoryData.length,
+          hash: hashFacts({ sales: salesData, inventory: inventoryData }),
+          stockoutThreshold: threshold
+        },
+        forecastParameters
+      }
+    });
+
+    // Combine data for downstream processing
+    const historicalData = {
+      productId,
+      storeId,
+      product: product ? { sku: product.sku, name: product.name } : undefined,
+      timeRange,
+      window: { from: window.from, to: window.to },
+      dailySales,
+      inventorySnapshots: inventoryData,
+      loadedAt: new Date().toISOString()
+    };
+
+    logger.info('Historical facts loaded successfully from Supabase', {
       requestId,
-      historicalData,
-      forecastParameters: {
-        method: 'exponential-smoothing',
-        confidenceLevel: 0.95
+      dailySalesCount: historicalData.dailySales.length,
+      inventorySnapshotsCount: historicalData.inventorySnapshots.length,
+      stockoutThreshold: threshold,
+      censoredDays,
+      step: 'load_historical_facts'
+    });
+
+    logger.info('Emitting check-data-quality event with loaded historical data', {
+      requestId,
+      topic: 'check-data-quality',
+      dailySalesCount: historicalData.dailySales.length,
+      inventorySnapshotsCount: historicalData.inventorySnapshots.length,
+      step: 'load_historical_facts'
+    });
+
+    // Emit event for the data-quality gate, which passes the facts on to forecast generation
+    await emit({
+      topic: 'check-data-quality',
+      data: {
+        requestId,
+        historicalData,
+        forecastParameters
       }
-    }
-  });
+    });
 
-  logger.info('=== LOAD HISTORICAL FACTS STEP COMPLETED SUCCESSFULLY ===');
+    logger.info('=== LOAD HISTORICAL FACTS STEP COMPLETED SUCCESSFULLY ===');
+  } catch (error) {
+    const runState = await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'load_historical_facts',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, logger);
+
+    // A failed run still frees its batch lane or lets its chain-level run move on
+    for (const event of runFinishedEvents(runState)) {
+      await emit(event);
+    }
+    throw error;
+  }
 };
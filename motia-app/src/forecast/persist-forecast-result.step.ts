@@ -1,6 +1,15 @@
 import type { EventConfig, Handlers } from 'motia';
 import { z } from 'zod';
 import { supabase } from '../lib/supabase';
+import { getForecastStatus, recordForecastStatus } from '../lib/forecast-status';
+import type { ForecastRunState } from '../lib/forecast-status';
+import { finishForecastRun, saveForecastRun } from '../lib/forecast-runs';
+import { runFinishedEvents } from '../lib/run-completion';
+import { granularitySchema } from '../lib/granularity';
+import { intervalMethodSchema } from '../lib/models';
+import { censoringMethodSchema } from '../lib/censoring';
+import { dataQualityReportSchema, qualityWarnings } from '../lib/data-quality';
+import type { ExplanationLocale, ForecastExplanation, RationaleValidation } from '../lib/explanations';
 
 // Define forecast result schema with optional rationale
 const inputSchema = z.object({
@@ -11,9 +20,25 @@ const inputSchema = z.object({
     storeId: z.string(),
     generatedAt: z.string(),
     forecastMethod: z.string(),
+    model: z.object({
+      name: z.string(),
+      version: z.string(),
+      parameters: z.record(z.string(), z.number())
+    }),
     confidenceLevel: z.number(),
+    intervalMethod: intervalMethodSchema,
+    horizon: z.number(),
+    granularity: granularitySchema,
+    censoring: z.object({
+      method: censoringMethodSchema,
+      censoredDays: z.number(),
+      adjustedDays: z.number()
+    }),
+    dataQuality: dataQualityReportSchema.optional(),
     forecastPeriods: z.array(z.object({
       date: z.string(),
+      periodStart: z.string(),
+      periodEnd: z.string(),
       forecastValue: z.number(),
       confidenceInterval: z.object({
         lower: z.number(),
@@ -27,7 +52,12 @@ const inputSchema = z.object({
       trend: z.number(),
       movingAverage: z.number().optional(),
       trendSlope: z.number().optional()
-    })
+    }),
+    inventory: z.object({
+      date: z.string(),
+      level: z.number(),
+      openingLevel: z.number()
+    }).nullable()
   }).passthrough() // Allow additional properties like forecastRationale
 });
 
@@ -36,16 +66,67 @@ export const config: EventConfig = {
   type: 'event',
   description: 'Persists forecast result to Supabase database',
   subscribes: ['persist-forecast-result'],
-  emits: [],
+  emits: ['dispatch-forecast-batch', 'dispatch-chain-forecast', 'compute-replenishment'],
   flows: ['forecast_pipeline'],
   input: inputSchema
 };
 
-export const handler: Handlers['PersistForecastResult'] = async (input, { logger }) => {
+export const handler: Handlers['PersistForecastResult'] = async (input, { logger, emit, state }) => {
   logger.info('=== PERSIST FORECAST RESULT STEP STARTED ===');
 
   const { requestId, forecastResult } = input;
 
+  // Replenishment for the run, then the events that free its batch lane or move its chain on.
+  // Each is idempotent, so emitting them again for a redelivered event is harmless.
+  const emitFollowUps = async (runState: ForecastRunState) => {
+    if (forecastResult.inventory) {
+      await emit({
+        topic: 'compute-replenishment',
+        data: {
+          requestId,
+          productId: forecastResult.productId,
+          storeId: forecastResult.storeId,
+          modelVersion: forecastResult.model.version,
+          confidenceLevel: forecastResult.confidenceLevel,
+          forecastPeriods: forecastResult.forecastPeriods,
+          inventory: forecastResult.inventory
+        }
+      });
+    } else {
+      logger.warn('No inventory snapshot in the forecast window, skipping replenishment', {
+        requestId,
+        productId: forecastResult.productId,
+        step: 'persist_forecast_result'
+      });
+    }
+
+    for (const event of runFinishedEvents(runState)) {
+      await emit(event);
+    }
+  };
+
+  // A redelivered event may find the run already finished by an earlier delivery. A completed run
+  // is not written again, but its follow-up events are, since that delivery may have failed while
+  // emitting them; a failed run is written again, but its batch lane or chain-level run has
+  // already moved on.
+  const previousRun = await getForecastStatus(state, requestId);
+
+  if (previousRun?.status === 'completed') {
+    logger.warn('Forecast run already completed, only re-emitting its follow-up events', {
+      requestId,
+      step: 'persist_forecast_result'
+    });
+    await emitFollowUps(previousRun);
+    return;
+  }
+
+  const announceFinish = previousRun?.status !== 'failed';
+
+  const persistingRun = await recordForecastStatus(state, requestId, {
+    status: 'persisting',
+    step: 'persist_forecast_result'
+  });
+
   logger.info('Persist step received input', {
     requestId,
     inputReceived: !!input,
@@ -53,9 +134,13 @@ export const handler: Handlers['PersistForecastResult'] = async (input, { logger
     step: 'persist_forecast_result'
   });
 
-  // Type assertion to handle the forecastRationale property
+  // Type assertion to handle the forecastRationale properties
   const typedForecastResult = forecastResult as typeof forecastResult & {
     forecastRationale?: string;
+    rationaleValidation?: RationaleValidation;
+    rationaleFallbackReason?: string;
+    rationaleLocale?: ExplanationLocale;
+    forecastRationales?: Partial<Record<ExplanationLocale, ForecastExplanation>>;
   };
 
   logger.info('Starting to persist forecast results to Supabase', {
@@ -67,118 +152,82 @@ export const handler: Handlers['PersistForecastResult'] = async (input, { logger
     step: 'persist_forecast_result'
   });
 
-  // Use the store_id from the forecast result (with type assertion)
-  const typedForecastResultWithStore = forecastResult as typeof forecastResult & {
-    storeId: string;
-  };
-  const storeId = typedForecastResultWithStore.storeId;
+  const storeId = forecastResult.storeId;
   const productId = forecastResult.productId;
+  const dataQualityWarnings = forecastResult.dataQuality ? qualityWarnings(forecastResult.dataQuality) : [];
 
-  // Insert each forecast period as a separate row in Supabase
-  const insertPromises = typedForecastResult.forecastPeriods.map(async (period, index) => {
-    // Use AI-generated rationale if available, otherwise use deterministic explanation
-    const forecastRationale = typedForecastResult.forecastRationale ||
-                             `Forecast generated using ${typedForecastResult.forecastMethod} method. ` +
-                             `Moving average: ${typedForecastResult.forecastSummary.movingAverage?.toFixed(2) || 'N/A'}, ` +
-                             `Trend slope: ${typedForecastResult.forecastSummary.trendSlope?.toFixed(2) || 'N/A'}.`;
-
-    // Prepare the insert data
-    const insertData = {
-      store_id: storeId,
-      product_id: productId,
-      forecast_date: period.date,
-      forecast_quantity: Math.round(period.forecastValue),
-      model_version: 'v0-dummy',
-      explanation: forecastRationale,
-      forecast_rationale: forecastRationale // Store in the new column
-    };
-
-    logger.info(`Attempting to insert forecast period ${index + 1} with rationale`, {
-      requestId,
-      periodIndex: index + 1,
-      forecastDate: period.date,
-      hasRationale: !!forecastRationale,
-      rationaleLength: forecastRationale?.length || 0,
-      step: 'persist_forecast_result'
-    });
+  // Use AI-generated rationale if available, otherwise use deterministic explanation
+  const forecastRationale = typedForecastResult.forecastRationale ||
+                           `Forecast generated using ${typedForecastResult.forecastMethod} method. ` +
+                           `Moving average: ${typedForecastResult.forecastSummary.movingAverage?.toFixed(2) || 'N/A'}, ` +
+                           `Trend slope: ${typedForecastResult.forecastSummary.trendSlope?.toFixed(2) || 'N/A'}.`;
 
-    // Try to insert with forecast_rationale first
-    let insertResult = await supabase
-      .from('f1_forecast_results')
-      .insert(insertData)
-      .select();
+  // One row per forecast period, keyed by the run's request_id and linked to its f1_forecast_runs row
+  const rows = typedForecastResult.forecastPeriods.map(period => ({
+    request_id: requestId,
+    forecast_run_id: requestId,
+    store_id: storeId,
+    product_id: productId,
+    forecast_date: period.date,
+    period_start: period.periodStart,
+    period_end: period.periodEnd,
+    granularity: forecastResult.granularity,
+    forecast_quantity: Math.round(period.forecastValue),
+    forecast_lower: period.confidenceInterval.lower,
+    forecast_upper: period.confidenceInterval.upper,
+    confidence_level: forecastResult.confidenceLevel,
+    interval_method: forecastResult.intervalMethod,
+    model_version: forecastResult.model.version,
+    data_quality_warnings: dataQualityWarnings,
+    explanation: forecastRationale,
+    forecast_rationale: forecastRationale,
+    rationale_validation: typedForecastResult.rationaleValidation ?? null,
+    rationale_fallback_reason: typedForecastResult.rationaleFallbackReason ?? null,
+    rationale_locale: typedForecastResult.rationaleLocale ?? null,
+    forecast_rationales: typedForecastResult.forecastRationales ?? null
+  }));
 
-    // If there's an error (possibly due to missing column), try without forecast_rationale
-    if (insertResult.error) {
-      logger.warn(`Initial insert failed, trying without forecast_rationale column`, {
-        requestId,
-        periodIndex: index + 1,
-        forecastDate: period.date,
-        error: insertResult.error.message,
-        step: 'persist_forecast_result'
-      });
+  try {
+    // The rows reference the run, so its lineage row has to exist first
+    const { error: runError } = await saveForecastRun(persistingRun);
 
-    // Retry without forecast_rationale if the column doesn't exist
-    const fallbackInsertData = { ...insertData };
-    const { forecast_rationale: _, ...fallbackData } = fallbackInsertData;
+    if (runError) {
+      throw new Error(`Failed to record forecast run lineage: ${runError.message}`);
+    }
 
-      insertResult = await supabase
-        .from('f1_forecast_results')
-        .insert(fallbackInsertData)
-        .select();
+    // A single statement writes every period or none; the unique key on (request_id, forecast_date)
+    // turns a redelivered event into a no-op instead of a second copy of the forecast
+    const { data: inserted, error: insertError } = await supabase
+      .from('f1_forecast_results')
+      .upsert(rows, { onConflict: 'request_id,forecast_date', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) {
+      throw new Error(`Supabase insert failed for ${rows.length} forecast periods: ${insertError.message}`);
     }
 
-    if (insertResult.error) {
-      logger.error(`Failed to insert forecast period ${index + 1} into Supabase`, {
+    const insertedCount = inserted?.length ?? 0;
+
+    if (insertedCount < rows.length) {
+      logger.warn('Forecast periods already persisted for this request, skipped duplicates', {
         requestId,
-        periodIndex: index + 1,
-        forecastDate: period.date,
-        error: insertResult.error.message,
+        productId,
+        periods: rows.length,
+        alreadyPersisted: rows.length - insertedCount,
         step: 'persist_forecast_result'
       });
-      throw new Error(`Supabase insert failed for period ${index + 1}: ${insertResult.error.message}`);
     }
 
-    logger.info(`Successfully inserted forecast period ${index + 1} into Supabase`, {
-      requestId,
-      periodIndex: index + 1,
-      forecastDate: period.date,
-      forecastQuantity: Math.round(period.forecastValue),
-      supabaseRecordId: insertResult.data?.[0]?.id,
-      step: 'persist_forecast_result'
-    });
-
-    return insertResult.data;
-  });
-
-  // Execute all inserts and wait for completion
-  try {
-    const results = await Promise.all(insertPromises);
-
     logger.info('All forecast results persisted successfully to Supabase', {
       requestId,
       productId: forecastResult.productId,
-      totalRecordsInserted: results.length,
+      totalRecordsInserted: insertedCount,
       averageForecast: forecastResult.forecastSummary.averageForecast,
       trend: forecastResult.forecastSummary.trend,
-      modelVersion: 'v0-dummy',
+      modelVersion: forecastResult.model.version,
       storedInDatabase: true,
       step: 'persist_forecast_result'
     });
-
-    // Log summary of inserted records
-    results.forEach((result: any, index: number) => {
-      if (result?.[0]) {
-        logger.info(`Supabase record ${index + 1} details`, {
-          requestId,
-          supabaseId: result[0].id,
-          forecastDate: result[0].forecast_date,
-          forecastQuantity: result[0].forecast_quantity,
-          modelVersion: result[0].model_version
-        });
-      }
-    });
-
   } catch (error) {
     logger.error('Failed to persist forecast results to Supabase', {
       requestId,
@@ -186,6 +235,37 @@ export const handler: Handlers['PersistForecastResult'] = async (input, { logger
       error: error instanceof Error ? error.message : 'Unknown error',
       step: 'persist_forecast_result'
     });
+
+    const runState = await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'persist_forecast_result',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, logger);
+
+    // A failed run still frees its batch lane or lets its chain-level run move on
+    if (announceFinish) {
+      for (const event of runFinishedEvents(runState)) {
+        await emit(event);
+      }
+    }
     throw error;
   }
+
+  // Outside the try block: the rows are stored, so a failing emit must not relabel the run as
+  // failed. Its error fails the handler instead, and the redelivered event re-emits the follow-ups.
+  const runState = await finishForecastRun(state, requestId, {
+    status: 'completed',
+    step: 'persist_forecast_result',
+    result: {
+      forecastPeriods: forecastResult.forecastPeriods,
+      forecastSummary: forecastResult.forecastSummary,
+      censoring: forecastResult.censoring,
+      forecastRationale: typedForecastResult.forecastRationale || '',
+      forecastRationales: Object.fromEntries(
+        Object.entries(typedForecastResult.forecastRationales ?? {}).map(([locale, explanation]) => [locale, explanation.rationale])
+      )
+    }
+  }, logger);
+
+  await emitFollowUps(runState);
 };
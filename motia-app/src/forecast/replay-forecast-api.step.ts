@@ -0,0 +1,290 @@
+/**
+ * Forecast Replay API Endpoint
+ *
+ * Re-executes a past store-level forecast_pipeline run from its f1_forecast_runs lineage:
+ * the same product, store, window, stock-out threshold and forecastParameters go through
+ * the same data-quality gate and forecast engine, and the output is diffed against the rows
+ * the run persisted. The facts are reloaded and hashed, so a mismatch caused by changed facts
+ * can be told apart from one caused by changed code (compare appVersion).
+ * Runs in-process and synchronously; nothing is written and the rationale is not regenerated.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { fetchDailySales, fetchInventorySnapshots } from '../lib/facts';
+import {
+  appVersion,
+  diffForecastPeriods,
+  fetchForecastRun,
+  fetchRunForecastRows,
+  hashFacts
+} from '../lib/forecast-runs';
+import { runForecast } from '../lib/forecast-engine';
+import type { ForecastEngineOutput } from '../lib/forecast-engine';
+import { assessDataQuality, blockingReason } from '../lib/data-quality';
+import { censoringMethodSchema, markCensoredDays, stockoutThreshold } from '../lib/censoring';
+import { DEFAULT_FORECAST_METHOD, intervalMethodSchema } from '../lib/models';
+import { granularitySchema } from '../lib/granularity';
+
+// Parameters as LoadHistoricalFacts recorded them
+const forecastParametersSchema = z.object({
+  method: z.string(),
+  confidenceLevel: z.number(),
+  horizon: z.number().optional(),
+  granularity: granularitySchema.optional(),
+  intervalMethod: intervalMethodSchema.optional(),
+  censoring: censoringMethodSchema.optional()
+});
+
+const modelSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  parameters: z.record(z.string(), z.number())
+});
+
+const periodValuesSchema = z.object({
+  quantity: z.number(),
+  lower: z.number().nullable(),
+  upper: z.number().nullable()
+});
+
+const errorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
+
+// Fitted parameters come back from jsonb; allow for float noise
+const PARAMETER_TOLERANCE = 1e-9;
+
+function sameModel(stored: z.infer<typeof modelSchema>, replayed: ForecastEngineOutput['model']): boolean {
+  const keys = new Set([...Object.keys(stored.parameters), ...Object.keys(replayed.parameters)]);
+
+  return stored.name === replayed.name &&
+    stored.version === replayed.version &&
+    [...keys].every(key =>
+      key in stored.parameters &&
+      key in replayed.parameters &&
+      Math.abs(stored.parameters[key] - replayed.parameters[key]) <= PARAMETER_TOLERANCE
+    );
+}
+
+export const config: ApiRouteConfig = {
+  name: 'ReplayForecastAPI',
+  type: 'api',
+  path: '/api/forecast/:requestId/replay',
+  method: 'POST',
+  description: 'Re-executes a past forecast run with its recorded inputs and diffs the output against the stored result',
+  emits: [],
+  flows: ['forecast_pipeline'],
+  responseSchema: {
+    200: z.object({
+      requestId: z.string(),
+      productId: z.string(),
+      storeId: z.string(),
+      window: z.object({
+        from: z.string(),
+        to: z.string(),
+        asOf: z.string()
+      }),
+      reproducible: z.boolean(),
+      facts: z.object({
+        changed: z.boolean(),
+        storedHash: z.string(),
+        currentHash: z.string(),
+        salesRows: z.object({ stored: z.number(), current: z.number() }),
+        inventoryRows: z.object({ stored: z.number(), current: z.number() })
+      }),
+      appVersion: z.object({
+        stored: z.string().nullable(),
+        current: z.string()
+      }),
+      model: z.object({
+        stored: modelSchema,
+        replayed: modelSchema.nullable(),
+        matches: z.boolean()
+      }),
+      periods: z.array(z.object({
+        date: z.string(),
+        stored: periodValuesSchema.nullable(),
+        replayed: periodValuesSchema.nullable(),
+        matches: z.boolean()
+      })),
+      mismatchedPeriods: z.number(),
+      error: z.string().optional()
+    }),
+    404: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ReplayForecastAPI'] = async (req, { logger }) => {
+  logger.info('=== REPLAY FORECAST API ENDPOINT INVOKED ===');
+
+  const { requestId } = req.pathParams;
+
+  const { data: run, error: runError } = await fetchForecastRun(requestId);
+
+  if (runError) {
+    logger.error('Failed to load forecast run', { requestId, error: runError.message, step: 'replay_forecast' });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to load forecast run: ${runError.message}`
+      }
+    };
+  }
+
+  if (!run) {
+    logger.warn('Replay requested for unknown forecast run', { requestId, step: 'replay_forecast' });
+
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `No forecast run recorded for requestId ${requestId}`
+      }
+    };
+  }
+
+  const parameters = forecastParametersSchema.safeParse(run.forecast_parameters);
+  const storedModel = modelSchema.safeParse({
+    name: run.model_name,
+    version: run.model_version,
+    parameters: run.model_parameters
+  });
+
+  // Chain-level and hierarchical runs have no single series to refit; replay their store-level runs
+  if (!run.product_id || !run.store_id || !run.window_from || !run.window_to || !run.as_of ||
+      !run.facts_hash || run.sales_rows === null || run.inventory_rows === null ||
+      !parameters.success || !storedModel.success) {
+    logger.warn('Forecast run cannot be replayed', { requestId, status: run.status, step: 'replay_forecast' });
+
+    return {
+      status: 409,
+      body: {
+        error: 'not_replayable',
+        message: `Run ${requestId} is not a store-level forecast run that reached model fitting (status: ${run.status}); ` +
+          'only those can be replayed'
+      }
+    };
+  }
+
+  const productId = run.product_id;
+  const storeId = run.store_id;
+  const window = { from: run.window_from, to: run.window_to, asOf: run.as_of };
+
+  const [sales, inventory] = await Promise.all([
+    fetchDailySales(productId, window.from, window.to, storeId),
+    fetchInventorySnapshots(productId, window.from, window.to, storeId)
+  ]);
+  const factsError = sales.error ?? inventory.error;
+
+  if (factsError) {
+    logger.error('Failed to reload facts for replay', { requestId, error: factsError.message, step: 'replay_forecast' });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to reload historical facts: ${factsError.message}`
+      }
+    };
+  }
+
+  const salesData = sales.data ?? [];
+  const inventoryData = inventory.data ?? [];
+  const currentHash = hashFacts({ sales: salesData, inventory: inventoryData });
+
+  // Same preparation as LoadHistoricalFacts and CheckDataQuality, with the recorded threshold
+  const threshold = run.stockout_threshold ?? stockoutThreshold();
+  const censoredSales = markCensoredDays(
+    salesData.map(({ date, value }) => ({ date, value })),
+    inventoryData,
+    threshold
+  );
+  const { report, dailySales } = assessDataQuality({
+    dailySales: censoredSales,
+    inventorySnapshots: inventoryData,
+    windowEnd: window.to,
+    method: parameters.data.method || DEFAULT_FORECAST_METHOD,
+    excludeCensored: parameters.data.censoring === 'exclude',
+    stockoutThreshold: threshold
+  });
+
+  let replayed: ForecastEngineOutput | null = null;
+  let replayError: string | undefined;
+
+  if (!report.passed) {
+    replayError = `Data quality check failed: ${blockingReason(report)}`;
+  } else {
+    try {
+      // Forecast from the end of the recorded window, as GenerateForecast does
+      replayed = runForecast({ dailySales, ...parameters.data, lastObservedDate: window.to });
+    } catch (error) {
+      replayError = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  const { data: storedRows, error: rowsError } = await fetchRunForecastRows(requestId);
+
+  if (rowsError) {
+    logger.error('Failed to load stored forecast rows', { requestId, error: rowsError.message, step: 'replay_forecast' });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to load stored forecast rows: ${rowsError.message}`
+      }
+    };
+  }
+
+  const periods = diffForecastPeriods(storedRows ?? [], replayed?.forecastPeriods ?? []);
+  const mismatchedPeriods = periods.filter(period => !period.matches).length;
+  const modelMatches = replayed !== null && sameModel(storedModel.data, replayed.model);
+  const factsChanged = currentHash !== run.facts_hash;
+
+  logger.info('Forecast run replayed', {
+    requestId,
+    productId,
+    storeId,
+    factsChanged,
+    modelMatches,
+    mismatchedPeriods,
+    replayError,
+    step: 'replay_forecast'
+  });
+
+  return {
+    status: 200,
+    body: {
+      requestId,
+      productId,
+      storeId,
+      window,
+      reproducible: !replayError && modelMatches && mismatchedPeriods === 0,
+      facts: {
+        changed: factsChanged,
+        storedHash: run.facts_hash,
+        currentHash,
+        salesRows: { stored: run.sales_rows, current: salesData.length },
+        inventoryRows: { stored: run.inventory_rows, current: inventoryData.length }
+      },
+      appVersion: {
+        stored: run.app_version,
+        current: appVersion()
+      },
+      model: {
+        stored: storedModel.data,
+        replayed: replayed?.model ?? null,
+        matches: modelMatches
+      },
+      periods,
+      mismatchedPeriods,
+      error: replayError
+    }
+  };
+};
@@ -0,0 +1,104 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { fetchDailySales, fetchInventorySnapshots } from '../lib/facts';
+import { planFolds, recordBacktest, runBacktest } from '../lib/backtest';
+import { censoringMethodSchema, stockoutThreshold } from '../lib/censoring';
+import { intervalMethodSchema } from '../lib/models';
+
+const inputSchema = z.object({
+  backtestId: z.string(),
+  productId: z.string(),
+  storeId: z.string().optional(),
+  options: z.object({
+    methods: z.array(z.string()),
+    horizon: z.number(),
+    folds: z.number(),
+    stepDays: z.number(),
+    trainingDays: z.number(),
+    asOf: z.string(),
+    confidenceLevel: z.number(),
+    intervalMethod: intervalMethodSchema.optional(),
+    censoring: censoringMethodSchema.optional()
+  })
+});
+
+export const config: EventConfig = {
+  name: 'RunForecastBacktest',
+  type: 'event',
+  description: 'Loads the facts for a backtest, runs every method over every fold and stores the result',
+  subscribes: ['run-forecast-backtest'],
+  emits: [],
+  flows: ['forecast_pipeline'],
+  input: inputSchema
+};
+
+/**
+ * One value per day, oldest first: a chain-level backtest (no storeId) sums every store's sales
+ * and stock, so a day only counts as a stock-out when the whole chain ran out
+ */
+function sumByDate(values: Array<{ date: string; value: number }>): Array<{ date: string; value: number }> {
+  const byDate = new Map<string, number>();
+  for (const { date, value } of values) {
+    byDate.set(date, (byDate.get(date) ?? 0) + value);
+  }
+  return [...byDate].map(([date, value]) => ({ date, value })).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const handler: Handlers['RunForecastBacktest'] = async (input, { logger, state }) => {
+  const { backtestId, productId, storeId, options } = input;
+
+  await recordBacktest(state, backtestId, { status: 'running' });
+
+  try {
+    const windows = planFolds(options);
+    const windowFrom = windows[0].trainFrom;
+    const windowTo = windows[windows.length - 1].testTo;
+
+    const [sales, inventory] = await Promise.all([
+      fetchDailySales(productId, windowFrom, windowTo, storeId),
+      fetchInventorySnapshots(productId, windowFrom, windowTo, storeId)
+    ]);
+    const error = sales.error ?? inventory.error;
+
+    if (error) {
+      logger.error('Failed to load facts for backtest', {
+        backtestId,
+        productId,
+        error: error.message,
+        step: 'forecast_backtest'
+      });
+      await recordBacktest(state, backtestId, { status: 'failed', error: `Failed to load facts: ${error.message}` });
+      return;
+    }
+
+    const threshold = stockoutThreshold();
+    const results = runBacktest({
+      dailySales: sumByDate(sales.data ?? []),
+      inventorySnapshots: sumByDate(inventory.data ?? [])
+    }, { ...options, stockoutThreshold: threshold });
+
+    logger.info('Backtest completed', {
+      backtestId,
+      productId,
+      salesCount: sales.data?.length ?? 0,
+      inventoryCount: inventory.data?.length ?? 0,
+      stockoutThreshold: threshold,
+      aggregate: results.map(result => ({ method: result.method, mae: result.aggregate.mae, count: result.aggregate.count })),
+      step: 'forecast_backtest'
+    });
+
+    await recordBacktest(state, backtestId, { status: 'completed', results });
+  } catch (error) {
+    // Record the failure so the backtest does not stay 'running', then fail the event
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    logger.error('Backtest failed', {
+      backtestId,
+      productId,
+      error: message,
+      step: 'forecast_backtest'
+    });
+    await recordBacktest(state, backtestId, { status: 'failed', error: message });
+    throw error;
+  }
+};
@@ -0,0 +1,43 @@
+import type { CronConfig, Handlers } from 'motia';
+import { createBatchId, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from '../lib/forecast-batch';
+
+/**
+ * Nightly trigger for forecasting every product.
+ * Like EvaluateForecastsCron it only emits: StartForecastBatch does the work so it gets queue retries.
+ *
+ * FORECAST_SCHEDULE_CRON        cron expression (default 01:00 every day)
+ * FORECAST_SCHEDULE_STORE_ID    only forecast products of this store (default: all stores)
+ * FORECAST_SCHEDULE_CONCURRENCY forecast runs in flight at once (default 5, at most 50)
+ */
+export const config: CronConfig = {
+  name: 'ScheduledForecastCron',
+  type: 'cron',
+  description: 'Schedules a forecast batch over all products',
+  cron: process.env.FORECAST_SCHEDULE_CRON || '0 1 * * *',
+  emits: ['start-forecast-batch'],
+  flows: ['forecast_pipeline']
+};
+
+export const handler: Handlers['ScheduledForecastCron'] = async ({ emit, logger }) => {
+  const triggeredAt = new Date().toISOString();
+  const storeId = process.env.FORECAST_SCHEDULE_STORE_ID || undefined;
+  const configured = Number(process.env.FORECAST_SCHEDULE_CONCURRENCY);
+  const concurrency = Number.isInteger(configured) && configured > 0
+    ? Math.min(configured, MAX_BATCH_CONCURRENCY)
+    : DEFAULT_BATCH_CONCURRENCY;
+  // Minted here rather than in StartForecastBatch so a retried start reuses the same batch
+  const batchId = createBatchId();
+
+  logger.info('Scheduling forecast batch', { batchId, triggeredAt, storeId, concurrency });
+
+  await emit({
+    topic: 'start-forecast-batch',
+    data: {
+      batchId,
+      triggeredAt,
+      source: 'schedule',
+      storeId,
+      concurrency
+    }
+  });
+};
@@ -0,0 +1,103 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { fetchSalesStoreIds } from '../lib/facts';
+import { recordForecastStatus } from '../lib/forecast-status';
+import { finishForecastRun } from '../lib/forecast-runs';
+import { getChainForecast, saveChainForecast } from '../lib/chain-forecast';
+import { resolveTimeRange } from '../lib/time-range';
+import { intervalMethodSchema } from '../lib/models';
+import { granularitySchema } from '../lib/granularity';
+import { censoringMethodSchema } from '../lib/censoring';
+import { explanationLocaleSchema } from '../lib/explanations';
+
+const inputSchema = z.object({
+  requestId: z.string(),
+  productId: z.string(),
+  parameters: z.object({
+    timeRange: z.string(),
+    asOf: z.string(),
+    method: z.string().optional(),
+    horizon: z.number().optional(),
+    granularity: granularitySchema.optional(),
+    intervalMethod: intervalMethodSchema.optional(),
+    censoring: censoringMethodSchema.optional(),
+    locale: explanationLocaleSchema.optional()
+  })
+});
+
+export const config: EventConfig = {
+  name: 'StartChainForecast',
+  type: 'event',
+  description: 'Finds the stores that sold a product and starts a store-level forecast for each',
+  subscribes: ['start-chain-forecast'],
+  emits: ['dispatch-chain-forecast'],
+  flows: ['forecast_pipeline'],
+  input: inputSchema
+};
+
+export const handler: Handlers['StartChainForecast'] = async (input, { logger, emit, state }) => {
+  logger.info('=== START CHAIN FORECAST STEP STARTED ===');
+
+  const { requestId, productId, parameters } = input;
+
+  // A retried event finds the chain it already created and only re-sends the first dispatch,
+  // which DispatchChainForecast ignores once the chain is running
+  let chain = await getChainForecast(state, requestId);
+
+  if (!chain) {
+    await recordForecastStatus(state, requestId, {
+      status: 'loading_facts',
+      step: 'start_chain_forecast',
+      lineage: { forecastParameters: parameters }
+    });
+
+    try {
+      const window = resolveTimeRange(parameters.timeRange, parameters.asOf);
+      const { data: storeIds, error } = await fetchSalesStoreIds(productId, window.from, window.to);
+
+      if (error) {
+        logger.error('Failed to load stores for chain forecast', {
+          requestId,
+          productId,
+          error: error.message,
+          step: 'start_chain_forecast'
+        });
+        throw new Error(`Failed to load daily sales data: ${error.message}`);
+      }
+
+      if (!storeIds || storeIds.length === 0) {
+        throw new Error(`No daily sales data found for product ${productId}`);
+      }
+
+      chain = await saveChainForecast(state, {
+        requestId,
+        productId,
+        parameters,
+        storeIds,
+        nextIndex: 0,
+        storeRuns: {},
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      await finishForecastRun(state, requestId, {
+        status: 'failed',
+        step: 'start_chain_forecast',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, logger);
+      throw error;
+    }
+  }
+
+  logger.info('Chain forecast created', {
+    requestId,
+    productId,
+    storeIds: chain.storeIds,
+    ...chain.parameters,
+    step: 'start_chain_forecast'
+  });
+
+  await emit({
+    topic: 'dispatch-chain-forecast',
+    data: { requestId }
+  });
+};
@@ -0,0 +1,83 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { listProducts } from '../lib/products';
+import { activeLanes, getForecastBatch, saveForecastBatch } from '../lib/forecast-batch';
+import type { ForecastBatchState } from '../lib/forecast-batch';
+import { DEFAULT_TIME_RANGE } from '../lib/time-range';
+import { todayIsoDate } from '../lib/dates';
+
+const inputSchema = z.object({
+  batchId: z.string(),
+  triggeredAt: z.string(),
+  source: z.enum(['schedule', 'api']),
+  storeId: z.string().optional(),
+  concurrency: z.number().int().min(1)
+});
+
+export const config: EventConfig = {
+  name: 'StartForecastBatch',
+  type: 'event',
+  description: 'Creates a forecast batch over all products and starts its lanes',
+  subscribes: ['start-forecast-batch'],
+  emits: ['dispatch-forecast-batch'],
+  flows: ['forecast_pipeline'],
+  input: inputSchema
+};
+
+export const handler: Handlers['StartForecastBatch'] = async (input, { logger, emit, state }) => {
+  logger.info('=== START FORECAST BATCH STEP STARTED ===');
+
+  const { batchId, storeId, concurrency } = input;
+
+  // A retried event finds the batch it already created and only re-sends the lane starts,
+  // which DispatchForecastBatch ignores for lanes that are already running
+  let batch = await getForecastBatch(state, batchId);
+
+  if (!batch) {
+    const { data: products, error } = await listProducts(storeId);
+
+    if (error) {
+      logger.error('Failed to load products for forecast batch', {
+        batchId,
+        storeId,
+        error: error.message,
+        step: 'start_forecast_batch'
+      });
+      throw new Error(`Failed to load products: ${error.message}`);
+    }
+
+    const newBatch: ForecastBatchState = {
+      batchId,
+      source: input.source,
+      storeId,
+      concurrency,
+      // Every run in the batch forecasts from the same cut-off date
+      parameters: {
+        timeRange: DEFAULT_TIME_RANGE,
+        asOf: todayIsoDate()
+      },
+      productIds: (products ?? []).map(product => product.id),
+      createdAt: new Date().toISOString()
+    };
+    batch = await saveForecastBatch(state, newBatch);
+  }
+
+  const lanes = activeLanes(batch);
+
+  logger.info('Forecast batch created', {
+    batchId,
+    source: batch.source,
+    storeId: batch.storeId,
+    productCount: batch.productIds.length,
+    lanes: lanes.length,
+    asOf: batch.parameters.asOf,
+    step: 'start_forecast_batch'
+  });
+
+  for (const lane of lanes) {
+    await emit({
+      topic: 'dispatch-forecast-batch',
+      data: { batchId, lane }
+    });
+  }
+};
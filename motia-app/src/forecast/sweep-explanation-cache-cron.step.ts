@@ -0,0 +1,29 @@
+import type { CronConfig, Handlers } from 'motia';
+import { sweepExpiredExplanations } from '../lib/explanations';
+
+/**
+ * Nightly clean-up of the explanation cache. Expired entries are otherwise only dropped when
+ * the same key is read again, so inputs that never recur would stay in state for good.
+ * A failed sweep is not retried; the next night's sweep picks up what it left.
+ */
+export const config: CronConfig = {
+  name: 'SweepExplanationCacheCron',
+  type: 'cron',
+  description: 'Deletes expired entries from the explanation cache',
+  cron: process.env.EXPLANATION_CACHE_SWEEP_CRON || '0 3 * * *',
+  emits: [],
+  flows: ['forecast_pipeline']
+};
+
+export const handler: Handlers['SweepExplanationCacheCron'] = async ({ logger, state }) => {
+  try {
+    const deleted = await sweepExpiredExplanations(state);
+
+    logger.info('Explanation cache swept', { deleted, step: 'sweep_explanation_cache' });
+  } catch (error) {
+    logger.error('Failed to sweep the explanation cache', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      step: 'sweep_explanation_cache'
+    });
+  }
+};
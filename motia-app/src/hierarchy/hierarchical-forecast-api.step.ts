@@ -0,0 +1,152 @@
+/**
+ * Hierarchical Forecast API Endpoint
+ *
+ * Starts the hierarchical_forecast flow: forecasts at SKU-store, SKU-total, store-total and
+ * grand-total level, reconciled so every level adds up. Products are selected by storeIds
+ * and/or skus (all products when both are omitted).
+ * The flow runs: load-hierarchy-facts → reconcile-hierarchy-forecast → persist-hierarchy-forecast
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { createRequestId, recordForecastStatus } from '../lib/forecast-status';
+import { DEFAULT_TIME_RANGE, resolveTimeRange, timeRangeSchema } from '../lib/time-range';
+import {
+  DEFAULT_FORECAST_METHOD,
+  DEFAULT_INTERVAL_METHOD,
+  intervalMethodSchema,
+  isForecastMethod,
+  listForecastMethods
+} from '../lib/models';
+import { DEFAULT_GRANULARITY, DEFAULT_HORIZON, granularitySchema, horizonSchema } from '../lib/granularity';
+import { DEFAULT_RECONCILIATION_METHOD, reconciliationMethodSchema } from '../lib/hierarchy';
+
+const bodySchema = z.object({
+  storeIds: z.array(z.string().min(1)).min(1).max(100).optional(),
+  skus: z.array(z.string().min(1)).min(1).max(1000).optional(),
+  timeRange: timeRangeSchema.optional(),
+  asOf: z.string().optional(),
+  method: z.string().refine(isForecastMethod, {
+    message: `method must be one of: ${listForecastMethods().join(', ')}`
+  }).optional(),
+  horizon: horizonSchema.optional(),
+  granularity: granularitySchema.optional(),
+  intervalMethod: intervalMethodSchema.optional(),
+  reconciliation: reconciliationMethodSchema.optional()
+}).superRefine((body, ctx) => {
+  try {
+    resolveTimeRange(body.timeRange ?? DEFAULT_TIME_RANGE, body.asOf);
+  } catch (error) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['timeRange'],
+      message: error instanceof Error ? error.message : 'Invalid timeRange'
+    });
+  }
+});
+
+export const config: ApiRouteConfig = {
+  name: 'HierarchicalForecastAPI',
+  type: 'api',
+  path: '/api/forecast/hierarchy',
+  method: 'POST',
+  description: 'Starts a reconciled forecast across SKU-store, SKU, store and total levels',
+  emits: ['load-hierarchy-facts'],
+  flows: ['hierarchical_forecast'],
+  bodySchema,
+  responseSchema: {
+    200: z.object({
+      message: z.string(),
+      status: z.string(),
+      requestId: z.string(),
+      storeIds: z.array(z.string()).optional(),
+      skus: z.array(z.string()).optional(),
+      timeRange: z.string(),
+      asOf: z.string(),
+      method: z.string(),
+      horizon: z.number(),
+      granularity: z.string(),
+      intervalMethod: z.string(),
+      reconciliation: z.string(),
+      timestamp: z.string()
+    }),
+    400: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+export const handler: Handlers['HierarchicalForecastAPI'] = async (req, { emit, logger, state }) => {
+  logger.info('=== HIERARCHICAL FORECAST API ENDPOINT INVOKED ===');
+
+  const parsedBody = bodySchema.safeParse(req.body ?? {});
+
+  if (!parsedBody.success) {
+    const message = parsedBody.error.issues
+      .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid hierarchical forecast request', { message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  const body = parsedBody.data;
+  const requestId = createRequestId();
+  const resolvedRange = resolveTimeRange(body.timeRange ?? DEFAULT_TIME_RANGE, body.asOf);
+  const storeIds = body.storeIds ? [...new Set(body.storeIds)] : undefined;
+  const skus = body.skus ? [...new Set(body.skus)] : undefined;
+  const parameters = {
+    timeRange: resolvedRange.label,
+    asOf: resolvedRange.asOf,
+    method: body.method || DEFAULT_FORECAST_METHOD,
+    horizon: body.horizon ?? DEFAULT_HORIZON,
+    granularity: body.granularity ?? DEFAULT_GRANULARITY,
+    intervalMethod: body.intervalMethod ?? DEFAULT_INTERVAL_METHOD,
+    reconciliation: body.reconciliation ?? DEFAULT_RECONCILIATION_METHOD
+  };
+
+  logger.info('Hierarchical forecast request received', {
+    requestId,
+    storeIds,
+    skus,
+    ...parameters,
+    from: resolvedRange.from,
+    to: resolvedRange.to
+  });
+
+  await recordForecastStatus(state, requestId, {
+    status: 'queued',
+    timeRange: parameters.timeRange
+  });
+
+  await emit({
+    topic: 'load-hierarchy-facts',
+    data: {
+      requestId,
+      storeIds,
+      skus,
+      parameters
+    }
+  });
+
+  return {
+    status: 200,
+    body: {
+      message: 'Hierarchical forecast started successfully',
+      status: 'processing',
+      requestId,
+      storeIds,
+      skus,
+      ...parameters,
+      timestamp: new Date().toISOString()
+    }
+  };
+};
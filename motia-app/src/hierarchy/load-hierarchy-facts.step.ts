@@ -0,0 +1,171 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { findProducts } from '../lib/products';
+import { fetchDailySalesForProducts } from '../lib/facts';
+import { recordForecastStatus } from '../lib/forecast-status';
+import { finishForecastRun, hashFacts } from '../lib/forecast-runs';
+import { resolveTimeRange } from '../lib/time-range';
+import { diffDays } from '../lib/dates';
+import { MAX_HIERARCHY_SERIES, reconciliationMethodSchema } from '../lib/hierarchy';
+import { intervalMethodSchema } from '../lib/models';
+import { granularitySchema } from '../lib/granularity';
+
+const inputSchema = z.object({
+  requestId: z.string(),
+  storeIds: z.array(z.string()).optional(),
+  skus: z.array(z.string()).optional(),
+  parameters: z.object({
+    timeRange: z.string(),
+    asOf: z.string(),
+    method: z.string(),
+    horizon: z.number(),
+    granularity: granularitySchema,
+    intervalMethod: intervalMethodSchema,
+    reconciliation: reconciliationMethodSchema
+  })
+});
+
+export const config: EventConfig = {
+  name: 'LoadHierarchyFacts',
+  type: 'event',
+  description: 'Loads the daily sales of every SKU-store series of a hierarchical forecast',
+  subscribes: ['load-hierarchy-facts'],
+  emits: ['reconcile-hierarchy-forecast'],
+  flows: ['hierarchical_forecast'],
+  input: inputSchema
+};
+
+export const handler: Handlers['LoadHierarchyFacts'] = async (input, { logger, emit, state }) => {
+  logger.info('=== LOAD HIERARCHY FACTS STEP STARTED ===');
+
+  const { requestId, storeIds, skus, parameters } = input;
+
+  await recordForecastStatus(state, requestId, {
+    status: 'loading_facts',
+    step: 'load_hierarchy_facts'
+  });
+
+  try {
+    const window = resolveTimeRange(parameters.timeRange, parameters.asOf);
+
+    const { data: products, error: productsError } = await findProducts({ storeIds, skus });
+
+    if (productsError) {
+      throw new Error(`Failed to load products: ${productsError.message}`);
+    }
+
+    if (!products || products.length === 0) {
+      throw new Error('No products match the requested storeIds and skus');
+    }
+
+    if (products.length > MAX_HIERARCHY_SERIES) {
+      throw new Error(
+        `${products.length} products match, at most ${MAX_HIERARCHY_SERIES} can be reconciled at once; ` +
+        'narrow the hierarchy with storeIds or skus'
+      );
+    }
+
+    const { data: salesData, error: salesError } = await fetchDailySalesForProducts(
+      products.map(product => product.id),
+      window.from,
+      window.to
+    );
+
+    if (salesError) {
+      throw new Error(`Failed to load daily sales data: ${salesError.message}`);
+    }
+
+    // Every series covers the whole window; days without a sales row sold nothing
+    const days = diffDays(window.from, window.to) + 1;
+    const productsById = new Map(products.map(product => [product.id, product]));
+    const valuesByProduct = new Map<string, number[]>();
+    let foreignStoreRows = 0;
+
+    for (const sale of salesData ?? []) {
+      const product = productsById.get(sale.productId);
+      // A product is one SKU in one store; sales booked to another store do not belong to it
+      if (!product || sale.storeId !== product.storeId) {
+        foreignStoreRows += 1;
+        continue;
+      }
+      const values = valuesByProduct.get(sale.productId) ?? Array.from({ length: days }, () => 0);
+      values[diffDays(window.from, sale.date)] += sale.value;
+      valuesByProduct.set(sale.productId, values);
+    }
+
+    const series = products
+      .filter(product => valuesByProduct.has(product.id))
+      .map(product => ({
+        productId: product.id,
+        storeId: product.storeId,
+        sku: product.sku,
+        values: valuesByProduct.get(product.id) ?? []
+      }));
+
+    if (series.length === 0) {
+      throw new Error(`No daily sales data found for the selected products between ${window.from} and ${window.to}`);
+    }
+
+    if (foreignStoreRows > 0) {
+      logger.warn('Ignored sales rows booked to a store other than the product\'s', {
+        requestId,
+        rows: foreignStoreRows,
+        step: 'load_hierarchy_facts'
+      });
+    }
+
+    const summary = {
+      reconciliation: parameters.reconciliation,
+      series: series.length,
+      stores: new Set(series.map(entry => entry.storeId)).size,
+      skus: new Set(series.map(entry => entry.sku)).size,
+      skippedProducts: products.length - series.length
+    };
+
+    await recordForecastStatus(state, requestId, {
+      status: 'loading_facts',
+      step: 'load_hierarchy_facts',
+      hierarchy: summary,
+      lineage: {
+        window: { from: window.from, to: window.to, asOf: window.asOf },
+        facts: {
+          salesRows: salesData?.length ?? 0,
+          inventoryRows: 0,
+          hash: hashFacts({ sales: salesData ?? [] })
+        },
+        forecastParameters: { ...parameters, storeIds, skus }
+      }
+    });
+
+    logger.info('Hierarchy facts loaded', {
+      requestId,
+      ...summary,
+      from: window.from,
+      to: window.to,
+      step: 'load_hierarchy_facts'
+    });
+
+    await emit({
+      topic: 'reconcile-hierarchy-forecast',
+      data: {
+        requestId,
+        lastObservedDate: window.to,
+        series,
+        parameters
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to load hierarchy facts', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      step: 'load_hierarchy_facts'
+    });
+
+    await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'load_hierarchy_facts',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, logger);
+    throw error;
+  }
+};
@@ -0,0 +1,163 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { recordForecastStatus } from '../lib/forecast-status';
+import { appVersion, finishForecastRun, saveForecastRun } from '../lib/forecast-runs';
+import { reconciliationMethodSchema } from '../lib/hierarchy';
+import { intervalMethodSchema } from '../lib/models';
+import { granularitySchema } from '../lib/granularity';
+
+const periodSchema = z.object({
+  date: z.string(),
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  forecastValue: z.number(),
+  confidenceInterval: z.object({
+    lower: z.number(),
+    upper: z.number()
+  })
+});
+
+const inputSchema = z.object({
+  requestId: z.string(),
+  confidenceLevel: z.number(),
+  parameters: z.object({
+    timeRange: z.string(),
+    asOf: z.string(),
+    method: z.string(),
+    horizon: z.number(),
+    granularity: granularitySchema,
+    intervalMethod: intervalMethodSchema,
+    reconciliation: reconciliationMethodSchema
+  }),
+  nodes: z.array(z.object({
+    level: z.enum(['store', 'sku_total', 'store_total', 'total']),
+    productId: z.string().nullable(),
+    storeId: z.string().nullable(),
+    sku: z.string().nullable(),
+    modelVersion: z.string(),
+    forecastPeriods: z.array(periodSchema)
+  }))
+});
+
+// Rows per upsert request
+const UPSERT_CHUNK_SIZE = 500;
+
+const LEVEL_LABELS = {
+  store: 'SKU-store',
+  sku_total: 'SKU total',
+  store_total: 'store total',
+  total: 'grand total'
+} as const;
+
+export const config: EventConfig = {
+  name: 'PersistHierarchyForecast',
+  type: 'event',
+  description: 'Persists the reconciled forecasts of every hierarchy level to Supabase',
+  subscribes: ['persist-hierarchy-forecast'],
+  emits: [],
+  flows: ['hierarchical_forecast'],
+  input: inputSchema
+};
+
+export const handler: Handlers['PersistHierarchyForecast'] = async (input, { logger, state }) => {
+  logger.info('=== PERSIST HIERARCHY FORECAST STEP STARTED ===');
+
+  const { requestId, confidenceLevel, parameters, nodes } = input;
+
+  const persistingRun = await recordForecastStatus(state, requestId, {
+    status: 'persisting',
+    step: 'persist_hierarchy_forecast',
+    lineage: { appVersion: appVersion() }
+  });
+
+  const seriesCount = nodes.filter(node => node.level === 'store').length;
+  const explanationFor = (node: typeof nodes[number]) =>
+    `Hierarchical forecast (${LEVEL_LABELS[node.level]}): ${node.modelVersion} base forecasts with ` +
+    `${parameters.reconciliation} reconciliation across ${seriesCount} SKU-store series, so every level adds up.`;
+
+  const rows = nodes.flatMap(node => node.forecastPeriods.map(period => ({
+    forecast_run_id: requestId,
+    store_id: node.storeId,
+    product_id: node.productId,
+    sku: node.sku,
+    aggregation_level: node.level,
+    reconciliation_method: parameters.reconciliation,
+    forecast_date: period.date,
+    period_start: period.periodStart,
+    period_end: period.periodEnd,
+    granularity: parameters.granularity,
+    forecast_quantity: period.forecastValue,
+    forecast_lower: period.confidenceInterval.lower,
+    forecast_upper: period.confidenceInterval.upper,
+    confidence_level: confidenceLevel,
+    interval_method: parameters.intervalMethod,
+    model_version: node.modelVersion,
+    explanation: explanationFor(node),
+    forecast_rationale: explanationFor(node)
+  })));
+
+  try {
+    const { error: runError } = await saveForecastRun(persistingRun);
+
+    if (runError) {
+      throw new Error(`Failed to record forecast run lineage: ${runError.message}`);
+    }
+
+    // node_key is generated from the level, store, product and SKU, so a redelivered event or a
+    // retry after a failed chunk skips the rows already written instead of duplicating them
+    for (let start = 0; start < rows.length; start += UPSERT_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('f1_forecast_results')
+        .upsert(rows.slice(start, start + UPSERT_CHUNK_SIZE), {
+          onConflict: 'forecast_run_id,node_key,forecast_date',
+          ignoreDuplicates: true
+        });
+
+      if (error) {
+        throw new Error(`Supabase upsert failed for hierarchy rows ${start + 1}-${Math.min(start + UPSERT_CHUNK_SIZE, rows.length)}: ${error.message}`);
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to persist hierarchy forecast', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      step: 'persist_hierarchy_forecast'
+    });
+
+    await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'persist_hierarchy_forecast',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, logger);
+    throw error;
+  }
+
+  // The status result shows the grand total; every level is in f1_forecast_results
+  const total = nodes.find(node => node.level === 'total');
+  const values = total?.forecastPeriods.map(period => period.forecastValue) ?? [];
+
+  await finishForecastRun(state, requestId, {
+    status: 'completed',
+    step: 'persist_hierarchy_forecast',
+    result: {
+      forecastPeriods: total?.forecastPeriods ?? [],
+      forecastSummary: {
+        level: 'total',
+        averageForecast: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0,
+        minForecast: values.length > 0 ? Math.min(...values) : 0,
+        maxForecast: values.length > 0 ? Math.max(...values) : 0,
+        rows: rows.length
+      },
+      forecastRationale: total ? explanationFor(total) : ''
+    }
+  }, logger);
+
+  logger.info('Hierarchy forecast persisted', {
+    requestId,
+    reconciliation: parameters.reconciliation,
+    nodes: nodes.length,
+    rows: rows.length,
+    step: 'persist_hierarchy_forecast'
+  });
+};
@@ -0,0 +1,96 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { recordForecastStatus } from '../lib/forecast-status';
+import { finishForecastRun } from '../lib/forecast-runs';
+import { forecastHierarchy, reconciliationMethodSchema } from '../lib/hierarchy';
+import { intervalMethodSchema } from '../lib/models';
+import { granularitySchema } from '../lib/granularity';
+
+const inputSchema = z.object({
+  requestId: z.string(),
+  lastObservedDate: z.string(),
+  series: z.array(z.object({
+    productId: z.string(),
+    storeId: z.string(),
+    sku: z.string(),
+    values: z.array(z.number())
+  })),
+  parameters: z.object({
+    timeRange: z.string(),
+    asOf: z.string(),
+    method: z.string(),
+    horizon: z.number(),
+    granularity: granularitySchema,
+    intervalMethod: intervalMethodSchema,
+    reconciliation: reconciliationMethodSchema
+  })
+});
+
+// Same level as the single-series forecast_pipeline
+const CONFIDENCE_LEVEL = 0.95;
+
+export const config: EventConfig = {
+  name: 'ReconcileHierarchyForecast',
+  type: 'event',
+  description: 'Forecasts every level of the hierarchy and reconciles them so they add up',
+  subscribes: ['reconcile-hierarchy-forecast'],
+  emits: ['persist-hierarchy-forecast'],
+  flows: ['hierarchical_forecast'],
+  input: inputSchema
+};
+
+export const handler: Handlers['ReconcileHierarchyForecast'] = async (input, { logger, emit, state }) => {
+  logger.info('=== RECONCILE HIERARCHY FORECAST STEP STARTED ===');
+
+  const { requestId, lastObservedDate, series, parameters } = input;
+
+  await recordForecastStatus(state, requestId, {
+    status: 'generating',
+    step: 'reconcile_hierarchy_forecast'
+  });
+
+  try {
+    const nodes = forecastHierarchy({
+      series,
+      lastObservedDate,
+      method: parameters.method,
+      reconciliation: parameters.reconciliation,
+      confidenceLevel: CONFIDENCE_LEVEL,
+      horizon: parameters.horizon,
+      granularity: parameters.granularity,
+      intervalMethod: parameters.intervalMethod
+    });
+
+    logger.info('Hierarchy forecast reconciled', {
+      requestId,
+      reconciliation: parameters.reconciliation,
+      series: series.length,
+      nodes: nodes.length,
+      total: nodes.find(node => node.level === 'total')?.forecastPeriods.map(period => period.forecastValue),
+      step: 'reconcile_hierarchy_forecast'
+    });
+
+    await emit({
+      topic: 'persist-hierarchy-forecast',
+      data: {
+        requestId,
+        confidenceLevel: CONFIDENCE_LEVEL,
+        parameters,
+        nodes
+      }
+    });
+  } catch (error) {
+    logger.error('Hierarchy forecast failed', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      step: 'reconcile_hierarchy_forecast'
+    });
+
+    await finishForecastRun(state, requestId, {
+      status: 'failed',
+      step: 'reconcile_hierarchy_forecast',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, logger);
+    throw error;
+  }
+};
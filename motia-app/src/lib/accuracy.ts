@@ -0,0 +1,90 @@
+/**
+ * Forecast accuracy metrics shared by forecast evaluation and backtesting.
+ * Errors are signed as actual - forecast (same as model residuals), so a positive
+ * bias means the forecasts were too low on average.
+ */
+
+import { z } from 'zod';
+
+export interface ForecastActualPair {
+  actual: number;
+  forecast: number;
+  lower?: number;
+  upper?: number;
+}
+
+export interface AccuracyMetrics {
+  count: number;
+  mae: number;
+  rmse: number;
+  /** Mean absolute percentage error in %, over pairs with a non-zero actual; null if there are none */
+  mape: number | null;
+  /** Symmetric MAPE in % (0-200), over pairs where actual and forecast are not both zero */
+  smape: number | null;
+  bias: number;
+  /** Share of actuals inside [lower, upper], over pairs that carry bounds; null if none do */
+  intervalCoverage: number | null;
+}
+
+export const accuracyMetricsSchema = z.object({
+  count: z.number(),
+  mae: z.number(),
+  rmse: z.number(),
+  mape: z.number().nullable(),
+  smape: z.number().nullable(),
+  bias: z.number(),
+  intervalCoverage: z.number().nullable()
+});
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function computeAccuracy(pairs: ForecastActualPair[]): AccuracyMetrics {
+  if (pairs.length === 0) {
+    return { count: 0, mae: 0, rmse: 0, mape: null, smape: null, bias: 0, intervalCoverage: null };
+  }
+
+  let absoluteSum = 0;
+  let squaredSum = 0;
+  let signedSum = 0;
+  let percentageSum = 0;
+  let percentageCount = 0;
+  let symmetricSum = 0;
+  let symmetricCount = 0;
+  let covered = 0;
+  let withBounds = 0;
+
+  for (const { actual, forecast, lower, upper } of pairs) {
+    const error = actual - forecast;
+    absoluteSum += Math.abs(error);
+    squaredSum += error * error;
+    signedSum += error;
+
+    if (actual !== 0) {
+      percentageSum += Math.abs(error / actual);
+      percentageCount += 1;
+    }
+    const denominator = Math.abs(actual) + Math.abs(forecast);
+    if (denominator !== 0) {
+      symmetricSum += (2 * Math.abs(error)) / denominator;
+      symmetricCount += 1;
+    }
+    if (lower !== undefined && upper !== undefined) {
+      withBounds += 1;
+      if (actual >= lower && actual <= upper) {
+        covered += 1;
+      }
+    }
+  }
+
+  return {
+    count: pairs.length,
+    mae: round(absoluteSum / pairs.length),
+    rmse: round(Math.sqrt(squaredSum / pairs.length)),
+    mape: percentageCount > 0 ? round((percentageSum / percentageCount) * 100) : null,
+    smape: symmetricCount > 0 ? round((symmetricSum / symmetricCount) * 100) : null,
+    bias: round(signedSum / pairs.length),
+    intervalCoverage: withBounds > 0 ? round(covered / withBounds) : null
+  };
+}
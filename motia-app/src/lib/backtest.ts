@@ -0,0 +1,202 @@
+/**
+ * Rolling-origin backtesting.
+ * Replays the forecast pipeline at successive cut-off dates, each fold seeing only the facts
+ * dated before its cutoff, and scores the forecasts against the sales that followed. Like a
+ * production run, every fold marks stock-out days, passes the data-quality gate (which fills
+ * interior gaps with zero-sales days) and applies the requested censoring before fitting.
+ * Pure: nothing is written anywhere; RunForecastBacktest keeps the result in Motia state.
+ */
+
+import type { InternalStateManager } from 'motia';
+import { computeAccuracy } from './accuracy';
+import type { AccuracyMetrics, ForecastActualPair } from './accuracy';
+import { addDays } from './dates';
+import { runForecast } from './forecast-engine';
+import type { DailyValue } from './forecast-engine';
+import { markCensoredDays } from './censoring';
+import type { CensoringMethod } from './censoring';
+import { assessDataQuality, blockingReason, qualityWarnings } from './data-quality';
+import type { IntervalMethod } from './models';
+
+/** Motia state group holding one record per backtestId */
+export const FORECAST_BACKTEST_GROUP = 'forecast-backtests';
+
+export interface BacktestOptions {
+  methods: string[];
+  horizon: number;
+  folds: number;
+  /** Days between successive cutoffs */
+  stepDays: number;
+  /** Length of the training window before each cutoff */
+  trainingDays: number;
+  /** Backtest uses facts dated strictly before asOf */
+  asOf: string;
+  confidenceLevel: number;
+  intervalMethod?: IntervalMethod;
+  censoring?: CensoringMethod;
+  stockoutThreshold: number;
+}
+
+export interface BacktestFacts {
+  /** Daily sales, one value per date (summed over stores for a chain-level backtest) */
+  dailySales: DailyValue[];
+  inventorySnapshots: DailyValue[];
+}
+
+export interface FoldWindow {
+  cutoff: string;
+  trainFrom: string;
+  trainTo: string;
+  testFrom: string;
+  testTo: string;
+}
+
+export interface BacktestFold extends FoldWindow {
+  trainingPoints: number;
+  /** Stock-out days in the training window */
+  censoredDays?: number;
+  /** Codes of the data-quality warnings the fold went ahead with */
+  qualityWarnings?: string[];
+  modelVersion?: string;
+  metrics?: AccuracyMetrics;
+  error?: string;
+}
+
+export interface BacktestMethodResult {
+  method: string;
+  folds: BacktestFold[];
+  aggregate: AccuracyMetrics;
+}
+
+/**
+ * Fold windows, oldest first. The last fold's test window ends the day before asOf;
+ * each cutoff is the first day of its test window.
+ */
+export function planFolds(options: Pick<BacktestOptions, 'horizon' | 'folds' | 'stepDays' | 'trainingDays' | 'asOf'>): FoldWindow[] {
+  const lastTestDay = addDays(options.asOf, -1);
+  const lastCutoff = addDays(lastTestDay, -(options.horizon - 1));
+
+  return Array.from({ length: options.folds }, (_, i) => {
+    const cutoff = addDays(lastCutoff, -(options.folds - 1 - i) * options.stepDays);
+    return {
+      cutoff,
+      trainFrom: addDays(cutoff, -options.trainingDays),
+      trainTo: addDays(cutoff, -1),
+      testFrom: cutoff,
+      testTo: addDays(cutoff, options.horizon - 1)
+    };
+  });
+}
+
+/**
+ * Runs every method over every fold. The facts must cover the planned windows
+ * (see planFolds); test days without a sales fact are skipped when scoring.
+ * A fold the data-quality gate blocks reports the reason as its error.
+ */
+export function runBacktest(facts: BacktestFacts, options: BacktestOptions): BacktestMethodResult[] {
+  const windows = planFolds(options);
+  const actualsByDate = new Map(facts.dailySales.map(sale => [sale.date, sale.value]));
+
+  return options.methods.map(method => {
+    const allPairs: ForecastActualPair[] = [];
+
+    const folds = windows.map(window => {
+      const inWindow = (day: DailyValue) => day.date >= window.trainFrom && day.date <= window.trainTo;
+      const training = facts.dailySales.filter(inWindow);
+      const inventory = facts.inventorySnapshots.filter(inWindow);
+      const fold: BacktestFold = { ...window, trainingPoints: training.length };
+
+      const { report, dailySales } = assessDataQuality({
+        dailySales: markCensoredDays(training, inventory, options.stockoutThreshold),
+        inventorySnapshots: inventory,
+        windowEnd: window.trainTo,
+        method,
+        excludeCensored: options.censoring === 'exclude',
+        stockoutThreshold: options.stockoutThreshold
+      });
+
+      if (!report.passed) {
+        return { ...fold, error: `Data quality check failed: ${blockingReason(report)}` };
+      }
+
+      const warnings = qualityWarnings(report).map(warning => warning.code);
+
+      try {
+        const output = runForecast({
+          dailySales,
+          method,
+          confidenceLevel: options.confidenceLevel,
+          horizon: options.horizon,
+          granularity: 'daily',
+          intervalMethod: options.intervalMethod,
+          censoring: options.censoring,
+          lastObservedDate: window.trainTo
+        });
+
+        const pairs: ForecastActualPair[] = [];
+        for (const period of output.forecastPeriods) {
+          const actual = actualsByDate.get(period.date);
+          if (actual !== undefined) {
+            pairs.push({
+              actual,
+              forecast: period.forecastValue,
+              lower: period.confidenceInterval.lower,
+              upper: period.confidenceInterval.upper
+            });
+          }
+        }
+
+        allPairs.push(...pairs);
+        return {
+          ...fold,
+          censoredDays: output.censoring.censoredDays,
+          qualityWarnings: warnings.length > 0 ? warnings : undefined,
+          modelVersion: output.model.version,
+          metrics: computeAccuracy(pairs)
+        };
+      } catch (error) {
+        return { ...fold, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+    return { method, folds, aggregate: computeAccuracy(allPairs) };
+  });
+}
+
+export type BacktestStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface BacktestState {
+  backtestId: string;
+  productId: string;
+  storeId?: string;
+  status: BacktestStatus;
+  parameters: Omit<BacktestOptions, 'stockoutThreshold'>;
+  error?: string;
+  results?: BacktestMethodResult[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Merges `update` into the backtest's record in Motia state
+ */
+export async function recordBacktest(
+  state: InternalStateManager,
+  backtestId: string,
+  update: Partial<Omit<BacktestState, 'backtestId' | 'createdAt' | 'updatedAt'>> & { status: BacktestStatus }
+): Promise<BacktestState> {
+  const now = new Date().toISOString();
+  const existing = await state.get<BacktestState>(FORECAST_BACKTEST_GROUP, backtestId);
+
+  return state.set<BacktestState>(FORECAST_BACKTEST_GROUP, backtestId, {
+    ...existing,
+    ...update,
+    backtestId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  } as BacktestState);
+}
+
+export async function getBacktest(state: InternalStateManager, backtestId: string): Promise<BacktestState | null> {
+  return state.get<BacktestState>(FORECAST_BACKTEST_GROUP, backtestId);
+}
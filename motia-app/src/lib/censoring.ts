@@ -0,0 +1,132 @@
+/**
+ * Stock-out censoring.
+ * On days the end-of-day inventory was at or below the stock-out threshold, sales were
+ * capped by supply, so the recorded quantity is a lower bound on demand rather than
+ * the demand itself. Those days are marked censored and either imputed or excluded
+ * before a model is fitted.
+ */
+
+import { z } from 'zod';
+import { addDays } from './dates';
+import type { DailyValue } from './forecast-engine';
+
+export const CENSORING_METHODS = ['impute', 'exclude', 'none'] as const;
+export type CensoringMethod = typeof CENSORING_METHODS[number];
+export const DEFAULT_CENSORING_METHOD: CensoringMethod = 'impute';
+export const censoringMethodSchema = z.enum(CENSORING_METHODS);
+
+export const DEFAULT_STOCKOUT_THRESHOLD = 0;
+
+/**
+ * Inventory level at or below which a day counts as a stock-out (FORECAST_STOCKOUT_THRESHOLD)
+ */
+export function stockoutThreshold(): number {
+  const configured = Number(process.env.FORECAST_STOCKOUT_THRESHOLD);
+  return Number.isFinite(configured) ? configured : DEFAULT_STOCKOUT_THRESHOLD;
+}
+
+// Same-weekday neighbours considered when imputing, in weeks either side
+const IMPUTATION_WEEKS = 4;
+
+export interface CensorableValue extends DailyValue {
+  censored?: boolean;
+}
+
+export interface CensoringSummary {
+  method: CensoringMethod;
+  censoredDays: number;
+  /** Censored days whose value was raised (impute) or dropped (exclude) */
+  adjustedDays: number;
+}
+
+/**
+ * Flags sales days whose inventory snapshot of the same date is at or below `threshold`.
+ * Days without a snapshot are never censored.
+ */
+export function markCensoredDays<T extends DailyValue>(
+  sales: T[],
+  snapshots: DailyValue[],
+  threshold: number = DEFAULT_STOCKOUT_THRESHOLD
+): Array<T & { censored: boolean }> {
+  const inventoryByDate = new Map(snapshots.map(snapshot => [snapshot.date, snapshot.value]));
+
+  return sales.map(sale => {
+    const inventory = inventoryByDate.get(sale.date);
+    return { ...sale, censored: inventory !== undefined && inventory <= threshold };
+  });
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+/**
+ * Demand estimate for a censored day: the mean of uncensored days on the same weekday
+ * within four weeks either side, else of uncensored days within a week, else of all
+ * uncensored days. Null when every day is censored.
+ */
+function estimateDemand(date: string, uncensored: Map<string, number>): number | null {
+  const sameWeekday: number[] = [];
+  const nearby: number[] = [];
+
+  for (let week = 1; week <= IMPUTATION_WEEKS; week++) {
+    for (const offset of [-7 * week, 7 * week]) {
+      const value = uncensored.get(addDays(date, offset));
+      if (value !== undefined) {
+        sameWeekday.push(value);
+      }
+    }
+  }
+  for (let offset = -7; offset <= 7; offset++) {
+    const value = uncensored.get(addDays(date, offset));
+    if (offset !== 0 && value !== undefined) {
+      nearby.push(value);
+    }
+  }
+
+  return average(sameWeekday) ?? average(nearby) ?? average([...uncensored.values()]);
+}
+
+/**
+ * Returns the series a model should be fitted on.
+ * - impute: censored days take max(observed, estimated demand), since observed sales are a lower bound
+ * - exclude: censored days are dropped (seasonal models then see a shifted weekly pattern)
+ * - none: the series is used as recorded
+ */
+export function applyCensoring(
+  sales: CensorableValue[],
+  method: CensoringMethod = DEFAULT_CENSORING_METHOD
+): { values: DailyValue[]; summary: CensoringSummary } {
+  const censoredDays = sales.filter(sale => sale.censored).length;
+
+  if (method === 'none' || censoredDays === 0) {
+    return {
+      values: sales.map(({ date, value }) => ({ date, value })),
+      summary: { method, censoredDays, adjustedDays: 0 }
+    };
+  }
+
+  if (method === 'exclude') {
+    return {
+      values: sales.filter(sale => !sale.censored).map(({ date, value }) => ({ date, value })),
+      summary: { method, censoredDays, adjustedDays: censoredDays }
+    };
+  }
+
+  const uncensored = new Map(sales.filter(sale => !sale.censored).map(sale => [sale.date, sale.value]));
+  let adjustedDays = 0;
+
+  const values = sales.map(({ date, value, censored }) => {
+    if (!censored) {
+      return { date, value };
+    }
+    const estimate = estimateDemand(date, uncensored);
+    if (estimate === null || estimate <= value) {
+      return { date, value };
+    }
+    adjustedDays += 1;
+    return { date, value: estimate };
+  });
+
+  return { values, summary: { method, censoredDays, adjustedDays } };
+}
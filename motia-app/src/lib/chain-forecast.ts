@@ -0,0 +1,102 @@
+import type { InternalStateManager } from 'motia';
+import type { ForecastRunResult, ForecastRunState } from './forecast-status';
+import type { ForecastBatchParameters } from './forecast-batch';
+import { sumIndependentIntervals } from './models';
+
+/**
+ * Chain-level ("all stores") forecasts.
+ *
+ * A chain run forecasts the product separately for every store that sold it in the
+ * window, one store-level run at a time, and then writes a chain-level aggregate that
+ * is the sum of the store forecasts. Store runs advance the chain the same way batch
+ * runs advance a lane: DispatchChainForecast only moves on for the run it is waiting on.
+ */
+
+export const CHAIN_FORECAST_GROUP = 'chain-forecasts';
+
+/** model_version of chain-level rows in f1_forecast_results */
+export const CHAIN_MODEL_VERSION = 'chain-sum';
+
+export interface ChainForecastState {
+  /** requestId of the chain-level run */
+  requestId: string;
+  productId: string;
+  /** Pinned once, so every store is forecast from the same window */
+  parameters: ForecastBatchParameters;
+  storeIds: string[];
+  nextIndex: number;
+  /** requestId the chain is waiting on; undefined before the first store and after the last */
+  currentRequestId?: string;
+  /** storeId -> requestId for every store-level run started so far */
+  storeRuns: Record<string, string>;
+  createdAt: string;
+}
+
+export interface DispatchChainForecastEvent {
+  requestId: string;
+  afterRequestId?: string;
+}
+
+export type ForecastPeriod = ForecastRunResult['forecastPeriods'][number];
+
+export async function saveChainForecast(state: InternalStateManager, chain: ChainForecastState): Promise<ChainForecastState> {
+  return state.set(CHAIN_FORECAST_GROUP, chain.requestId, chain);
+}
+
+export async function getChainForecast(state: InternalStateManager, requestId: string): Promise<ChainForecastState | null> {
+  return state.get<ChainForecastState>(CHAIN_FORECAST_GROUP, requestId);
+}
+
+/**
+ * The dispatch event that advances a chain-level run once the store-level `runState`
+ * has finished, or null when the run is not part of a chain
+ */
+export function nextChainDispatch(runState: ForecastRunState): DispatchChainForecastEvent | null {
+  if (runState.parentRequestId === undefined) {
+    return null;
+  }
+  return { requestId: runState.parentRequestId, afterRequestId: runState.requestId };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Sums store-level forecast periods into chain-level periods, matched by period date.
+ * Quantities are rounded before summing, exactly as they are persisted, so the store rows
+ * add up to the chain row. Each store has its own model and history, so store errors are
+ * treated as independent and the interval is that of the sum (sumIndependentIntervals),
+ * the same rule weekly and monthly buckets follow for their days. A period that only some
+ * stores forecast (their history ends on different days) sums just those stores.
+ */
+export function sumStoreForecasts(storePeriods: ForecastPeriod[][]): ForecastPeriod[] {
+  const byDate = new Map<string, ForecastPeriod[]>();
+
+  for (const periods of storePeriods) {
+    for (const period of periods) {
+      byDate.set(period.date, [...(byDate.get(period.date) ?? []), period]);
+    }
+  }
+
+  return [...byDate.values()]
+    .map(periods => {
+      const forecastValue = periods.reduce((sum, period) => sum + Math.round(period.forecastValue), 0);
+      const interval = sumIndependentIntervals(periods.map(period => ({
+        value: period.forecastValue,
+        lower: period.confidenceInterval.lower,
+        upper: period.confidenceInterval.upper
+      })));
+      return {
+        date: periods[0].date,
+        periodStart: periods[0].periodStart,
+        periodEnd: periods[0].periodEnd,
+        forecastValue,
+        confidenceInterval: {
+          lower: round2(Math.min(interval.lower, forecastValue)),
+          upper: round2(Math.max(interval.upper, forecastValue))
+        }
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,100 @@
+/**
+ * CSV parsing (RFC 4180): comma-separated, fields optionally double-quoted with "" as an
+ * escaped quote, quoted fields may span lines, CRLF or LF line endings, optional UTF-8 BOM.
+ */
+
+export interface CsvRecord {
+  /** 1-based line the record starts on, counting the header */
+  line: number;
+  values: Record<string, string>;
+}
+
+export interface CsvTable {
+  headers: string[];
+  records: CsvRecord[];
+}
+
+/**
+ * Splits CSV text into rows of raw fields, each with the line it starts on.
+ * Throws on an unterminated quoted field.
+ */
+export function parseCsvRows(text: string): Array<{ line: number; fields: string[] }> {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${rowLine}`);
+  }
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  // Blank lines carry no record
+  return rows.filter(row => row.fields.length > 1 || row.fields[0].trim() !== '');
+}
+
+/**
+ * Parses CSV with a header row into records keyed by the (trimmed) header names.
+ * Missing trailing fields read as ''; extra fields are ignored.
+ */
+export function parseCsv(text: string): CsvTable {
+  const [header, ...rows] = parseCsvRows(text);
+
+  if (!header) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = header.fields.map(name => name.trim());
+
+  return {
+    headers,
+    records: rows.map(row => ({
+      line: row.line,
+      values: Object.fromEntries(headers.map((name, index) => [name, row.fields[index] ?? '']))
+    }))
+  };
+}
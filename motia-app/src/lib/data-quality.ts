@@ -0,0 +1,267 @@
+/**
+ * Data-quality checks run on loaded facts before a model is fitted.
+ *
+ * Blocking issues stop the forecast run with a clear reason; warnings are carried into
+ * the forecast result and the persisted rows. Calendar gaps in the sales history are
+ * filled with explicit zero-sales days (f1_daily_sales only has rows for days that were
+ * recorded), up to the end of the window, so the models forecast from the window end.
+ * A gap at the end of the window is also flagged, since it often means the facts have
+ * not been loaded yet.
+ */
+
+import { z } from 'zod';
+import { addDays } from './dates';
+import type { DailyValue } from './forecast-engine';
+import type { CensorableValue } from './censoring';
+import { selectModel } from './models';
+import { sortedQuantile } from './statistics';
+
+export const MIN_HISTORY_DAYS = 7;
+
+// Robust z-score (MAD) above which a day is an outlier; IQR fences are used when MAD is 0
+const OUTLIER_Z = 3.5;
+const IQR_FENCE = 3;
+// Dates listed per issue; counts are always complete
+const MAX_LISTED_DATES = 31;
+
+export type QualitySeverity = 'blocking' | 'warning';
+
+export type QualityIssueCode =
+  | 'insufficient_history'
+  | 'negative_quantity'
+  | 'missing_days'
+  | 'stale_sales'
+  | 'outliers'
+  | 'inventory_range_mismatch';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  severity: QualitySeverity;
+  message: string;
+  count: number;
+  dates?: string[];
+}
+
+export interface DataQualityReport {
+  passed: boolean;
+  checkedAt: string;
+  /** Sales days as loaded, before gap filling */
+  salesDays: number;
+  /** Zero-sales days inserted for calendar gaps, including the days after the last sale */
+  filledDays: number;
+  issues: QualityIssue[];
+}
+
+export const qualityIssueSchema = z.object({
+  code: z.enum(['insufficient_history', 'negative_quantity', 'missing_days', 'stale_sales', 'outliers', 'inventory_range_mismatch']),
+  severity: z.enum(['blocking', 'warning']),
+  message: z.string(),
+  count: z.number(),
+  dates: z.array(z.string()).optional()
+});
+
+export const dataQualityReportSchema = z.object({
+  passed: z.boolean(),
+  checkedAt: z.string(),
+  salesDays: z.number(),
+  filledDays: z.number(),
+  issues: z.array(qualityIssueSchema)
+});
+
+export interface DataQualityInput {
+  dailySales: CensorableValue[];
+  inventorySnapshots: DailyValue[];
+  /** Last day of the loaded window */
+  windowEnd: string;
+  method: string;
+  /** Censored days are dropped before fitting with 'exclude', so they do not count as history */
+  excludeCensored: boolean;
+  stockoutThreshold: number;
+}
+
+function issue(
+  code: QualityIssueCode,
+  severity: QualitySeverity,
+  message: string,
+  dates: string[]
+): QualityIssue {
+  return {
+    code,
+    severity,
+    message,
+    count: dates.length,
+    dates: dates.slice(0, MAX_LISTED_DATES)
+  };
+}
+
+/**
+ * Fills calendar gaps with zero-sales days: between recorded days, and after the last one
+ * up to `windowEnd`. A filled day is censored when the inventory snapshot of that date is
+ * at or below the stock-out threshold.
+ */
+function fillMissingDays(
+  sales: CensorableValue[],
+  inventorySnapshots: DailyValue[],
+  stockoutThreshold: number,
+  windowEnd: string
+): { filled: CensorableValue[]; missingDates: string[]; trailingDates: string[] } {
+  const inventoryByDate = new Map(inventorySnapshots.map(snapshot => [snapshot.date, snapshot.value]));
+  const filled: CensorableValue[] = [];
+  const missingDates: string[] = [];
+  const trailingDates: string[] = [];
+
+  const zeroDay = (date: string): CensorableValue => {
+    const inventory = inventoryByDate.get(date);
+    return { date, value: 0, censored: inventory !== undefined && inventory <= stockoutThreshold };
+  };
+
+  sales.forEach((sale, index) => {
+    if (index > 0) {
+      for (let date = addDays(sales[index - 1].date, 1); date < sale.date; date = addDays(date, 1)) {
+        filled.push(zeroDay(date));
+        missingDates.push(date);
+      }
+    }
+    filled.push(sale);
+  });
+
+  const lastSaleDate = sales[sales.length - 1]?.date;
+  if (lastSaleDate) {
+    for (let date = addDays(lastSaleDate, 1); date <= windowEnd; date = addDays(date, 1)) {
+      filled.push(zeroDay(date));
+      trailingDates.push(date);
+    }
+  }
+
+  return { filled, missingDates, trailingDates };
+}
+
+/**
+ * Dates whose value is far from the median: robust z-score on the MAD, or the
+ * 3×IQR fences when more than half the days share one value (MAD = 0)
+ */
+function findOutliers(days: CensorableValue[]): string[] {
+  const candidates = days.filter(day => !day.censored);
+  if (candidates.length < MIN_HISTORY_DAYS) {
+    return [];
+  }
+
+  const sorted = candidates.map(day => day.value).sort((a, b) => a - b);
+  const median = sortedQuantile(sorted, 0.5);
+  const deviations = sorted.map(value => Math.abs(value - median)).sort((a, b) => a - b);
+  const mad = sortedQuantile(deviations, 0.5);
+
+  if (mad > 0) {
+    return candidates
+      .filter(day => Math.abs(day.value - median) / (1.4826 * mad) > OUTLIER_Z)
+      .map(day => day.date);
+  }
+
+  const q1 = sortedQuantile(sorted, 0.25);
+  const q3 = sortedQuantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  if (iqr === 0) {
+    return [];
+  }
+  return candidates
+    .filter(day => day.value < q1 - IQR_FENCE * iqr || day.value > q3 + IQR_FENCE * iqr)
+    .map(day => day.date);
+}
+
+/**
+ * Runs every check and returns the report together with the gap-filled sales series
+ */
+export function assessDataQuality(input: DataQualityInput): { report: DataQualityReport; dailySales: CensorableValue[] } {
+  const issues: QualityIssue[] = [];
+  const sales = [...input.dailySales].sort((a, b) => a.date.localeCompare(b.date));
+
+  const negativeDates = sales.filter(sale => sale.value < 0).map(sale => sale.date);
+  if (negativeDates.length > 0) {
+    issues.push(issue('negative_quantity', 'blocking', `${negativeDates.length} sales day(s) have a negative quantity`, negativeDates));
+  }
+
+  const { filled, missingDates, trailingDates } = fillMissingDays(
+    sales,
+    input.inventorySnapshots,
+    input.stockoutThreshold,
+    input.windowEnd
+  );
+  if (missingDates.length > 0) {
+    issues.push(issue('missing_days', 'warning', `${missingDates.length} missing calendar day(s) were filled with zero sales`, missingDates));
+  }
+
+  const lastSaleDate = sales[sales.length - 1]?.date;
+  if (lastSaleDate && trailingDates.length > 0) {
+    issues.push(issue(
+      'stale_sales',
+      'warning',
+      `No sales recorded after ${lastSaleDate}; the ${trailingDates.length} day(s) up to the window end ${input.windowEnd} were filled with zero sales`,
+      trailingDates
+    ));
+  }
+
+  const historyDays = input.excludeCensored ? filled.filter(day => !day.censored).length : filled.length;
+  let historyProblem: string | null = null;
+  if (historyDays < MIN_HISTORY_DAYS) {
+    historyProblem = `At least ${MIN_HISTORY_DAYS} days of sales history are needed, got ${historyDays}`;
+  } else {
+    try {
+      selectModel(input.method, historyDays);
+    } catch (error) {
+      historyProblem = error instanceof Error ? error.message : 'History too short for the forecast method';
+    }
+  }
+  if (historyProblem) {
+    issues.push({ code: 'insufficient_history', severity: 'blocking', message: historyProblem, count: historyDays });
+  }
+
+  const outlierDates = findOutliers(filled);
+  if (outlierDates.length > 0) {
+    issues.push(issue('outliers', 'warning', `${outlierDates.length} sales day(s) are far outside the typical range`, outlierDates));
+  }
+
+  const firstSaleDate = sales[0]?.date;
+  const lastFilledDate = filled[filled.length - 1]?.date;
+  const inventoryDates = input.inventorySnapshots.map(snapshot => snapshot.date).sort();
+  if (firstSaleDate && lastFilledDate) {
+    const inventoryFrom = inventoryDates[0];
+    const inventoryTo = inventoryDates[inventoryDates.length - 1];
+    const uncovered = filled
+      .filter(day => !inventoryFrom || day.date < inventoryFrom || day.date > inventoryTo)
+      .map(day => day.date);
+    if (uncovered.length > 0) {
+      const inventoryRange = inventoryFrom ? `${inventoryFrom}..${inventoryTo}` : 'no days';
+      issues.push(issue(
+        'inventory_range_mismatch',
+        'warning',
+        `Sales cover ${firstSaleDate}..${lastFilledDate} but inventory snapshots cover ${inventoryRange}; stock-outs outside that range cannot be detected`,
+        uncovered
+      ));
+    }
+  }
+
+  return {
+    report: {
+      passed: !issues.some(entry => entry.severity === 'blocking'),
+      checkedAt: new Date().toISOString(),
+      salesDays: sales.length,
+      filledDays: missingDates.length + trailingDates.length,
+      issues
+    },
+    dailySales: filled
+  };
+}
+
+/**
+ * One-line reason for a blocked run, e.g. for the forecast status error
+ */
+export function blockingReason(report: DataQualityReport): string {
+  return report.issues
+    .filter(entry => entry.severity === 'blocking')
+    .map(entry => `${entry.code}: ${entry.message}`)
+    .join('; ');
+}
+
+export function qualityWarnings(report: DataQualityReport): QualityIssue[] {
+  return report.issues.filter(entry => entry.severity === 'warning');
+}
@@ -0,0 +1,36 @@
+/**
+ * Calendar date helpers for 'YYYY-MM-DD' strings.
+ * All arithmetic is done in UTC so results never depend on the server timezone.
+ */
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && toIsoDate(parsed) === value;
+}
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function todayIsoDate(): string {
+  return toIsoDate(new Date());
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIsoDate(date);
+}
+
+/**
+ * Number of days from `from` to `to` (negative when `to` is earlier)
+ */
+export function diffDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY);
+}
@@ -0,0 +1,96 @@
+/**
+ * Explanations already written for identical inputs, so re-running a forecast on unchanged
+ * facts (nightly batches, replays, retried steps) does not ask the model again.
+ *
+ * Entries live in Motia state, keyed by a hash of the prompt version, the provider and model,
+ * and the prompt itself, which carries every explanation input and the locale. Only replies
+ * that passed validation are cached. An expired entry is dropped when it is next read, and
+ * SweepExplanationCacheCron drops the ones never read again.
+ */
+
+import { createHash } from 'crypto';
+import type { InternalStateManager, Logger } from 'motia';
+import type { ExplanationProvider, ExplanationRequest } from './types';
+import { buildExplanationPrompt, PROMPT_VERSION } from './prompt';
+import type { RationaleValidation } from './validation';
+
+export const EXPLANATION_CACHE_GROUP = 'explanation-cache';
+
+export interface CachedExplanation {
+  key: string;
+  provider: string;
+  model?: string;
+  rationale: string;
+  validation: RationaleValidation;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export function explanationCacheKey(provider: ExplanationProvider, request: ExplanationRequest): string {
+  return createHash('sha256')
+    .update(`${PROMPT_VERSION}\n${provider.name}\n${provider.model ?? ''}\n${buildExplanationPrompt(request)}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * The cached explanation for `key`, or null when there is none, it expired or the cache is unreadable
+ */
+export async function readCachedExplanation(
+  key: string,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<CachedExplanation | null> {
+  const { state, logger } = context;
+
+  try {
+    const cached = await state.get<CachedExplanation>(EXPLANATION_CACHE_GROUP, key);
+
+    if (cached && Date.parse(cached.expiresAt) <= Date.now()) {
+      await state.delete(EXPLANATION_CACHE_GROUP, key);
+      return null;
+    }
+    return cached;
+  } catch (error) {
+    logger.warn('Failed to read cached explanation', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return null;
+  }
+}
+
+// Caching must never fail a forecast
+export async function cacheExplanation(
+  entry: Omit<CachedExplanation, 'createdAt' | 'expiresAt'>,
+  ttlMs: number,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<void> {
+  const now = Date.now();
+
+  try {
+    await context.state.set<CachedExplanation>(EXPLANATION_CACHE_GROUP, entry.key, {
+      ...entry,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString()
+    });
+  } catch (error) {
+    context.logger.warn('Failed to cache explanation', {
+      key: entry.key,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Deletes every expired entry; returns how many were deleted
+ */
+export async function sweepExpiredExplanations(state: InternalStateManager): Promise<number> {
+  const now = Date.now();
+  const entries = await state.getGroup<CachedExplanation>(EXPLANATION_CACHE_GROUP);
+  const expired = entries.filter(entry => Date.parse(entry.expiresAt) <= now);
+
+  for (const entry of expired) {
+    await state.delete(EXPLANATION_CACHE_GROUP, entry.key);
+  }
+  return expired.length;
+}
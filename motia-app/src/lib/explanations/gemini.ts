@@ -0,0 +1,36 @@
+/**
+ * Google Gemini through @google/generative-ai
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ExplanationProvider } from './types';
+import { buildExplanationPrompt, SYSTEM_PROMPT } from './prompt';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+export interface GeminiOptions {
+  apiKey: string;
+  model?: string;
+}
+
+export function geminiProvider(options: GeminiOptions): ExplanationProvider {
+  const modelName = options.model || DEFAULT_GEMINI_MODEL;
+  const model = new GoogleGenerativeAI(options.apiKey).getGenerativeModel({
+    model: modelName,
+    generationConfig: { responseMimeType: 'application/json' }
+  });
+
+  return {
+    name: 'gemini',
+    model: modelName,
+    async explain(request, signal) {
+      const result = await model.generateContent(`${SYSTEM_PROMPT}\n${buildExplanationPrompt(request)}`, { signal });
+      const usage = result.response.usageMetadata;
+
+      return {
+        text: result.response.text(),
+        usage: usage && { promptTokens: usage.promptTokenCount, completionTokens: usage.candidatesTokenCount }
+      };
+    }
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Forecast explanation providers.
+ * GenerateForecast calls explainForecast; the provider is chosen by configuration, its reply is
+ * checked by validateRationale and the deterministic template stands in whenever it fails or
+ * the reply is rejected. Each forecast is explained once per locale (see ./locale). Adding a
+ * provider means implementing ExplanationProvider and handling its name in createProvider.
+ *
+ * EXPLANATION_PROVIDER            gemini | openai | template | recorded
+ *                                 (default: gemini when GEMINI_API_KEY is set, else template)
+ * GEMINI_API_KEY, GEMINI_MODEL    Gemini (default model gemini-1.5-flash)
+ * OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL
+ *                                 OpenAI-compatible server (default https://api.openai.com/v1, gpt-4o-mini)
+ * <PROVIDER>_TIMEOUT_MS, <PROVIDER>_RETRIES
+ *                                 per provider, e.g. OPENAI_TIMEOUT_MS (defaults in PROVIDER_DEFAULTS)
+ * EXPLANATION_BACKOFF_MS          first retry delay, doubled per retry (default 500)
+ * EXPLANATION_BREAKER_THRESHOLD   failed calls in a row that open the circuit (default 5)
+ * EXPLANATION_BREAKER_COOLDOWN_MS how long an open circuit skips the provider (default 60000)
+ * EXPLANATION_RECORDINGS          recordings file replayed by the recorded provider
+ * EXPLANATION_RECORD=true         with gemini or openai: add every answer to EXPLANATION_RECORDINGS
+ *
+ * gemini and openai cost money or capacity per call, so their explanations are cached (./cache)
+ * and their calls rate limited (./rate-limit); usage is counted for every provider (./usage).
+ * <PROVIDER>_RATE_PER_MINUTE, <PROVIDER>_MAX_CONCURRENCY
+ *                                 calls per minute and calls in flight at once, shared by all runs
+ * EXPLANATION_RATE_BURST          calls that may start back to back after an idle spell (default 5)
+ * EXPLANATION_QUEUE_TIMEOUT_MS    how long a call waits for the rate limit (default 120000)
+ * EXPLANATION_CACHE_TTL_MS        how long a cached explanation is reused (default 7 days, 0 disables)
+ */
+
+import type { InternalStateManager, Logger } from 'motia';
+import type { ExplanationProvider, ExplanationProviderName, ExplanationRequest } from './types';
+import { geminiProvider } from './gemini';
+import { openAiProvider } from './openai';
+import { templateExplanation, templateProvider } from './template';
+import { readRecordings, recordedProvider, recordingProvider } from './recorded';
+import { callWithResilience } from './resilience';
+import type { ResilienceOptions, ResilientResult } from './resilience';
+import { cacheExplanation, explanationCacheKey, readCachedExplanation } from './cache';
+import { recordExplanationUsage } from './usage';
+import type { ExplanationUsageCounts } from './usage';
+import { validateRationale } from './validation';
+import type { RationaleValidation } from './validation';
+import { localesFor } from './locale';
+import type { ExplanationLocale } from './locale';
+
+export type {
+  DataQualityWarning,
+  ExplanationProvider,
+  ExplanationProviderName,
+  ExplanationRequest,
+  InventoryCover,
+  IntervalWidth,
+  ProviderReply,
+  TokenUsage,
+  WeekdayPattern
+} from './types';
+export { averageDailyForecast, intervalWidth, inventoryCover, weekdayPattern } from './inputs';
+export { DEFAULT_EXPLANATION_LOCALE, EXPLANATION_LOCALES, explanationLocaleSchema } from './locale';
+export type { ExplanationLocale } from './locale';
+export type { ResilienceOptions } from './resilience';
+export type { RateLimitOptions } from './rate-limit';
+export type { ExplanationUsage, ExplanationUsageCounts } from './usage';
+export { getExplanationUsage, sumUsageCounts } from './usage';
+export { sweepExpiredExplanations } from './cache';
+export type { RationaleValidation, RationaleValidationStatus } from './validation';
+export { MAX_RATIONALE_LENGTH, validateRationale } from './validation';
+export { templateExplanation } from './template';
+export { recordingKey } from './recorded';
+
+export const EXPLANATION_PROVIDERS: ExplanationProviderName[] = ['gemini', 'openai', 'template', 'recorded'];
+
+/** Provider names plus 'fallback', the template standing in for a failed provider */
+export type RationaleSource = ExplanationProviderName | 'fallback';
+
+/** Providers with `limits` are remote: rate limited and cached */
+const PROVIDER_DEFAULTS: Record<ExplanationProviderName, {
+  timeoutMs: number;
+  retries: number;
+  limits?: { callsPerMinute: number; maxConcurrency: number };
+}> = {
+  // The Gemini free tier allows 15 requests per minute
+  gemini: { timeoutMs: 10000, retries: 2, limits: { callsPerMinute: 15, maxConcurrency: 4 } },
+  // Local models on modest hardware can take a while per answer and serve one at a time
+  openai: { timeoutMs: 30000, retries: 1, limits: { callsPerMinute: 60, maxConcurrency: 2 } },
+  template: { timeoutMs: 1000, retries: 0 },
+  recorded: { timeoutMs: 1000, retries: 0 }
+};
+
+const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ExplanationConfig {
+  provider: ExplanationProvider;
+  resilience: ResilienceOptions;
+  /** How long explanations are cached; 0 when they are not */
+  cacheTtlMs: number;
+}
+
+export interface ForecastExplanation {
+  rationale: string;
+  source: RationaleSource;
+  /** Outcome of validating the provider's reply; unset when it gave none or is trusted */
+  validation?: RationaleValidation;
+  /** Why the configured provider was not used, when source is 'fallback' */
+  error?: string;
+  /** Served from the explanation cache rather than a new provider call */
+  cached?: boolean;
+}
+
+type Env = Record<string, string | undefined>;
+
+function envNumber(env: Env, name: string, fallback: number): number {
+  const raw = env[name];
+  const value = Number(raw);
+  return raw !== undefined && raw !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function isProviderName(name: string): name is ExplanationProviderName {
+  return (EXPLANATION_PROVIDERS as string[]).includes(name);
+}
+
+function createProvider(name: ExplanationProviderName, env: Env): ExplanationProvider {
+  switch (name) {
+    case 'gemini':
+      if (!env.GEMINI_API_KEY) {
+        throw new Error('EXPLANATION_PROVIDER=gemini needs GEMINI_API_KEY');
+      }
+      return geminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL });
+    case 'openai':
+      return openAiProvider({ baseUrl: env.OPENAI_BASE_URL, apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL });
+    case 'template':
+      return templateProvider;
+    case 'recorded':
+      if (!env.EXPLANATION_RECORDINGS) {
+        throw new Error('EXPLANATION_PROVIDER=recorded needs EXPLANATION_RECORDINGS');
+      }
+      return recordedProvider(readRecordings(env.EXPLANATION_RECORDINGS));
+  }
+}
+
+/**
+ * The configured provider and its call options. Throws on unknown or incomplete configuration.
+ */
+export function resolveExplanationConfig(env: Env = process.env): ExplanationConfig {
+  const name = env.EXPLANATION_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'template');
+
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown EXPLANATION_PROVIDER '${name}'. Available providers: ${EXPLANATION_PROVIDERS.join(', ')}`);
+  }
+
+  let provider = createProvider(name, env);
+  const recording = env.EXPLANATION_RECORD === 'true' && (name === 'gemini' || name === 'openai');
+
+  if (recording) {
+    if (!env.EXPLANATION_RECORDINGS) {
+      throw new Error('EXPLANATION_RECORD=true needs EXPLANATION_RECORDINGS');
+    }
+    provider = recordingProvider(provider, env.EXPLANATION_RECORDINGS);
+  }
+
+  const prefix = name.toUpperCase();
+  const defaults = PROVIDER_DEFAULTS[name];
+
+  return {
+    provider,
+    resilience: {
+      timeoutMs: envNumber(env, `${prefix}_TIMEOUT_MS`, defaults.timeoutMs),
+      retries: Math.floor(envNumber(env, `${prefix}_RETRIES`, defaults.retries)),
+      backoffMs: envNumber(env, 'EXPLANATION_BACKOFF_MS', 500),
+      failureThreshold: Math.max(1, Math.floor(envNumber(env, 'EXPLANATION_BREAKER_THRESHOLD', 5))),
+      cooldownMs: envNumber(env, 'EXPLANATION_BREAKER_COOLDOWN_MS', 60000),
+      limits: defaults.limits && {
+        callsPerMinute: Math.max(1, envNumber(env, `${prefix}_RATE_PER_MINUTE`, defaults.limits.callsPerMinute)),
+        burst: Math.max(1, Math.floor(envNumber(env, 'EXPLANATION_RATE_BURST', 5))),
+        maxConcurrency: Math.max(1, Math.floor(envNumber(env, `${prefix}_MAX_CONCURRENCY`, defaults.limits.maxConcurrency))),
+        maxWaitMs: envNumber(env, 'EXPLANATION_QUEUE_TIMEOUT_MS', 120000)
+      }
+    },
+    // A recording run must reach the provider for every answer it records
+    cacheTtlMs: defaults.limits && !recording ? envNumber(env, 'EXPLANATION_CACHE_TTL_MS', DEFAULT_CACHE_TTL_MS) : 0
+  };
+}
+
+function callCounts(result: ResilientResult): Partial<ExplanationUsageCounts> {
+  return {
+    calls: result.attempts,
+    failedCalls: result.explanation === undefined ? result.attempts : result.attempts - 1,
+    promptTokens: result.usage?.promptTokens,
+    completionTokens: result.usage?.completionTokens,
+    rateLimited: result.rateLimited ? 1 : 0
+  };
+}
+
+/**
+ * Rationale for a forecast from the cache or the configured provider, or the template when the
+ * provider is misconfigured, fails, times out, is short-circuited or rate limited, or its reply
+ * is rejected
+ */
+export async function explainForecast(
+  request: ExplanationRequest,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<ForecastExplanation> {
+  const { logger } = context;
+  let validation: RationaleValidation | undefined;
+  let error: string;
+  // Misconfiguration has no provider to account to
+  let usageProvider = 'unconfigured';
+  let counts: Partial<ExplanationUsageCounts> = {};
+
+  try {
+    const { provider, resilience, cacheTtlMs } = resolveExplanationConfig();
+    usageProvider = provider.name;
+    const cacheKey = cacheTtlMs > 0 ? explanationCacheKey(provider, request) : undefined;
+    const cached = cacheKey ? await readCachedExplanation(cacheKey, context) : null;
+
+    if (cached) {
+      logger.info('Forecast explanation served from cache', {
+        productId: request.productId,
+        locale: request.locale,
+        provider: provider.name,
+        cachedAt: cached.createdAt,
+        step: 'generate_forecast_explanation'
+      });
+      await recordExplanationUsage(provider.name, { cacheHits: 1 }, context);
+      return { rationale: cached.rationale, source: provider.name, validation: cached.validation, cached: true };
+    }
+
+    const result = await callWithResilience(provider, request, resilience, context);
+    counts = callCounts(result);
+
+    if (result.explanation !== undefined) {
+      if (provider.trusted) {
+        await recordExplanationUsage(provider.name, counts, context);
+        return { rationale: result.explanation, source: provider.name };
+      }
+
+      const validated = validateRationale(result.explanation, request);
+      validation = validated.validation;
+
+      if (validated.rationale) {
+        logger.info('Forecast explanation generated', {
+          productId: request.productId,
+          locale: request.locale,
+          provider: provider.name,
+          attempts: result.attempts,
+          usage: result.usage,
+          validation: validation.status,
+          issues: validation.issues,
+          step: 'generate_forecast_explanation'
+        });
+        await recordExplanationUsage(provider.name, counts, context);
+        if (cacheKey) {
+          await cacheExplanation({
+            key: cacheKey,
+            provider: provider.name,
+            model: provider.model,
+            rationale: validated.rationale,
+            validation
+          }, cacheTtlMs, context);
+        }
+        return { rationale: validated.rationale, source: provider.name, validation };
+      }
+
+      error = `${provider.name} reply rejected: ${validation.issues.join('; ')}`;
+    } else {
+      error = result.error ?? 'Unknown error';
+    }
+  } catch (configError) {
+    error = configError instanceof Error ? configError.message : 'Unknown error';
+  }
+
+  await recordExplanationUsage(usageProvider, { ...counts, fallbacks: 1 }, context);
+
+  logger.warn('Using template explanation instead of the configured provider', {
+    productId: request.productId,
+    locale: request.locale,
+    error,
+    step: 'generate_forecast_explanation'
+  });
+
+  return { rationale: templateExplanation(request), source: 'fallback', validation, error };
+}
+
+/**
+ * The forecast explained in every locale, the requested `locale` first
+ */
+export async function explainForecastInLocales(
+  request: Omit<ExplanationRequest, 'locale'>,
+  locale: ExplanationLocale,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<Record<ExplanationLocale, ForecastExplanation>> {
+  const explanations: Partial<Record<ExplanationLocale, ForecastExplanation>> = {};
+
+  for (const each of localesFor(locale)) {
+    explanations[each] = await explainForecast({ ...request, locale: each }, context);
+  }
+
+  return explanations as Record<ExplanationLocale, ForecastExplanation>;
+}
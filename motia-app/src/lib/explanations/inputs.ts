@@ -0,0 +1,93 @@
+/**
+ * Derived values that make an explanation specific to its forecast: weekday pattern, stock
+ * cover and interval width. All of them are computed here from the forecast's own inputs and
+ * outputs, so the provider only ever puts numbers into words.
+ */
+
+import { mean } from '../statistics';
+import type { CensorableValue } from '../censoring';
+import type { InventoryCover, IntervalWidth, WeekdayPattern } from './types';
+
+/** Fewer observations per weekday make the pattern noise */
+const MIN_WEEKS_FOR_PATTERN = 2;
+
+/** Peak and trough within this many percent of the average read as an even week */
+const EVEN_WEEK_PERCENT = 10;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Best and worst selling weekday as a percentage above or below the average day.
+ * Stock-out days are left out (their sales were capped by supply). Null when some weekday has
+ * fewer than two observations or nothing sold.
+ */
+export function weekdayPattern(dailySales: CensorableValue[]): WeekdayPattern | null {
+  const byWeekday: number[][] = Array.from({ length: 7 }, () => []);
+
+  for (const sale of dailySales) {
+    if (!sale.censored) {
+      byWeekday[new Date(`${sale.date}T00:00:00Z`).getUTCDay()].push(sale.value);
+    }
+  }
+
+  if (byWeekday.some(values => values.length < MIN_WEEKS_FOR_PATTERN)) {
+    return null;
+  }
+
+  const averages = byWeekday.map(values => mean(values));
+  const overall = mean(averages);
+  if (overall <= 0) {
+    return null;
+  }
+
+  const percents = averages.map(average => Math.round((average / overall - 1) * 100));
+  const strongest = percents.indexOf(Math.max(...percents));
+  const weakest = percents.indexOf(Math.min(...percents));
+
+  return {
+    strongestDay: strongest,
+    strongestPercent: percents[strongest],
+    weakestDay: weakest,
+    weakestPercent: percents[weakest],
+    even: percents[strongest] <= EVEN_WEEK_PERCENT && percents[weakest] >= -EVEN_WEEK_PERCENT
+  };
+}
+
+/**
+ * Forecast demand per day over the horizon (periods of any granularity add up to the horizon)
+ */
+export function averageDailyForecast(forecastValues: number[], horizon: number): number {
+  const total = forecastValues.reduce((sum, value) => sum + value, 0);
+  return horizon > 0 ? round(total / horizon, 2) : 0;
+}
+
+/**
+ * How many days the stock at the forecast start lasts at the forecast rate (null without demand)
+ */
+export function inventoryCover(openingLevel: number, dailyForecast: number): InventoryCover {
+  return {
+    level: round(openingLevel, 2),
+    daysOfCover: dailyForecast > 0 ? round(openingLevel / dailyForecast, 1) : null
+  };
+}
+
+/**
+ * Average width of the prediction interval per period, absolute and as a percentage of the
+ * average forecast
+ */
+export function intervalWidth(
+  periods: Array<{ forecastValue: number; confidenceInterval: { lower: number; upper: number } }>,
+  confidenceLevel: number
+): IntervalWidth {
+  const width = mean(periods.map(period => period.confidenceInterval.upper - period.confidenceInterval.lower));
+  const forecast = mean(periods.map(period => period.forecastValue));
+
+  return {
+    confidencePercent: Math.round(confidenceLevel * 100),
+    averageWidth: round(width, 2),
+    relativePercent: forecast > 0 ? Math.round(width / forecast * 100) : null
+  };
+}
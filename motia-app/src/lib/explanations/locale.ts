@@ -0,0 +1,62 @@
+/**
+ * Explanation locales.
+ * Every forecast is explained in each locale (f1_forecast_results.forecast_rationales) so store
+ * staff and HQ can each read their own; the requested locale also fills forecast_rationale.
+ * The wording the template and prompt need per locale lives here.
+ */
+
+import { z } from 'zod';
+
+export const EXPLANATION_LOCALES = ['en', 'ja'] as const;
+export type ExplanationLocale = typeof EXPLANATION_LOCALES[number];
+export const DEFAULT_EXPLANATION_LOCALE: ExplanationLocale = 'en';
+export const explanationLocaleSchema = z.enum(EXPLANATION_LOCALES);
+
+/** The requested locale first, then the others */
+export function localesFor(locale: ExplanationLocale): ExplanationLocale[] {
+  return [locale, ...EXPLANATION_LOCALES.filter(other => other !== locale)];
+}
+
+export const LANGUAGE_NAMES: Record<ExplanationLocale, string> = {
+  en: 'English',
+  ja: 'Japanese (日本語, polite です・ます style)'
+};
+
+/** Indexed by Date#getUTCDay */
+export const WEEKDAY_NAMES: Record<ExplanationLocale, string[]> = {
+  en: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  ja: ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日']
+};
+
+/** English descriptions come from the model registry (describeModel) */
+export const MODEL_NAMES_JA: Record<string, string> = {
+  'moving-average-with-trend': '7日移動平均とトレンド補正',
+  'simple-exponential-smoothing': '水準のみの単純指数平滑法',
+  holt: '水準とトレンドを扱うホルトの線形指数平滑法',
+  'holt-winters': '週次の季節性を含む加法ホルト・ウィンタース法',
+  'seasonal-naive': '直近1週間を繰り返す季節ナイーブ法',
+  'linear-trend': '最小二乗法による線形トレンド'
+};
+
+export const CENSORING_DESCRIPTIONS: Record<ExplanationLocale, Record<string, string>> = {
+  en: {
+    impute: 'imputed from comparable days',
+    exclude: 'excluded from the model',
+    none: 'used as recorded'
+  },
+  ja: {
+    impute: '類似日から補完',
+    exclude: 'モデルから除外',
+    none: '記録どおりに使用'
+  }
+};
+
+/** Japanese summaries of data-quality warnings by issue code; English uses the issue message */
+export const QUALITY_WARNINGS_JA: Record<string, (count: number) => string> = {
+  missing_days: count => `欠損日${count}日をゼロ販売で補完`,
+  stale_sales: count => `直近${count}日間の販売記録なし`,
+  outliers: count => `通常の範囲から大きく外れた販売日${count}日`,
+  inventory_range_mismatch: count => `在庫データのない販売日${count}日`,
+  negative_quantity: count => `数量がマイナスの販売日${count}日`,
+  insufficient_history: () => '販売履歴の不足'
+};
@@ -0,0 +1,73 @@
+/**
+ * Any OpenAI-compatible chat completions endpoint: OpenAI itself, or a local server such as
+ * llama.cpp (llama-server) or Ollama, which serve the same API under /v1
+ */
+
+import type { ExplanationProvider } from './types';
+import { buildExplanationPrompt, SYSTEM_PROMPT } from './prompt';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export interface OpenAiOptions {
+  baseUrl?: string;
+  /** Optional: local servers usually need none */
+  apiKey?: string;
+  model?: string;
+}
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export function openAiProvider(options: OpenAiOptions): ExplanationProvider {
+  const url = `${(options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+  const model = options.model || DEFAULT_OPENAI_MODEL;
+
+  return {
+    name: 'openai',
+    model,
+    async explain(request, signal) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: buildExplanationPrompt(request) }
+          ],
+          temperature: 0.2,
+          // Supported by OpenAI, llama.cpp and Ollama; the reply is still validated
+          response_format: { type: 'json_object' }
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const detail = (await response.text()).slice(0, 200);
+        throw new Error(`Chat completions request failed with HTTP ${response.status}: ${detail}`);
+      }
+
+      const completion = await response.json() as ChatCompletion;
+      const content = completion.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error('Chat completions response has no message content');
+      }
+
+      const usage = completion.usage;
+      return {
+        text: content,
+        usage: usage && {
+          promptTokens: usage.prompt_tokens ?? 0,
+          completionTokens: usage.completion_tokens ?? 0
+        }
+      };
+    }
+  };
+}
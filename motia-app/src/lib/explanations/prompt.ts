@@ -0,0 +1,114 @@
+/**
+ * The prompt shared by the LLM providers, built from deterministic values only
+ */
+
+import type { ExplanationRequest } from './types';
+import { MOVING_AVERAGE_WINDOW } from '../forecast-engine';
+import { MAX_RATIONALE_LENGTH } from './validation';
+import { CENSORING_DESCRIPTIONS, LANGUAGE_NAMES, MODEL_NAMES_JA, WEEKDAY_NAMES } from './locale';
+import type { ExplanationLocale } from './locale';
+
+export function describeCensoring(method: string | undefined, locale: ExplanationLocale = 'en'): string {
+  return CENSORING_DESCRIPTIONS[locale][method ?? 'impute'] ?? CENSORING_DESCRIPTIONS[locale].impute;
+}
+
+/**
+ * Part of the explanation cache key: bump it whenever the prompt, the system prompt or the
+ * validation rules change, so explanations cached under the old wording are no longer reused
+ */
+export const PROMPT_VERSION = 1;
+
+export const SYSTEM_PROMPT = 'You are a business analytics assistant writing for store and category managers. Generate a concise, business-readable explanation for why this forecast makes sense and what it means for stock. Reply with a JSON object only.';
+
+/** How the explanation names the product: name and SKU when known, otherwise the ID */
+export function productLabel(request: ExplanationRequest): string {
+  if (request.locale === 'ja') {
+    return request.product ? `${request.product.name}（SKU ${request.product.sku}）` : `商品 ${request.productId}`;
+  }
+  return request.product ? `${request.product.name} (SKU ${request.product.sku})` : `Product ${request.productId}`;
+}
+
+export function modelLabel(request: ExplanationRequest): string {
+  const localized = request.locale === 'ja' ? MODEL_NAMES_JA[request.model.name] : undefined;
+  return localized ?? request.model.description ?? request.model.name;
+}
+
+function signedPercent(percent: number): string {
+  return percent > 0 ? `+${percent}%` : `${percent}%`;
+}
+
+function describeWeekdays(request: ExplanationRequest): string {
+  const pattern = request.weekdayPattern;
+  if (!pattern) {
+    return 'not enough history to tell';
+  }
+  const names = WEEKDAY_NAMES[request.locale];
+  const extremes = `${names[pattern.strongestDay]} ${signedPercent(pattern.strongestPercent)}, ${names[pattern.weakestDay]} ${signedPercent(pattern.weakestPercent)} vs. the average day`;
+  return pattern.even ? `fairly even (${extremes})` : extremes;
+}
+
+function describeInventory(request: ExplanationRequest): string {
+  const inventory = request.inventory;
+  if (!inventory) {
+    return 'unknown';
+  }
+  if (inventory.daysOfCover === null) {
+    return `${inventory.level} units at the forecast start (no demand forecast)`;
+  }
+  return `${inventory.level} units at the forecast start, covering ${inventory.daysOfCover} days of forecast demand`;
+}
+
+function describeInterval(request: ExplanationRequest): string {
+  const { confidencePercent, averageWidth, relativePercent } = request.interval;
+  const relative = relativePercent === null ? '' : ` (${relativePercent}% of the forecast)`;
+  return `${confidencePercent}% prediction interval, on average ${averageWidth.toFixed(2)} units wide per period${relative}`;
+}
+
+function exampleReply(request: ExplanationRequest): string {
+  const movingAverage = request.movingAverage.toFixed(2);
+  const daily = request.averageDailyForecast.toFixed(2);
+
+  if (request.locale === 'ja') {
+    return `${productLabel(request)}の直近${MOVING_AVERAGE_WINDOW}日間の平均販売数は1日${movingAverage}個で、${request.historicalDataPoints}日分の実績に基づき、今後${request.forecastHorizon}日間は1日あたり約${daily}個と予測しています。これまでの販売傾向が続く前提の予測です。`;
+  }
+  return `${productLabel(request)} sells ${movingAverage} units a day on average over the last ${MOVING_AVERAGE_WINDOW} days, with a ${request.trendSlope.toFixed(4)} trend slope across ${request.historicalDataPoints} data points, so the forecast of ${daily} per day continues the established pattern. The ${request.forecastHorizon}-day horizon accounts for recent trends while maintaining historical consistency.`;
+}
+
+export function buildExplanationPrompt(request: ExplanationRequest): string {
+  const warnings = request.dataQualityWarnings.length > 0
+    ? request.dataQualityWarnings.map(warning => `\n  - ${warning.message}`).join('')
+    : ' none';
+
+  return `
+Use ONLY the provided deterministic values:
+- Product: ${productLabel(request)}
+- Model: ${modelLabel(request)}
+- Moving average: ${request.movingAverage.toFixed(2)} (over the last ${MOVING_AVERAGE_WINDOW} days)
+- Trend slope: ${request.trendSlope.toFixed(4)}
+- Historical data points: ${request.historicalDataPoints}
+- Forecast horizon: ${request.forecastHorizon} days
+- Forecast values: ${request.forecastValues.map(value => value.toFixed(2)).join(', ')}
+- Average forecast per day: ${request.averageDailyForecast.toFixed(2)}
+- Weekday pattern: ${describeWeekdays(request)}
+- Stock on hand: ${describeInventory(request)}
+- Uncertainty: ${describeInterval(request)}
+- Stock-out days in history: ${request.censoredDays ?? 0}${request.censoredDays ? ` (sales capped by running out of stock; ${describeCensoring(request.censoringMethod)})` : ''}
+- Data quality warnings:${warnings}
+
+Rules:
+1. Do NOT invent any numbers or make predictions; do not compute percentages, totals or differences
+2. Refer only to the provided values; any other number makes the explanation invalid
+3. Refer to the product by name, and explain how the recent level, trend and weekday pattern justify the forecast
+4. Keep it concise (3-4 sentences max, under ${MAX_RATIONALE_LENGTH[request.locale]} characters)
+5. Use business-friendly language for a store manager; no statistics jargon beyond the model name
+6. If stock on hand covers fewer days than the horizon, say that it is expected to run out; if the interval is wide, say the forecast is uncertain
+7. If there were stock-out days, mention how they were treated (imputed or excluded days count as lost demand, not low demand); if there are data quality warnings, say the forecast should be checked
+8. Write in ${LANGUAGE_NAMES[request.locale]}; write numbers with ASCII digits exactly as given
+9. Reply with JSON only, no code fence: {"explanation": "<the explanation>"}
+
+Example reply:
+${JSON.stringify({ explanation: exampleReply(request) })}
+
+Generate the explanation:
+`;
+}
@@ -0,0 +1,188 @@
+/**
+ * Token bucket and concurrency cap for provider calls, shared by every GenerateForecast run.
+ *
+ * Like the circuit breaker (./resilience), the limits live in Motia state, one record per
+ * provider, so steps running in separate processes draw from the same bucket. The bucket holds
+ * up to `burst` calls and refills at `callsPerMinute`; every call also holds one of
+ * `maxConcurrency` slots until it finishes. State offers no atomic update: updates are queued
+ * within a process and re-read after writing, but two processes taking the last token at the
+ * same moment may both get it, so the limits smooth the load rather than enforce an exact quota.
+ */
+
+import { randomUUID } from 'crypto';
+import type { InternalStateManager, Logger } from 'motia';
+
+export const EXPLANATION_LIMITS_GROUP = 'explanation-limits';
+
+export interface RateLimitOptions {
+  callsPerMinute: number;
+  /** Calls that may start back to back after an idle spell */
+  burst: number;
+  /** Calls in flight at once */
+  maxConcurrency: number;
+  /** How long a call waits for a token and a slot before the template stands in */
+  maxWaitMs: number;
+}
+
+export interface ProviderLimits {
+  provider: string;
+  /** Tokens left at refilledAt; fractions accumulate between calls */
+  tokens: number;
+  refilledAt: string;
+  /** Calls in flight: lease ID -> expiry. A lease left by a crashed run frees its slot on expiry */
+  leases: Record<string, string>;
+  updatedAt: string;
+}
+
+/** How often a waiting call checks for a free slot */
+const SLOT_POLL_MS = 250;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function availableTokens(limits: ProviderLimits | null, options: RateLimitOptions, now: number): number {
+  if (!limits) {
+    return options.burst;
+  }
+  const refilled = (now - Date.parse(limits.refilledAt)) * options.callsPerMinute / 60000;
+  return Math.min(options.burst, limits.tokens + Math.max(0, refilled));
+}
+
+function liveLeases(limits: ProviderLimits | null, now: number): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(limits?.leases ?? {}).filter(([, expiresAt]) => Date.parse(expiresAt) > now)
+  );
+}
+
+// Updates to one state record run one at a time within a process
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `update` after every earlier update queued under `key` in this process
+ */
+export function serialized<T>(key: string, update: () => Promise<T>): Promise<T> {
+  const next = (pendingUpdates.get(key) ?? Promise.resolve()).then(update, update);
+  pendingUpdates.set(key, next.catch(() => undefined));
+  return next;
+}
+
+/**
+ * Takes a token and a slot if both are free; otherwise says how long to wait before trying again
+ */
+async function tryAcquire(
+  provider: string,
+  leaseId: string,
+  options: RateLimitOptions,
+  leaseMs: number,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<{ acquired: true } | { acquired: false; waitMs: number }> {
+  const { state, logger } = context;
+  const now = Date.now();
+  let limits: ProviderLimits | null;
+
+  try {
+    limits = await state.get<ProviderLimits>(EXPLANATION_LIMITS_GROUP, provider);
+  } catch (error) {
+    // Unreadable limits must never fail a forecast: the call goes ahead unlimited
+    logger.warn('Failed to read explanation rate limits', {
+      provider,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return { acquired: true };
+  }
+
+  const tokens = availableTokens(limits, options, now);
+  const leases = liveLeases(limits, now);
+
+  if (tokens < 1) {
+    return { acquired: false, waitMs: Math.max(SLOT_POLL_MS, Math.ceil((1 - tokens) * 60000 / options.callsPerMinute)) };
+  }
+  if (Object.keys(leases).length >= options.maxConcurrency) {
+    return { acquired: false, waitMs: SLOT_POLL_MS };
+  }
+
+  leases[leaseId] = new Date(now + leaseMs).toISOString();
+  await saveLimits(state, logger, {
+    provider,
+    tokens: tokens - 1,
+    refilledAt: new Date(now).toISOString(),
+    leases,
+    updatedAt: new Date(now).toISOString()
+  });
+
+  // Another process may have written over the lease in the meantime; then try again
+  const saved = await state.get<ProviderLimits>(EXPLANATION_LIMITS_GROUP, provider).catch(() => null);
+  return saved && !saved.leases[leaseId] ? { acquired: false, waitMs: SLOT_POLL_MS } : { acquired: true };
+}
+
+/**
+ * Takes a token and a slot for one call to `provider`, waiting up to `maxWaitMs` for them.
+ * Resolves to the lease to hand back to releaseCall, or null when the wait ran out.
+ * The lease expires after `leaseMs` even if it is never released.
+ */
+export async function acquireCall(
+  provider: string,
+  options: RateLimitOptions,
+  leaseMs: number,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<string | null> {
+  const leaseId = randomUUID();
+  const deadline = Date.now() + options.maxWaitMs;
+
+  for (;;) {
+    const attempt = await serialized(
+      `${EXPLANATION_LIMITS_GROUP}:${provider}`,
+      () => tryAcquire(provider, leaseId, options, leaseMs, context)
+    );
+
+    if (attempt.acquired) {
+      return leaseId;
+    }
+    if (Date.now() + attempt.waitMs > deadline) {
+      return null;
+    }
+    await sleep(attempt.waitMs);
+  }
+}
+
+/**
+ * Frees the slot held by `leaseId`
+ */
+export function releaseCall(
+  provider: string,
+  leaseId: string,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<void> {
+  const { state, logger } = context;
+
+  return serialized(`${EXPLANATION_LIMITS_GROUP}:${provider}`, async () => {
+    try {
+      const limits = await state.get<ProviderLimits>(EXPLANATION_LIMITS_GROUP, provider);
+      if (!limits?.leases[leaseId]) {
+        return;
+      }
+
+      const leases = liveLeases(limits, Date.now());
+      delete leases[leaseId];
+      await saveLimits(state, logger, { ...limits, leases, updatedAt: new Date().toISOString() });
+    } catch (error) {
+      logger.warn('Failed to release explanation call slot', {
+        provider,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+}
+
+// Limit bookkeeping must never fail a forecast
+async function saveLimits(state: InternalStateManager, logger: Logger, limits: ProviderLimits): Promise<void> {
+  try {
+    await state.set(EXPLANATION_LIMITS_GROUP, limits.provider, limits);
+  } catch (error) {
+    logger.warn('Failed to save explanation rate limits', {
+      provider: limits.provider,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Recorded responses, so the pipeline runs fully offline and reproducibly.
+ *
+ * A recordings file maps each request's key (a hash of its prompt) to the explanation a real
+ * provider gave for it, plus an optional `default` for requests that were never recorded:
+ *   { "recordings": { "<key>": "explanation", ... }, "default": "explanation" }
+ * recordingProvider wraps a real provider and adds its answers to such a file.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { ExplanationProvider, ExplanationRequest } from './types';
+import { buildExplanationPrompt } from './prompt';
+
+export interface Recordings {
+  recordings: Record<string, string>;
+  default?: string;
+}
+
+export function recordingKey(request: ExplanationRequest): string {
+  return createHash('sha256').update(buildExplanationPrompt(request)).digest('hex').slice(0, 32);
+}
+
+export function readRecordings(file: string): Recordings {
+  if (!existsSync(file)) {
+    return { recordings: {} };
+  }
+
+  const parsed = JSON.parse(readFileSync(file, 'utf8')) as Partial<Recordings>;
+  return { recordings: parsed.recordings ?? {}, default: parsed.default };
+}
+
+/**
+ * Replays recorded explanations; a request without a recording gets `default`, or rejects
+ */
+export function recordedProvider(recordings: Recordings): ExplanationProvider {
+  return {
+    name: 'recorded',
+    async explain(request) {
+      const explanation = recordings.recordings[recordingKey(request)] ?? recordings.default;
+
+      if (explanation === undefined) {
+        throw new Error(`No recorded explanation for key ${recordingKey(request)}`);
+      }
+      return { text: explanation };
+    }
+  };
+}
+
+/**
+ * Passes requests to `provider` and adds each answer to the recordings `file`
+ */
+export function recordingProvider(provider: ExplanationProvider, file: string): ExplanationProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async explain(request, signal) {
+      const reply = await provider.explain(request, signal);
+      // Re-read so runs recording side by side keep each other's entries
+      const current = readRecordings(file);
+      current.recordings[recordingKey(request)] = reply.text;
+      writeFileSync(file, `${JSON.stringify(current, null, 2)}\n`);
+      return reply;
+    }
+  };
+}
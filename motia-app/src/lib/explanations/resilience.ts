@@ -0,0 +1,265 @@
+/**
+ * Timeouts, retries with exponential backoff and a circuit breaker around a provider.
+ *
+ * Steps may run in separate processes, so the breaker lives in Motia state (one record per
+ * provider) rather than in memory. A call that fails after all its retries counts as one
+ * failure; `failureThreshold` consecutive failures open the circuit for `cooldownMs`, during
+ * which calls fail immediately. After the cooldown the circuit is half-open: one call claims
+ * the probe and makes a single attempt, while the others keep failing immediately. Success
+ * closes the circuit, failure opens it again. Outcomes are counted on a fresh read of the
+ * state, and like the rate limits, updates are queued within a process and re-read after
+ * writing; state has no atomic update, so separate processes can still race.
+ *
+ * With `limits`, every attempt first waits for a token and a concurrency slot (./rate-limit).
+ * Running out of patience there gives up without counting against the breaker: the provider
+ * never saw the call.
+ */
+
+import { randomUUID } from 'crypto';
+import type { InternalStateManager, Logger } from 'motia';
+import type { ExplanationProvider, ExplanationRequest, TokenUsage } from './types';
+import { acquireCall, releaseCall, serialized, sleep } from './rate-limit';
+import type { RateLimitOptions } from './rate-limit';
+
+export const EXPLANATION_CIRCUIT_GROUP = 'explanation-circuits';
+
+export interface ResilienceOptions {
+  timeoutMs: number;
+  /** Attempts after the first one */
+  retries: number;
+  /** Wait before the first retry; doubled for every further retry */
+  backoffMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  /** Unset for providers that cost nothing to call */
+  limits?: RateLimitOptions;
+}
+
+export interface CircuitState {
+  provider: string;
+  consecutiveFailures: number;
+  /** Set while the circuit is open or half-open */
+  openUntil?: string;
+  /** The half-open probe call in flight; it stops blocking other calls once it expires */
+  probe?: { id: string; expiresAt: string };
+  lastError?: string;
+  updatedAt: string;
+}
+
+export interface ResilientResult {
+  explanation?: string;
+  error?: string;
+  /** Calls that reached the provider */
+  attempts: number;
+  /** Tokens used by all attempts, when the provider reports them */
+  usage?: TokenUsage;
+  circuitOpen: boolean;
+  /** Gave up waiting for the rate limit */
+  rateLimited: boolean;
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return total;
+  }
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens
+  };
+}
+
+/**
+ * Rejects after `timeoutMs` even if the provider ignores the abort signal
+ */
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+  });
+
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+type CircuitGate =
+  | { allowed: true; probeId?: string }
+  | { allowed: false; error: string };
+
+function readCircuit(state: InternalStateManager, provider: string): Promise<CircuitState | null> {
+  // An unreadable breaker counts as closed
+  return state.get<CircuitState>(EXPLANATION_CIRCUIT_GROUP, provider).catch(() => null);
+}
+
+/**
+ * Lets a call through a closed circuit and fails it on an open one. On a half-open circuit
+ * only the caller that claims the probe goes through.
+ */
+async function enterCircuit(
+  provider: string,
+  probeMs: number,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<CircuitGate> {
+  const { state, logger } = context;
+  const now = Date.now();
+  const circuit = await readCircuit(state, provider);
+
+  if (!circuit?.openUntil) {
+    return { allowed: true };
+  }
+  if (Date.parse(circuit.openUntil) > now) {
+    return {
+      allowed: false,
+      error: `Circuit for ${provider} is open until ${circuit.openUntil} (last error: ${circuit.lastError ?? 'unknown'})`
+    };
+  }
+
+  const probing = `Circuit for ${provider} is half-open and another call is probing it`;
+  if (circuit.probe && Date.parse(circuit.probe.expiresAt) > now) {
+    return { allowed: false, error: probing };
+  }
+
+  const probe = { id: randomUUID(), expiresAt: new Date(now + probeMs).toISOString() };
+  await saveCircuit(state, logger, { ...circuit, probe, updatedAt: new Date(now).toISOString() });
+
+  // Another process may have claimed the probe in the meantime
+  const saved = await readCircuit(state, provider);
+  if (saved?.probe && saved.probe.id !== probe.id) {
+    return { allowed: false, error: probing };
+  }
+  return { allowed: true, probeId: probe.id };
+}
+
+/**
+ * Counts the outcome of a call against the state as it is now, not as it was before the call
+ */
+async function recordOutcome(
+  provider: string,
+  outcome: { failed: false } | { failed: true; error: string; probeId?: string },
+  options: ResilienceOptions,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<void> {
+  const { state, logger } = context;
+  const circuit = await readCircuit(state, provider);
+  const now = Date.now();
+
+  if (!outcome.failed) {
+    if (circuit && (circuit.consecutiveFailures > 0 || circuit.openUntil)) {
+      await saveCircuit(state, logger, { provider, consecutiveFailures: 0, updatedAt: new Date(now).toISOString() });
+    }
+    return;
+  }
+
+  const consecutiveFailures = (circuit?.consecutiveFailures ?? 0) + 1;
+  // Opened by another call while this one was running: its cooldown stands
+  const alreadyOpen = circuit?.openUntil !== undefined && Date.parse(circuit.openUntil) > now;
+  // A failed probe opens the circuit again at once
+  const opens = !alreadyOpen && (outcome.probeId !== undefined || consecutiveFailures >= options.failureThreshold);
+
+  await saveCircuit(state, logger, {
+    provider,
+    consecutiveFailures,
+    openUntil: opens ? new Date(now + options.cooldownMs).toISOString() : circuit?.openUntil,
+    // Another call's probe stays claimed
+    probe: !opens && circuit?.probe?.id !== outcome.probeId ? circuit?.probe : undefined,
+    lastError: outcome.error,
+    updatedAt: new Date(now).toISOString()
+  });
+
+  if (opens) {
+    logger.warn('Explanation provider circuit opened', {
+      provider,
+      consecutiveFailures,
+      cooldownMs: options.cooldownMs,
+      step: 'generate_forecast_explanation'
+    });
+  }
+}
+
+export async function callWithResilience(
+  provider: ExplanationProvider,
+  request: ExplanationRequest,
+  options: ResilienceOptions,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<ResilientResult> {
+  const { logger } = context;
+  const circuitKey = `${EXPLANATION_CIRCUIT_GROUP}:${provider.name}`;
+  // A probe makes one attempt; its claim outlasts that attempt and the wait for a call slot
+  const probeMs = options.timeoutMs + (options.limits?.maxWaitMs ?? 0) + 5000;
+  const gate = await serialized(circuitKey, () => enterCircuit(provider.name, probeMs, context));
+
+  if (!gate.allowed) {
+    return { error: gate.error, attempts: 0, circuitOpen: true, rateLimited: false };
+  }
+
+  const retries = gate.probeId ? 0 : options.retries;
+  let lastError = 'Unknown error';
+  let usage: TokenUsage | undefined;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(options.backoffMs * 2 ** (attempt - 1));
+    }
+
+    // A slot is held for at most one timed-out attempt, plus some slack for the bookkeeping
+    const leaseId = options.limits
+      ? await acquireCall(provider.name, options.limits, options.timeoutMs + 5000, context)
+      : undefined;
+
+    if (leaseId === null) {
+      logger.warn('Explanation provider call rate limited', {
+        provider: provider.name,
+        attempt: attempt + 1,
+        maxWaitMs: options.limits?.maxWaitMs,
+        step: 'generate_forecast_explanation'
+      });
+      return {
+        error: `No ${provider.name} call slot free within ${options.limits?.maxWaitMs} ms (rate limit)`,
+        attempts: attempt,
+        usage,
+        circuitOpen: false,
+        rateLimited: true
+      };
+    }
+
+    try {
+      const reply = await withTimeout(signal => provider.explain(request, signal), options.timeoutMs);
+      usage = addUsage(usage, reply.usage);
+
+      await serialized(circuitKey, () => recordOutcome(provider.name, { failed: false }, options, context));
+      return { explanation: reply.text, attempts: attempt + 1, usage, circuitOpen: false, rateLimited: false };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Explanation provider attempt failed', {
+        provider: provider.name,
+        attempt: attempt + 1,
+        of: retries + 1,
+        error: lastError,
+        step: 'generate_forecast_explanation'
+      });
+    } finally {
+      if (leaseId) {
+        await releaseCall(provider.name, leaseId, context);
+      }
+    }
+  }
+
+  const failure = { failed: true as const, error: lastError, probeId: gate.probeId };
+  await serialized(circuitKey, () => recordOutcome(provider.name, failure, options, context));
+
+  return { error: lastError, attempts: retries + 1, usage, circuitOpen: false, rateLimited: false };
+}
+
+// Breaker bookkeeping must never fail a forecast
+async function saveCircuit(state: InternalStateManager, logger: Logger, circuit: CircuitState): Promise<void> {
+  try {
+    await state.set(EXPLANATION_CIRCUIT_GROUP, circuit.provider, circuit);
+  } catch (error) {
+    logger.warn('Failed to save explanation circuit state', {
+      provider: circuit.provider,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
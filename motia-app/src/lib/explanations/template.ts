@@ -0,0 +1,101 @@
+/**
+ * Deterministic template explanation: no network, same input → same text.
+ * Also the fallback whenever the configured provider fails.
+ */
+
+import type { ExplanationProvider, ExplanationRequest } from './types';
+import { describeCensoring, modelLabel, productLabel } from './prompt';
+import { QUALITY_WARNINGS_JA, WEEKDAY_NAMES } from './locale';
+import type { ExplanationLocale } from './locale';
+import { MOVING_AVERAGE_WINDOW } from '../forecast-engine';
+
+/** Intervals wider than this share of the forecast make it a rough guide only */
+const WIDE_INTERVAL_PERCENT = 50;
+
+type Sentences = (request: ExplanationRequest) => Array<string | null>;
+
+function englishSentences(request: ExplanationRequest): Array<string | null> {
+  const { weekdayPattern: pattern, inventory, interval } = request;
+  const weekdays = WEEKDAY_NAMES.en;
+  const trendDirection = request.trendSlope > 0 ? 'rising' :
+                        request.trendSlope < 0 ? 'falling' : 'stable';
+  const range = `The ${interval.confidencePercent}% prediction interval is on average ${interval.averageWidth.toFixed(2)} units wide per period`;
+
+  return [
+    `${productLabel(request)}: about ${request.averageDailyForecast.toFixed(2)} units per day are forecast over the next ${request.forecastHorizon} days (${modelLabel(request)}, fitted on ${request.historicalDataPoints} days of sales history).`,
+    `Sales over the last ${MOVING_AVERAGE_WINDOW} days averaged ${request.movingAverage.toFixed(2)} per day with a ${trendDirection} trend (slope: ${request.trendSlope.toFixed(4)}).`,
+    !pattern ? null :
+      pattern.even ? 'Sales are fairly even across the week.' :
+      `Sales peak on ${weekdays[pattern.strongestDay]}s (${pattern.strongestPercent}% above the average day) and are lowest on ${weekdays[pattern.weakestDay]}s (${Math.abs(pattern.weakestPercent)}% below).`,
+    !inventory ? null :
+      inventory.daysOfCover === null ? `Stock on hand is ${inventory.level} units.` :
+      inventory.daysOfCover < request.forecastHorizon
+        ? `Stock on hand (${inventory.level} units) covers only about ${inventory.daysOfCover} days of forecast demand, so it is expected to run out within the ${request.forecastHorizon}-day horizon.`
+        : `Stock on hand (${inventory.level} units) covers about ${inventory.daysOfCover} days of forecast demand, beyond the ${request.forecastHorizon}-day horizon.`,
+    interval.relativePercent === null ? `${range}.` :
+      interval.relativePercent > WIDE_INTERVAL_PERCENT
+        ? `${range} (${interval.relativePercent}% of the forecast), so treat the forecast as a rough guide and keep a safety margin.`
+        : `${range} (${interval.relativePercent}% of the forecast).`,
+    !request.censoredDays ? null :
+      request.censoringMethod === 'none'
+        ? `${request.censoredDays} stock-out day(s) were used as recorded, so demand may be understated.`
+        : `${request.censoredDays} stock-out day(s) were treated as lost demand (${describeCensoring(request.censoringMethod, 'en')}).`,
+    request.dataQualityWarnings.length === 0 ? null :
+      `Check the sales history before relying on this forecast: ${request.dataQualityWarnings.map(warning => warning.message).join('; ')}.`
+  ];
+}
+
+function japaneseSentences(request: ExplanationRequest): Array<string | null> {
+  const { weekdayPattern: pattern, inventory, interval } = request;
+  const weekdays = WEEKDAY_NAMES.ja;
+  const trendDirection = request.trendSlope > 0 ? '上昇' :
+                        request.trendSlope < 0 ? '下降' : '横ばい';
+  const range = `${interval.confidencePercent}%予測区間の幅は1期間あたり平均${interval.averageWidth.toFixed(2)}個です`;
+  const warnings = request.dataQualityWarnings
+    .map(warning => QUALITY_WARNINGS_JA[warning.code]?.(warning.count) ?? warning.message);
+
+  return [
+    `${productLabel(request)}：今後${request.forecastHorizon}日間の予測は1日あたり約${request.averageDailyForecast.toFixed(2)}個です（${modelLabel(request)}、${request.historicalDataPoints}日分の販売実績から推定）。`,
+    `直近${MOVING_AVERAGE_WINDOW}日間の平均販売数は1日${request.movingAverage.toFixed(2)}個で、傾向は${trendDirection}です（傾き：${request.trendSlope.toFixed(4)}）。`,
+    !pattern ? null :
+      pattern.even ? '曜日による販売数の差は小さめです。' :
+      `販売数は${weekdays[pattern.strongestDay]}が最も多く（平均より${pattern.strongestPercent}%多い）、${weekdays[pattern.weakestDay]}が最も少なくなっています（平均より${Math.abs(pattern.weakestPercent)}%少ない）。`,
+    !inventory ? null :
+      inventory.daysOfCover === null ? `現在の在庫は${inventory.level}個です。` :
+      inventory.daysOfCover < request.forecastHorizon
+        ? `現在の在庫（${inventory.level}個）は予測需要の約${inventory.daysOfCover}日分しかなく、${request.forecastHorizon}日以内に欠品する見込みです。`
+        : `現在の在庫（${inventory.level}個）は予測需要の約${inventory.daysOfCover}日分あり、${request.forecastHorizon}日間の予測期間を上回ります。`,
+    interval.relativePercent === null ? `${range}。` :
+      interval.relativePercent > WIDE_INTERVAL_PERCENT
+        ? `${range}（予測値の${interval.relativePercent}%）。予測は目安として扱い、余裕を持った在庫計画をおすすめします。`
+        : `${range}（予測値の${interval.relativePercent}%）。`,
+    !request.censoredDays ? null :
+      request.censoringMethod === 'none'
+        ? `欠品日${request.censoredDays}日分の販売実績をそのまま使っているため、需要を過小評価している可能性があります。`
+        : `欠品日${request.censoredDays}日分は失われた需要として扱いました（${describeCensoring(request.censoringMethod, 'ja')}）。`,
+    warnings.length === 0 ? null :
+      `この予測を使う前に販売実績を確認してください：${warnings.join('、')}。`
+  ];
+}
+
+const SENTENCES: Record<ExplanationLocale, Sentences> = {
+  en: englishSentences,
+  ja: japaneseSentences
+};
+
+const SENTENCE_SEPARATORS: Record<ExplanationLocale, string> = {
+  en: ' ',
+  ja: ''
+};
+
+export function templateExplanation(request: ExplanationRequest): string {
+  return SENTENCES[request.locale](request)
+    .filter((sentence): sentence is string => sentence !== null)
+    .join(SENTENCE_SEPARATORS[request.locale]);
+}
+
+export const templateProvider: ExplanationProvider = {
+  name: 'template',
+  trusted: true,
+  explain: async request => ({ text: templateExplanation(request) })
+};
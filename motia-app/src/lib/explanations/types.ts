@@ -0,0 +1,94 @@
+/**
+ * Common interface for forecast explanation (rationale) providers.
+ * Providers only put the deterministic forecast values into words; they never change a
+ * forecast, so any of them can be swapped in, or fall back to the template, at any time.
+ */
+
+import type { ExplanationLocale } from './locale';
+
+export interface WeekdayPattern {
+  /** As Date#getUTCDay: 0 is Sunday */
+  strongestDay: number;
+  /** Average sales on that weekday, in percent above (below when negative) the average day */
+  strongestPercent: number;
+  weakestDay: number;
+  weakestPercent: number;
+  /** Both within a few percent of the average day */
+  even: boolean;
+}
+
+export interface InventoryCover {
+  /** Units on hand at the forecast start */
+  level: number;
+  /** Days the stock lasts at the forecast rate; null when no demand is forecast */
+  daysOfCover: number | null;
+}
+
+export interface IntervalWidth {
+  confidencePercent: number;
+  /** Upper minus lower bound, averaged over the periods */
+  averageWidth: number;
+  /** averageWidth as a percentage of the average forecast; null when nothing is forecast */
+  relativePercent: number | null;
+}
+
+export interface DataQualityWarning {
+  code: string;
+  count: number;
+  message: string;
+}
+
+export interface ExplanationRequest {
+  /** Language the explanation is written in */
+  locale: ExplanationLocale;
+  movingAverage: number;
+  trendSlope: number;
+  historicalDataPoints: number;
+  forecastHorizon: number;
+  /** Forecast value of every period, in order */
+  forecastValues: number[];
+  averageDailyForecast: number;
+  productId: string;
+  /** From f1_products; unset when the product could not be looked up */
+  product?: { sku: string; name: string };
+  model: { name: string; description?: string };
+  /** Unset when the history is too short to tell */
+  weekdayPattern?: WeekdayPattern;
+  /** Unset without inventory snapshots */
+  inventory?: InventoryCover;
+  interval: IntervalWidth;
+  /** Data-quality warnings the forecast went ahead with */
+  dataQualityWarnings: DataQualityWarning[];
+  /** Stock-out days whose sales were capped by supply */
+  censoredDays?: number;
+  censoringMethod?: string;
+}
+
+/** Tokens a model call used, as reported by the provider */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProviderReply {
+  text: string;
+  /** Unset when the provider reports none (template, recordings, some local servers) */
+  usage?: TokenUsage;
+}
+
+export interface ExplanationProvider {
+  /** Recorded as rationale_source when the provider produced the rationale */
+  name: ExplanationProviderName;
+  /** Model answering for the provider; part of the explanation cache key */
+  model?: string;
+  /** Replies are built from the request itself rather than by a model, so they skip validation */
+  trusted?: boolean;
+  /**
+   * Resolves to the raw reply, or rejects; an aborted `signal` (timeout) must reject.
+   * Replies should be JSON ({"explanation": "..."}) and are checked by validateRationale.
+   * Retries, timeouts and the circuit breaker are applied around this by lib/explanations.
+   */
+  explain(request: ExplanationRequest, signal: AbortSignal): Promise<ProviderReply>;
+}
+
+export type ExplanationProviderName = 'gemini' | 'openai' | 'template' | 'recorded';
@@ -0,0 +1,90 @@
+/**
+ * Usage accounting for explanation providers: calls, tokens, cache hits and fallbacks,
+ * one Motia state record per UTC day and provider, read by GET /api/explanations/usage.
+ * Counters are read, added to and written back, so runs finishing at the same moment can
+ * lose an increment; the figures are for monitoring cost, not for billing.
+ */
+
+import type { InternalStateManager, Logger } from 'motia';
+import { todayIsoDate } from '../dates';
+
+export const EXPLANATION_USAGE_GROUP = 'explanation-usage';
+
+export interface ExplanationUsageCounts {
+  /** Calls that reached the provider, retries included */
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Explanations served from the cache instead of calling the provider */
+  cacheHits: number;
+  /** Explanations the template wrote because the provider failed, was skipped or rejected */
+  fallbacks: number;
+  /** Fallbacks because no call slot came free in time */
+  rateLimited: number;
+}
+
+export interface ExplanationUsage extends ExplanationUsageCounts {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  provider: string;
+  updatedAt: string;
+}
+
+export function emptyUsageCounts(): ExplanationUsageCounts {
+  return { calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, cacheHits: 0, fallbacks: 0, rateLimited: 0 };
+}
+
+function addCounts(total: ExplanationUsageCounts, counts: Partial<ExplanationUsageCounts>): ExplanationUsageCounts {
+  const next = { ...total };
+  for (const field of Object.keys(next) as Array<keyof ExplanationUsageCounts>) {
+    next[field] += counts[field] ?? 0;
+  }
+  return next;
+}
+
+export function sumUsageCounts(rows: ExplanationUsageCounts[]): ExplanationUsageCounts {
+  return rows.reduce(addCounts, emptyUsageCounts());
+}
+
+// Accounting must never fail a forecast
+export async function recordExplanationUsage(
+  provider: string,
+  counts: Partial<ExplanationUsageCounts>,
+  context: { state: InternalStateManager; logger: Logger }
+): Promise<void> {
+  const { state, logger } = context;
+  const date = todayIsoDate();
+  const key = `${date}:${provider}`;
+
+  try {
+    const existing = await state.get<ExplanationUsage>(EXPLANATION_USAGE_GROUP, key);
+
+    await state.set<ExplanationUsage>(EXPLANATION_USAGE_GROUP, key, {
+      ...addCounts(existing ?? emptyUsageCounts(), counts),
+      date,
+      provider,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.warn('Failed to record explanation usage', {
+      provider,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Usage records from `from` to `to` (UTC days, inclusive), by date and then provider
+ */
+export async function getExplanationUsage(
+  state: InternalStateManager,
+  from: string,
+  to: string
+): Promise<ExplanationUsage[]> {
+  const rows = await state.getGroup<ExplanationUsage>(EXPLANATION_USAGE_GROUP);
+
+  return rows
+    .filter(row => row.date >= from && row.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.provider.localeCompare(b.provider));
+}
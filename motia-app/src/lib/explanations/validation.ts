@@ -0,0 +1,248 @@
+/**
+ * Checks an LLM reply before it becomes a forecast's rationale.
+ *
+ * Providers are asked for JSON ({"explanation": "..."}). The explanation may only quote numbers
+ * the prompt gave it (see allowedFacts): every number in the text is compared with those facts
+ * at the precision the text uses, so "12.4" matches a moving average of 12.43 but "15%" does
+ * not. The text must also be in the request's locale and within its length limit. Replies are
+ * repaired where that loses nothing the reader needs (plain text instead of JSON, sentences
+ * with unsupported numbers, overlong text cut at a sentence end) and rejected otherwise, in
+ * which case the template explanation is used instead.
+ */
+
+import type { ExplanationRequest } from './types';
+import { MOVING_AVERAGE_WINDOW } from '../forecast-engine';
+import type { ExplanationLocale } from './locale';
+
+/** Japanese packs about twice as much into a character */
+export const MAX_RATIONALE_LENGTH: Record<ExplanationLocale, number> = {
+  en: 600,
+  ja: 300
+};
+
+export type RationaleValidationStatus = 'valid' | 'repaired' | 'rejected';
+
+export interface RationaleValidation {
+  status: RationaleValidationStatus;
+  /** What was wrong with the reply; for a repaired reply, what was changed */
+  issues: string[];
+}
+
+export interface ValidatedRationale {
+  /** Unset when the reply was rejected */
+  rationale?: string;
+  validation: RationaleValidation;
+}
+
+export interface ValidationOptions {
+  /** Defaults to MAX_RATIONALE_LENGTH of the request's locale */
+  maxLength?: number;
+}
+
+export interface AllowedFact {
+  name: string;
+  value: number;
+}
+
+/**
+ * The values the prompt gives the provider, i.e. every number an explanation may quote
+ */
+export function allowedFacts(request: ExplanationRequest): AllowedFact[] {
+  const facts: AllowedFact[] = [
+    { name: 'movingAverage', value: request.movingAverage },
+    { name: 'movingAverageWindow', value: MOVING_AVERAGE_WINDOW },
+    { name: 'trendSlope', value: request.trendSlope },
+    { name: 'historicalDataPoints', value: request.historicalDataPoints },
+    { name: 'forecastHorizon', value: request.forecastHorizon },
+    { name: 'averageDailyForecast', value: request.averageDailyForecast },
+    { name: 'censoredDays', value: request.censoredDays ?? 0 },
+    ...request.forecastValues.map((value, i) => ({ name: `forecastValues[${i}]`, value })),
+    { name: 'interval.confidencePercent', value: request.interval.confidencePercent },
+    { name: 'interval.averageWidth', value: request.interval.averageWidth }
+  ];
+
+  if (request.interval.relativePercent !== null) {
+    facts.push({ name: 'interval.relativePercent', value: request.interval.relativePercent });
+  }
+  if (request.weekdayPattern) {
+    facts.push(
+      { name: 'weekdayPattern.strongestPercent', value: request.weekdayPattern.strongestPercent },
+      { name: 'weekdayPattern.weakestPercent', value: request.weekdayPattern.weakestPercent }
+    );
+  }
+  if (request.inventory) {
+    facts.push({ name: 'inventory.level', value: request.inventory.level });
+    if (request.inventory.daysOfCover !== null) {
+      facts.push({ name: 'inventory.daysOfCover', value: request.inventory.daysOfCover });
+    }
+  }
+  // Warnings quote their own counts and dates
+  request.dataQualityWarnings.forEach((warning, i) => {
+    facts.push({ name: `dataQualityWarnings[${i}].count`, value: warning.count });
+    extractNumbers(warning.message).forEach(number => facts.push({ name: `dataQualityWarnings[${i}]`, value: Number(number.replace(/,/g, '')) }));
+  });
+
+  return facts;
+}
+
+/**
+ * Product ID, SKU and name are quoted verbatim and may contain digits or another script
+ */
+function withoutIdentifiers(text: string, request: ExplanationRequest): string {
+  const identifiers = [request.productId, request.product?.sku, request.product?.name]
+    .filter((identifier): identifier is string => !!identifier)
+    .sort((a, b) => b.length - a.length);
+
+  return identifiers.reduce((result, identifier) => result.split(identifier).join(' '), text);
+}
+
+// Numbers not glued to Latin letters (so "SKU12" or "H2" are not numbers), with optional thousands
+// separators. Japanese puts numbers right next to its words (約12個), so other scripts do not count.
+const NUMBER_PATTERN = /(?<![\p{Script=Latin}\d.])\d+(?:,\d{3})*(?:\.\d+)?(?![\p{Script=Latin}\d])/gu;
+
+/**
+ * Numbers in `text`, as written; full-width digits count too. Signs are ignored: "declining
+ * by 0.25" quotes a slope of -0.25.
+ */
+export function extractNumbers(text: string): string[] {
+  return text.normalize('NFKC').match(NUMBER_PATTERN) ?? [];
+}
+
+/**
+ * Whether `written` is one of the facts rounded to as many decimals as it was written with
+ */
+export function isSupportedNumber(written: string, facts: AllowedFact[]): boolean {
+  const plain = written.replace(/,/g, '');
+  const value = Number(plain);
+  const decimals = plain.includes('.') ? plain.split('.')[1].length : 0;
+  const tolerance = 0.5 * 10 ** -decimals + 1e-9;
+
+  return facts.some(fact => Math.abs(Math.abs(fact.value) - value) <= tolerance);
+}
+
+const JAPANESE_LETTER = /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u;
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/**
+ * Whether `text` is written in the locale: English is (nearly) all Latin letters; Japanese is
+ * mostly Japanese script, with kana (Chinese would have none) and room for Latin terms
+ */
+function isInLocale(text: string, locale: ExplanationLocale): boolean {
+  const letters = text.match(/\p{L}/gu) ?? [];
+  if (letters.length === 0) {
+    return false;
+  }
+
+  if (locale === 'ja') {
+    const japanese = letters.filter(letter => JAPANESE_LETTER.test(letter)).length;
+    return KANA.test(text) && japanese / letters.length >= 0.5;
+  }
+  const latin = letters.filter(letter => /\p{Script=Latin}/u.test(letter)).length;
+  return latin / letters.length >= 0.95;
+}
+
+const SENTENCE_SEPARATORS: Record<ExplanationLocale, string> = {
+  en: ' ',
+  ja: ''
+};
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|(?<=[。！？])\s*/).filter(sentence => sentence.length > 0);
+}
+
+/**
+ * The explanation text of a reply: the `explanation` field of a JSON object, possibly inside
+ * a code fence, or the reply itself when it is plain text
+ */
+function parseReply(reply: string): { text?: string; issue?: string } {
+  const unfenced = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+
+  if (start === -1) {
+    return { text: unfenced, issue: 'reply was not JSON; used the text as the explanation' };
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(end > start ? unfenced.slice(start, end + 1) : unfenced.slice(start));
+    const explanation = (parsed as { explanation?: unknown } | null)?.explanation;
+
+    if (typeof explanation === 'string') {
+      return { text: explanation };
+    }
+    return { issue: 'reply JSON has no "explanation" string' };
+  } catch {
+    return { issue: 'reply is not valid JSON' };
+  }
+}
+
+function rejected(issues: string[]): ValidatedRationale {
+  return { validation: { status: 'rejected', issues } };
+}
+
+/**
+ * Validates (and where possible repairs) a provider's reply against the request it answered
+ */
+export function validateRationale(
+  reply: string,
+  request: ExplanationRequest,
+  options: ValidationOptions = {}
+): ValidatedRationale {
+  const maxLength = options.maxLength ?? MAX_RATIONALE_LENGTH[request.locale];
+  const separator = SENTENCE_SEPARATORS[request.locale];
+  const issues: string[] = [];
+
+  const parsed = parseReply(reply);
+  if (parsed.issue) {
+    issues.push(parsed.issue);
+  }
+  if (parsed.text === undefined) {
+    return rejected(issues);
+  }
+
+  let text = parsed.text.replace(/\s+/g, ' ').trim();
+
+  if (!text) {
+    return rejected([...issues, 'explanation is empty']);
+  }
+  if (!isInLocale(withoutIdentifiers(text, request), request.locale)) {
+    return rejected([...issues, `explanation is not in the expected language (${request.locale})`]);
+  }
+
+  const facts = allowedFacts(request);
+  const unsupportedIn = (sentence: string) => extractNumbers(withoutIdentifiers(sentence, request))
+    .filter(number => !isSupportedNumber(number, facts));
+
+  const unsupported = unsupportedIn(text);
+  if (unsupported.length > 0) {
+    const kept = splitSentences(text).filter(sentence => unsupportedIn(sentence).length === 0);
+
+    if (kept.length === 0) {
+      return rejected([...issues, `unsupported numbers: ${unsupported.join(', ')}`]);
+    }
+    issues.push(`removed sentences with unsupported numbers: ${unsupported.join(', ')}`);
+    text = kept.join(separator);
+  }
+
+  if (text.length > maxLength) {
+    let shortened = '';
+    for (const sentence of splitSentences(text)) {
+      const next = shortened ? `${shortened}${separator}${sentence}` : sentence;
+      if (next.length > maxLength) {
+        break;
+      }
+      shortened = next;
+    }
+
+    if (!shortened) {
+      return rejected([...issues, `explanation is longer than ${maxLength} characters`]);
+    }
+    issues.push(`shortened from ${text.length} to ${shortened.length} characters`);
+    text = shortened;
+  }
+
+  return {
+    rationale: text,
+    validation: { status: issues.length > 0 ? 'repaired' : 'valid', issues }
+  };
+}
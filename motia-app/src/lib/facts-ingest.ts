@@ -0,0 +1,263 @@
+/**
+ * Bulk loading of the fact tables (f1_daily_sales, f1_inventory_snapshots) from JSON or CSV.
+ *
+ * Rows name their product by store and SKU, the way point-of-sale and inventory systems
+ * know it; the SKU is looked up in f1_products. Every row is validated on its own, so a bad
+ * row is reported instead of failing the upload, and valid rows are upserted on the tables'
+ * (product_id, date) keys: sending a day again corrects it rather than duplicating it.
+ */
+
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { findProducts } from './products';
+import { parseCsv } from './csv';
+import { isIsoDate } from './dates';
+
+export const FACT_KINDS = ['sales', 'inventory'] as const;
+export type FactKind = typeof FACT_KINDS[number];
+export const factKindSchema = z.enum(FACT_KINDS);
+
+export const MAX_INGEST_ROWS = 50000;
+
+// Rows per upsert request
+const UPSERT_CHUNK_SIZE = 1000;
+
+interface FactTable {
+  table: 'f1_daily_sales' | 'f1_inventory_snapshots';
+  dateColumn: 'sales_date' | 'snapshot_date';
+  valueColumn: 'quantity' | 'inventory_level';
+  valueField: 'quantity' | 'inventoryLevel';
+}
+
+const FACT_TABLES: Record<FactKind, FactTable> = {
+  sales: { table: 'f1_daily_sales', dateColumn: 'sales_date', valueColumn: 'quantity', valueField: 'quantity' },
+  inventory: { table: 'f1_inventory_snapshots', dateColumn: 'snapshot_date', valueColumn: 'inventory_level', valueField: 'inventoryLevel' }
+};
+
+const isoDateSchema = z.string().refine(isIsoDate, { message: 'must be an ISO date (YYYY-MM-DD)' });
+const countSchema = z.number().int().nonnegative();
+
+const rowFields = {
+  storeId: z.guid({ message: 'must be a store id (uuid)' }),
+  sku: z.string().trim().min(1),
+  date: isoDateSchema
+};
+
+const rowSchemas = {
+  sales: z.object({ ...rowFields, quantity: countSchema }),
+  inventory: z.object({ ...rowFields, inventoryLevel: countSchema })
+};
+
+export interface FactRowError {
+  /** 1-based position of the row in the upload */
+  row: number;
+  /** Line in the CSV file (the header is line 1); CSV uploads only */
+  line?: number;
+  field?: string;
+  message: string;
+}
+
+export interface RawFactRow {
+  row: number;
+  line?: number;
+  values: unknown;
+}
+
+export interface FactRow {
+  row: number;
+  line?: number;
+  storeId: string;
+  sku: string;
+  date: string;
+  value: number;
+}
+
+export interface ResolvedFactRow extends FactRow {
+  productId: string;
+}
+
+/**
+ * Expected CSV header: the table's column names (store_id, sku, sales_date or snapshot_date,
+ * quantity or inventory_level); `date` and the JSON field names are accepted too
+ */
+export function csvColumns(kind: FactKind): string[] {
+  const { dateColumn, valueColumn } = FACT_TABLES[kind];
+  return ['store_id', 'sku', dateColumn, valueColumn];
+}
+
+function csvField(kind: FactKind, header: string): string | undefined {
+  const { dateColumn, valueColumn, valueField } = FACT_TABLES[kind];
+  const fields: Record<string, string> = {
+    store_id: 'storeId',
+    storeid: 'storeId',
+    sku: 'sku',
+    date: 'date',
+    [dateColumn]: 'date',
+    [valueColumn]: valueField,
+    [valueField.toLowerCase()]: valueField
+  };
+  return fields[header.toLowerCase()];
+}
+
+export function jsonFactRows(body: unknown[]): RawFactRow[] {
+  return body.map((values, index) => ({ row: index + 1, values }));
+}
+
+/**
+ * Rows of a CSV upload, with values converted to the JSON row shape.
+ * Throws when the text is not CSV or a required column is missing.
+ */
+export function csvFactRows(kind: FactKind, text: string): RawFactRow[] {
+  const { headers, records } = parseCsv(text);
+  const { valueField } = FACT_TABLES[kind];
+  const mapped = new Map(headers.map(header => [header, csvField(kind, header)]));
+  const present = new Set(mapped.values());
+  const columns = csvColumns(kind);
+  const missing = ['storeId', 'sku', 'date', valueField]
+    .map((field, index) => present.has(field) ? null : columns[index])
+    .filter(column => column !== null);
+
+  if (missing.length > 0) {
+    throw new Error(`CSV header must contain ${columns.join(', ')} (missing: ${missing.join(', ')})`);
+  }
+
+  return records.map((record, index) => {
+    const values: Record<string, unknown> = {};
+    for (const [header, field] of mapped) {
+      if (!field) {
+        continue;
+      }
+      const text = record.values[header].trim();
+      // Empty cells read as missing; numbers that do not parse fail validation as NaN
+      values[field] = text === '' ? undefined : field === valueField ? Number(text) : text;
+    }
+    return { row: index + 1, line: record.line, values };
+  });
+}
+
+/**
+ * Validates each row on its own. A row repeating the store, SKU and date of an earlier
+ * row is rejected, since one upsert cannot write the same key twice.
+ */
+export function validateFactRows(kind: FactKind, rows: RawFactRow[]): { valid: FactRow[]; errors: FactRowError[] } {
+  const schema = rowSchemas[kind];
+  const valid: FactRow[] = [];
+  const errors: FactRowError[] = [];
+  const firstRow = new Map<string, number>();
+
+  for (const { row, line, values } of rows) {
+    const parsed = schema.safeParse(values);
+
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map(issue => ({
+        row,
+        line,
+        field: issue.path.join('.') || undefined,
+        message: issue.message
+      })));
+      continue;
+    }
+
+    const { storeId, sku, date } = parsed.data;
+    const key = `${storeId}|${sku}|${date}`;
+    const earlier = firstRow.get(key);
+
+    if (earlier !== undefined) {
+      errors.push({ row, line, message: `duplicate of row ${earlier} (same storeId, sku and date)` });
+      continue;
+    }
+
+    firstRow.set(key, row);
+    valid.push({
+      row,
+      line,
+      storeId,
+      sku,
+      date,
+      value: 'quantity' in parsed.data ? parsed.data.quantity : parsed.data.inventoryLevel
+    });
+  }
+
+  return { valid, errors };
+}
+
+/**
+ * Looks up each row's product by store and SKU; rows with no such product become errors
+ */
+export async function resolveFactProducts(
+  rows: FactRow[]
+): Promise<{ data: { resolved: ResolvedFactRow[]; errors: FactRowError[] } | null; error: { message: string } | null }> {
+  const storeIds = [...new Set(rows.map(row => row.storeId))];
+
+  if (storeIds.length === 0) {
+    return { data: { resolved: [], errors: [] }, error: null };
+  }
+
+  // Whole stores rather than a SKU list, which would not fit in one request URL
+  const { data: products, error } = await findProducts({ storeIds });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const productIds = new Map((products ?? []).map(product => [`${product.storeId}|${product.sku}`, product.id]));
+  const resolved: ResolvedFactRow[] = [];
+  const errors: FactRowError[] = [];
+
+  for (const row of rows) {
+    const productId = productIds.get(`${row.storeId}|${row.sku}`);
+
+    if (productId) {
+      resolved.push({ ...row, productId });
+    } else {
+      errors.push({
+        row: row.row,
+        line: row.line,
+        field: 'sku',
+        message: `unknown product: no SKU ${row.sku} in store ${row.storeId}`
+      });
+    }
+  }
+
+  return { data: { resolved, errors }, error: null };
+}
+
+/**
+ * Upserts rows in chunks. On error, `upserted` counts the rows of the chunks already written.
+ */
+export async function upsertFacts(
+  kind: FactKind,
+  rows: ResolvedFactRow[]
+): Promise<{ upserted: number; error: { message: string } | null }> {
+  const { table, dateColumn, valueColumn } = FACT_TABLES[kind];
+  let upserted = 0;
+
+  for (let start = 0; start < rows.length; start += UPSERT_CHUNK_SIZE) {
+    const chunk = rows.slice(start, start + UPSERT_CHUNK_SIZE);
+    const { error } = await supabase
+      .from(table)
+      .upsert(
+        chunk.map(row => ({
+          store_id: row.storeId,
+          product_id: row.productId,
+          [dateColumn]: row.date,
+          [valueColumn]: row.value
+        })),
+        { onConflict: `product_id,${dateColumn}` }
+      );
+
+    if (error) {
+      return { upserted, error };
+    }
+    upserted += chunk.length;
+  }
+
+  return { upserted, error: null };
+}
+
+/**
+ * Errors of all stages in upload order
+ */
+export function sortRowErrors(errors: FactRowError[]): FactRowError[] {
+  return [...errors].sort((a, b) => a.row - b.row);
+}
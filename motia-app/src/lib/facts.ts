@@ -0,0 +1,235 @@
+/**
+ * Read access to the immutable fact tables (f1_daily_sales, f1_inventory_snapshots).
+ * Results mirror the Supabase { data, error } shape so callers keep their own logging.
+ */
+
+import { supabase } from './supabase';
+
+export interface SalesFact {
+  date: string;
+  value: number;
+  storeId: string;
+}
+
+export interface InventoryFact {
+  date: string;
+  value: number;
+}
+
+export interface ProductSalesFact extends SalesFact {
+  productId: string;
+}
+
+// Rows per page: one response holds at most max_rows (1000) rows and drops the rest silently
+const PAGE_SIZE = 1000;
+// Ids per .in() filter, which travels in the request URL
+const IN_CHUNK_SIZE = 200;
+
+interface FactResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+type PageQuery<Row> = PromiseLike<{ data: Row[] | null; error: { message: string } | null }>;
+
+/**
+ * Every row of a query, read PAGE_SIZE rows at a time in id order. `page` builds the query for
+ * the rows after `lastId`, ordered by id and limited to PAGE_SIZE.
+ */
+async function fetchAllPages<Row extends { id: string }>(
+  page: (lastId: string | null) => PageQuery<Row>
+): Promise<FactResult<Row>> {
+  const rows: Row[] = [];
+  let lastId: string | null = null;
+
+  for (;;) {
+    const { data, error } = await page(lastId);
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const pageRows = data ?? [];
+    rows.push(...pageRows);
+
+    if (pageRows.length < PAGE_SIZE) {
+      return { data: rows, error: null };
+    }
+    lastId = pageRows[pageRows.length - 1].id;
+  }
+}
+
+interface SalesRow {
+  id: string;
+  sales_date: string;
+  quantity: number;
+  store_id: string;
+}
+
+interface ProductSalesRow extends SalesRow {
+  product_id: string;
+}
+
+interface InventoryRow {
+  id: string;
+  snapshot_date: string;
+  inventory_level: number;
+}
+
+/**
+ * Daily sales for a product between `from` and `to` (inclusive), oldest first.
+ * Without `storeId` the rows of every store are returned, one row per store and day.
+ */
+export async function fetchDailySales(
+  productId: string,
+  from: string,
+  to: string,
+  storeId?: string
+): Promise<FactResult<SalesFact>> {
+  const { data, error } = await fetchAllPages<SalesRow>(lastId => {
+    let query = supabase
+      .from('f1_daily_sales')
+      .select('id, sales_date, quantity, store_id')
+      .eq('product_id', productId)
+      .gte('sales_date', from)
+      .lte('sales_date', to);
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    return query.order('id', { ascending: true }).limit(PAGE_SIZE);
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return {
+    data: (data ?? [])
+      .map(item => ({
+        date: item.sales_date,
+        value: item.quantity,
+        storeId: item.store_id
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.storeId.localeCompare(b.storeId)),
+    error: null
+  };
+}
+
+/**
+ * Inventory snapshots for a product between `from` and `to` (inclusive), oldest first,
+ * optionally limited to one store
+ */
+export async function fetchInventorySnapshots(
+  productId: string,
+  from: string,
+  to: string,
+  storeId?: string
+): Promise<FactResult<InventoryFact>> {
+  const { data, error } = await fetchAllPages<InventoryRow>(lastId => {
+    let query = supabase
+      .from('f1_inventory_snapshots')
+      .select('id, snapshot_date, inventory_level')
+      .eq('product_id', productId)
+      .gte('snapshot_date', from)
+      .lte('snapshot_date', to);
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    return query.order('id', { ascending: true }).limit(PAGE_SIZE);
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return {
+    data: (data ?? [])
+      .map(item => ({
+        date: item.snapshot_date,
+        value: item.inventory_level
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    error: null
+  };
+}
+
+/**
+ * Stores with sales facts for a product between `from` and `to` (inclusive), sorted by id.
+ * Reads only the id and store of every sales row, paged by id, since PostgREST has no DISTINCT.
+ */
+export async function fetchSalesStoreIds(productId: string, from: string, to: string): Promise<FactResult<string>> {
+  const { data, error } = await fetchAllPages<Pick<SalesRow, 'id' | 'store_id'>>(lastId => {
+    let query = supabase
+      .from('f1_daily_sales')
+      .select('id, store_id')
+      .eq('product_id', productId)
+      .gte('sales_date', from)
+      .lte('sales_date', to);
+
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    return query.order('id', { ascending: true }).limit(PAGE_SIZE);
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: [...new Set((data ?? []).map(row => row.store_id))].sort(), error: null };
+}
+
+/**
+ * Daily sales of several products between `from` and `to` (inclusive), in no particular order.
+ * Paged by id, since the rows of many products easily exceed one response, and the product
+ * ids are sent IN_CHUNK_SIZE at a time, since they travel in the request URL.
+ */
+export async function fetchDailySalesForProducts(
+  productIds: string[],
+  from: string,
+  to: string
+): Promise<FactResult<ProductSalesFact>> {
+  const sales: ProductSalesFact[] = [];
+
+  for (let start = 0; start < productIds.length; start += IN_CHUNK_SIZE) {
+    const chunk = productIds.slice(start, start + IN_CHUNK_SIZE);
+    const { data, error } = await fetchAllPages<ProductSalesRow>(lastId => {
+      let query = supabase
+        .from('f1_daily_sales')
+        .select('id, product_id, store_id, sales_date, quantity')
+        .in('product_id', chunk)
+        .gte('sales_date', from)
+        .lte('sales_date', to);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      return query.order('id', { ascending: true }).limit(PAGE_SIZE);
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    sales.push(...(data ?? []).map(row => ({
+      productId: row.product_id,
+      storeId: row.store_id,
+      date: row.sales_date,
+      value: row.quantity
+    })));
+  }
+
+  return { data: sales, error: null };
+}
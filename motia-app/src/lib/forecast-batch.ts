@@ -0,0 +1,189 @@
+import type { InternalStateManager } from 'motia';
+import { getForecastStatus } from './forecast-status';
+import type { ForecastRunState, ForecastRunStatus } from './forecast-status';
+import type { Granularity } from './granularity';
+import type { IntervalMethod } from './models';
+import type { CensoringMethod } from './censoring';
+import type { ExplanationLocale } from './explanations';
+
+/**
+ * Forecast batches: many forecast_pipeline runs started together (e.g. the nightly schedule).
+ *
+ * A batch is split round-robin into `concurrency` lanes. Each lane runs its products one
+ * at a time: DispatchForecastBatch starts the next product of a lane when the lane's
+ * current run completes or fails. Lane progress lives in its own state record and only
+ * that lane's dispatches touch it, so concurrent lanes never overwrite each other.
+ */
+
+export const FORECAST_BATCH_GROUP = 'forecast-batches';
+export const FORECAST_BATCH_LANE_GROUP = 'forecast-batch-lanes';
+
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+export const MAX_BATCH_CONCURRENCY = 50;
+
+export interface ForecastBatchParameters {
+  timeRange: string;
+  asOf: string;
+  method?: string;
+  horizon?: number;
+  granularity?: Granularity;
+  intervalMethod?: IntervalMethod;
+  censoring?: CensoringMethod;
+  /** Language of forecast_rationale */
+  locale?: ExplanationLocale;
+}
+
+export interface ForecastBatchState {
+  batchId: string;
+  source: 'schedule' | 'api' | 'ingest';
+  storeId?: string;
+  concurrency: number;
+  parameters: ForecastBatchParameters;
+  productIds: string[];
+  createdAt: string;
+}
+
+export interface ForecastBatchLaneState {
+  batchId: string;
+  lane: number;
+  nextIndex: number;
+  /** requestId the lane is waiting on; undefined before the lane starts and after it finishes */
+  currentRequestId?: string;
+  /** productId -> requestId for every run this lane started */
+  requestIds: Record<string, string>;
+}
+
+/** Per-product view of a batch; 'pending' products have not been dispatched yet */
+export interface ForecastBatchProduct {
+  productId: string;
+  requestId?: string;
+  status: ForecastRunStatus | 'pending';
+  step?: string;
+  error?: string;
+}
+
+export type ForecastBatchStatus = 'running' | 'completed' | 'partially_failed' | 'failed';
+
+export interface ForecastBatchSummary {
+  status: ForecastBatchStatus;
+  total: number;
+  counts: Record<ForecastBatchProduct['status'], number>;
+  products: ForecastBatchProduct[];
+}
+
+export interface DispatchForecastBatchEvent {
+  batchId: string;
+  lane: number;
+  afterRequestId?: string;
+}
+
+export function createBatchId(): string {
+  return `batch-${new Date().toISOString().split('T')[0]}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function laneKey(batchId: string, lane: number): string {
+  return `${batchId}:${lane}`;
+}
+
+/**
+ * Products handled by `lane`, in dispatch order
+ */
+export function laneProductIds(batch: ForecastBatchState, lane: number): string[] {
+  return batch.productIds.filter((_, index) => index % batch.concurrency === lane);
+}
+
+/**
+ * Lanes that have at least one product
+ */
+export function activeLanes(batch: ForecastBatchState): number[] {
+  return Array.from({ length: Math.min(batch.concurrency, batch.productIds.length) }, (_, lane) => lane);
+}
+
+export async function saveForecastBatch(state: InternalStateManager, batch: ForecastBatchState): Promise<ForecastBatchState> {
+  return state.set(FORECAST_BATCH_GROUP, batch.batchId, batch);
+}
+
+export async function getForecastBatch(state: InternalStateManager, batchId: string): Promise<ForecastBatchState | null> {
+  return state.get<ForecastBatchState>(FORECAST_BATCH_GROUP, batchId);
+}
+
+export async function getForecastBatchLane(
+  state: InternalStateManager,
+  batchId: string,
+  lane: number
+): Promise<ForecastBatchLaneState> {
+  const existing = await state.get<ForecastBatchLaneState>(FORECAST_BATCH_LANE_GROUP, laneKey(batchId, lane));
+  return existing ?? { batchId, lane, nextIndex: 0, requestIds: {} };
+}
+
+export async function saveForecastBatchLane(
+  state: InternalStateManager,
+  laneState: ForecastBatchLaneState
+): Promise<ForecastBatchLaneState> {
+  return state.set(FORECAST_BATCH_LANE_GROUP, laneKey(laneState.batchId, laneState.lane), laneState);
+}
+
+/**
+ * productId -> requestId for every run the batch has started so far
+ */
+export async function getBatchRequestIds(state: InternalStateManager, batch: ForecastBatchState): Promise<Record<string, string>> {
+  const lanes = await Promise.all(activeLanes(batch).map(lane => getForecastBatchLane(state, batch.batchId, lane)));
+  return Object.assign({}, ...lanes.map(laneState => laneState.requestIds));
+}
+
+/**
+ * Aggregates the status of every product in a batch. A batch is finished once each
+ * product has completed or failed; failed products never hide the ones that succeeded.
+ */
+export async function summarizeForecastBatch(
+  state: InternalStateManager,
+  batch: ForecastBatchState
+): Promise<ForecastBatchSummary> {
+  const requestIds = await getBatchRequestIds(state, batch);
+
+  const products = await Promise.all(batch.productIds.map(async (productId): Promise<ForecastBatchProduct> => {
+    const requestId = requestIds[productId];
+    const runState = requestId ? await getForecastStatus(state, requestId) : null;
+
+    if (!requestId || !runState) {
+      return { productId, requestId, status: 'pending' };
+    }
+    return { productId, requestId, status: runState.status, step: runState.step, error: runState.error };
+  }));
+
+  const counts: ForecastBatchSummary['counts'] = {
+    pending: 0,
+    queued: 0,
+    loading_facts: 0,
+    checking_quality: 0,
+    generating: 0,
+    persisting: 0,
+    completed: 0,
+    failed: 0
+  };
+  for (const product of products) {
+    counts[product.status] += 1;
+  }
+
+  let status: ForecastBatchStatus = 'running';
+  if (counts.completed + counts.failed === products.length) {
+    if (counts.failed === 0) {
+      status = 'completed';
+    } else {
+      status = counts.completed === 0 ? 'failed' : 'partially_failed';
+    }
+  }
+
+  return { status, total: products.length, counts, products };
+}
+
+/**
+ * The dispatch event that advances a batch lane once `runState` has finished,
+ * or null when the run is not part of a batch
+ */
+export function nextBatchDispatch(runState: ForecastRunState): DispatchForecastBatchEvent | null {
+  if (runState.batchId === undefined || runState.batchLane === undefined) {
+    return null;
+  }
+  return { batchId: runState.batchId, lane: runState.batchLane, afterRequestId: runState.requestId };
+}
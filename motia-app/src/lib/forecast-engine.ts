@@ -0,0 +1,157 @@
+/**
+ * Deterministic forecast engine.
+ * Everything GenerateForecast computes from historical facts lives here, free of
+ * Motia context, so the same math can run in-process (e.g. backtests over historical
+ * windows) and always gives the same answer for the same inputs.
+ */
+
+import {
+  DEFAULT_INTERVAL_METHOD,
+  formatModelVersion,
+  predictWithIntervals,
+  resolveIntervalMethod,
+  selectModel
+} from './models';
+import type { IntervalMethod } from './models';
+import { DEFAULT_GRANULARITY, DEFAULT_HORIZON, forecastBuckets } from './granularity';
+import type { Granularity } from './granularity';
+import { applyCensoring, DEFAULT_CENSORING_METHOD } from './censoring';
+import type { CensorableValue, CensoringMethod, CensoringSummary } from './censoring';
+
+export const MOVING_AVERAGE_WINDOW = 7;
+
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+export interface ForecastEngineInput {
+  /** Days flagged `censored` (stock-outs) are imputed or excluded per `censoring` */
+  dailySales: CensorableValue[];
+  method: string;
+  confidenceLevel: number;
+  horizon?: number;
+  granularity?: Granularity;
+  intervalMethod?: IntervalMethod;
+  censoring?: CensoringMethod;
+  /** Day the forecast continues from; defaults to the last sales date */
+  lastObservedDate?: string;
+}
+
+export interface ForecastPeriod {
+  date: string;
+  periodStart: string;
+  periodEnd: string;
+  forecastValue: number;
+  confidenceInterval: { lower: number; upper: number };
+}
+
+export interface ForecastEngineOutput {
+  model: {
+    name: string;
+    version: string;
+    parameters: Record<string, number>;
+  };
+  intervalMethod: IntervalMethod;
+  horizon: number;
+  granularity: Granularity;
+  censoring: CensoringSummary;
+  forecastPeriods: ForecastPeriod[];
+  forecastSummary: {
+    averageForecast: number;
+    minForecast: number;
+    maxForecast: number;
+    trend: number;
+    movingAverage: number;
+    trendSlope: number;
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 7-day moving average of the most recent week and the first-to-last trend slope.
+ * These describe the history for explanations regardless of which model is fitted.
+ */
+export function describeHistory(dailySales: DailyValue[]): { movingAverage: number; trendSlope: number } {
+  const movingAverages: number[] = [];
+  for (let i = 0; i <= dailySales.length - MOVING_AVERAGE_WINDOW; i++) {
+    const window = dailySales.slice(i, i + MOVING_AVERAGE_WINDOW);
+    movingAverages.push(window.reduce((acc, day) => acc + day.value, 0) / MOVING_AVERAGE_WINDOW);
+  }
+  const movingAverage = movingAverages[movingAverages.length - 1] || 0;
+
+  const firstSales = dailySales[0]?.value || 0;
+  const lastSales = dailySales[dailySales.length - 1]?.value || 0;
+  const trendSlope = dailySales.length > 0 ? (lastSales - firstSales) / dailySales.length : 0;
+
+  return { movingAverage, trendSlope };
+}
+
+/**
+ * Fits the requested model and produces the forecast periods and summary.
+ * Throws when the method is unknown or the history is too short for it.
+ */
+export function runForecast(input: ForecastEngineInput): ForecastEngineOutput {
+  const horizon = input.horizon ?? DEFAULT_HORIZON;
+  const granularity = input.granularity ?? DEFAULT_GRANULARITY;
+  const { values: history, summary: censoring } = applyCensoring(
+    input.dailySales,
+    input.censoring ?? DEFAULT_CENSORING_METHOD
+  );
+  const salesValues = history.map(sale => sale.value);
+  const lastObservedDate = input.lastObservedDate ?? input.dailySales[input.dailySales.length - 1]?.date;
+
+  if (!lastObservedDate) {
+    throw new Error('Cannot forecast without any daily sales');
+  }
+
+  const fittedModel = selectModel(input.method, salesValues.length).fit(salesValues);
+  const intervalMethod = resolveIntervalMethod(fittedModel, input.intervalMethod ?? DEFAULT_INTERVAL_METHOD);
+  const buckets = forecastBuckets(lastObservedDate, horizon, granularity);
+  const predictions = predictWithIntervals(
+    fittedModel,
+    salesValues,
+    horizon,
+    input.confidenceLevel,
+    intervalMethod,
+    buckets.map(bucket => bucket.days)
+  );
+
+  const forecastPeriods = buckets.map((bucket, i) => ({
+    date: bucket.date,
+    periodStart: bucket.periodStart,
+    periodEnd: bucket.periodEnd,
+    forecastValue: round2(predictions[i].value),
+    confidenceInterval: {
+      lower: round2(predictions[i].lower),
+      upper: round2(predictions[i].upper)
+    }
+  }));
+
+  const forecastValues = forecastPeriods.map(p => p.forecastValue);
+  const { movingAverage, trendSlope } = describeHistory(history);
+
+  return {
+    model: {
+      name: fittedModel.name,
+      version: formatModelVersion(fittedModel),
+      parameters: fittedModel.parameters
+    },
+    intervalMethod,
+    horizon,
+    granularity,
+    censoring,
+    forecastPeriods,
+    forecastSummary: {
+      averageForecast: round2(forecastValues.reduce((a, b) => a + b, 0) / forecastValues.length),
+      minForecast: Math.min(...forecastValues),
+      maxForecast: Math.max(...forecastValues),
+      trend: round2(forecastValues[forecastValues.length - 1] - forecastValues[0]),
+      movingAverage,
+      trendSlope
+    }
+  };
+}
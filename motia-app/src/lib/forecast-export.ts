@@ -0,0 +1,264 @@
+/**
+ * Flat-file export of persisted forecasts (f1_forecast_results joined with f1_products and
+ * f1_stores) as CSV, NDJSON or XLSX.
+ *
+ * Rows are read a page at a time (keyset on id) and each page is encoded and written to the
+ * output before the next is read, so an export of any size holds one page at a time.
+ */
+
+import type { Writable } from 'stream';
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { createXlsxWriter } from './xlsx';
+import { writeChunk } from './output';
+import type { ExplanationLocale } from './explanations';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export const exportFormatSchema = z.enum(EXPORT_FORMATS);
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Identify what each row forecasts; always exported, in this order
+export const KEY_COLUMNS = [
+  'forecast_date',
+  'period_start',
+  'period_end',
+  'granularity',
+  'aggregation_level',
+  'store_id',
+  'store_name',
+  'product_id',
+  'sku',
+  'product_name',
+  'request_id'
+] as const;
+
+export const VALUE_COLUMNS = [
+  'forecast_quantity',
+  'forecast_lower',
+  'forecast_upper',
+  'confidence_level',
+  'interval_method',
+  'model_version',
+  'reconciliation_method',
+  'forecast_rationale',
+  'data_quality_warnings',
+  'created_at'
+] as const;
+
+export type ValueColumn = typeof VALUE_COLUMNS[number];
+export type ExportColumn = typeof KEY_COLUMNS[number] | ValueColumn;
+export const valueColumnSchema = z.enum(VALUE_COLUMNS);
+
+export const DEFAULT_VALUE_COLUMNS: ValueColumn[] = ['forecast_quantity', 'forecast_lower', 'forecast_upper', 'model_version'];
+
+const PAGE_SIZE = 1000;
+
+export type ExportValue = string | number | string[] | null;
+export type ExportRecord = Record<ExportColumn, ExportValue>;
+
+export interface ForecastExportFilter {
+  storeIds?: string[];
+  productIds?: string[];
+  /** Inclusive range of forecast_date */
+  from?: string;
+  to?: string;
+  /** Only the rows written by this forecast run */
+  requestId?: string;
+}
+
+export interface ExportWriter {
+  /** Resolves once the encoded records have been accepted by the output */
+  write(records: ExportRecord[]): Promise<void>;
+  /** Writes what the format needs after the last record; the output is left open */
+  finish(): Promise<void>;
+}
+
+const SELECT = 'id, forecast_date, period_start, period_end, granularity, aggregation_level, store_id, product_id, sku, ' +
+  'forecast_run_id, request_id, forecast_quantity, forecast_lower, forecast_upper, confidence_level, interval_method, ' +
+  'model_version, reconciliation_method, forecast_rationale, forecast_rationales, data_quality_warnings, created_at, ' +
+  'f1_stores(name), f1_products(sku, product_name)';
+
+// numeric columns may arrive as strings, hence toNumber() below
+interface ExportRow {
+  id: string;
+  forecast_date: string;
+  period_start: string | null;
+  period_end: string | null;
+  granularity: string | null;
+  aggregation_level: string;
+  store_id: string | null;
+  product_id: string | null;
+  sku: string | null;
+  forecast_run_id: string | null;
+  request_id: string | null;
+  forecast_quantity: number | string;
+  forecast_lower: number | string | null;
+  forecast_upper: number | string | null;
+  confidence_level: number | string | null;
+  interval_method: string | null;
+  model_version: string;
+  reconciliation_method: string | null;
+  forecast_rationale: string | null;
+  forecast_rationales: Partial<Record<ExplanationLocale, { rationale?: string }>> | null;
+  data_quality_warnings: unknown;
+  created_at: string;
+  f1_stores: { name: string } | null;
+  f1_products: { sku: string; product_name: string } | null;
+}
+
+function filteredQuery(filter: ForecastExportFilter) {
+  let query = supabase.from('f1_forecast_results').select(SELECT);
+
+  if (filter.storeIds) {
+    query = query.in('store_id', filter.storeIds);
+  }
+  if (filter.productIds) {
+    query = query.in('product_id', filter.productIds);
+  }
+  if (filter.from) {
+    query = query.gte('forecast_date', filter.from);
+  }
+  if (filter.to) {
+    query = query.lte('forecast_date', filter.to);
+  }
+  if (filter.requestId) {
+    query = query.eq('forecast_run_id', filter.requestId);
+  }
+  return query;
+}
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * One page of export rows after `afterId`, ordered by id; `lastId` continues the export.
+ * With a `locale`, forecast_rationale is the rationale in that locale where the row has one.
+ */
+export async function fetchForecastExportPage(
+  filter: ForecastExportFilter,
+  afterId: string | null,
+  locale?: ExplanationLocale
+): Promise<{ data: ExportRecord[] | null; lastId: string | null; error: { message: string } | null }> {
+  let query = filteredQuery(filter);
+
+  if (afterId) {
+    query = query.gt('id', afterId);
+  }
+
+  const { data, error } = await query
+    .order('id', { ascending: true })
+    .limit(PAGE_SIZE)
+    .overrideTypes<ExportRow[], { merge: false }>();
+
+  if (error) {
+    return { data: null, lastId: null, error };
+  }
+
+  const rows = data ?? [];
+  const records = rows.map((row): ExportRecord => ({
+    forecast_date: row.forecast_date,
+    period_start: row.period_start,
+    period_end: row.period_end,
+    granularity: row.granularity,
+    aggregation_level: row.aggregation_level,
+    store_id: row.store_id,
+    store_name: row.f1_stores?.name ?? null,
+    product_id: row.product_id,
+    // SKU-total rows of hierarchical forecasts carry the SKU themselves
+    sku: row.sku ?? row.f1_products?.sku ?? null,
+    product_name: row.f1_products?.product_name ?? null,
+    request_id: row.forecast_run_id ?? row.request_id ?? null,
+    forecast_quantity: toNumber(row.forecast_quantity),
+    forecast_lower: toNumber(row.forecast_lower),
+    forecast_upper: toNumber(row.forecast_upper),
+    confidence_level: toNumber(row.confidence_level),
+    interval_method: row.interval_method ?? null,
+    model_version: row.model_version,
+    reconciliation_method: row.reconciliation_method ?? null,
+    forecast_rationale: (locale ? row.forecast_rationales?.[locale]?.rationale : undefined) ?? row.forecast_rationale ?? null,
+    data_quality_warnings: Array.isArray(row.data_quality_warnings) ? row.data_quality_warnings.map(String) : [],
+    created_at: row.created_at
+  }));
+
+  return {
+    data: records,
+    lastId: rows.length === PAGE_SIZE ? rows[rows.length - 1].id : null,
+    error: null
+  };
+}
+
+// Spreadsheet apps run a text cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: ExportValue): string {
+  if (value === null) {
+    return '';
+  }
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  // Numbers are left alone so negative values stay numeric
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function cellValue(value: ExportValue): string | number | null {
+  return Array.isArray(value) ? value.join('; ') : value;
+}
+
+/**
+ * Encoder for one export, writing to `output` as records arrive. Columns come out in the given
+ * order; list values (warnings) are joined with "; " in CSV and XLSX and kept as arrays in NDJSON.
+ */
+export function createExportWriter(format: ExportFormat, columns: ExportColumn[], output: Writable): ExportWriter {
+  if (format === 'xlsx') {
+    const sheet = createXlsxWriter('forecasts', output);
+    let header: ExportColumn[] | null = columns;
+
+    return {
+      async write(records) {
+        const rows = records.map(record => columns.map(column => cellValue(record[column])));
+        await sheet.addRows(header ? [header, ...rows] : rows);
+        header = null;
+      },
+      async finish() {
+        if (header) {
+          await sheet.addRows([header]);
+        }
+        await sheet.finish();
+      }
+    };
+  }
+
+  if (format === 'ndjson') {
+    return {
+      write: records => writeChunk(output, records
+        .map(record => JSON.stringify(Object.fromEntries(columns.map(column => [column, record[column]]))) + '\n')
+        .join('')),
+      finish: async () => undefined
+    };
+  }
+
+  // Byte order mark, so spreadsheet apps read the UTF-8 (e.g. Japanese product names) correctly
+  let header: string | null = '\uFEFF' + columns.join(',') + '\r\n';
+
+  return {
+    async write(records) {
+      const lines = records.map(record => columns.map(column => csvField(record[column])).join(',') + '\r\n').join('');
+      await writeChunk(output, (header ?? '') + lines);
+      header = null;
+    },
+    async finish() {
+      if (header) {
+        await writeChunk(output, header);
+      }
+    }
+  };
+}
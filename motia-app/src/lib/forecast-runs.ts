@@ -0,0 +1,245 @@
+/**
+ * Lineage of forecast runs (f1_forecast_runs).
+ *
+ * Steps collect what a run loaded, how it was configured and which model it fitted in the
+ * run's Motia status record as they go. The record is written to f1_forecast_runs before
+ * forecast rows are persisted (rows reference it through forecast_run_id) and again once the
+ * run completes or fails, so every persisted forecast can be traced back to its inputs and
+ * re-executed from them.
+ */
+
+import { createHash } from 'crypto';
+import type { InternalStateManager, Logger } from 'motia';
+import { supabase } from './supabase';
+import { recordForecastStatus } from './forecast-status';
+import type { ForecastRunState, ForecastRunStatus } from './forecast-status';
+import type { RationaleSource } from './explanations';
+
+export type { RationaleSource } from './explanations';
+
+export interface ForecastLineage {
+  /** Window the facts were loaded for, resolved against asOf */
+  window?: { from: string; to: string; asOf: string };
+  facts?: {
+    salesRows: number;
+    inventoryRows: number;
+    /** sha256 of the loaded fact rows, see hashFacts */
+    hash: string;
+    /** Unset where stock-outs are not censored (hierarchical_forecast) */
+    stockoutThreshold?: number;
+  };
+  /** Parameters the forecast was generated with, as passed between the steps */
+  forecastParameters?: Record<string, unknown>;
+  model?: { name: string; version: string; parameters: Record<string, number> };
+  /** APP_VERSION of the deployment that generated the forecast */
+  appVersion?: string;
+  rationaleSource?: RationaleSource;
+}
+
+export interface ForecastRunRecord {
+  request_id: string;
+  parent_request_id: string | null;
+  batch_id: string | null;
+  product_id: string | null;
+  store_id: string | null;
+  time_range: string | null;
+  window_from: string | null;
+  window_to: string | null;
+  as_of: string | null;
+  sales_rows: number | null;
+  inventory_rows: number | null;
+  facts_hash: string | null;
+  stockout_threshold: number | null;
+  forecast_parameters: Record<string, unknown> | null;
+  model_name: string | null;
+  model_version: string | null;
+  model_parameters: Record<string, number> | null;
+  app_version: string | null;
+  rationale_source: RationaleSource | null;
+  step_timings: ForecastRunState['stepTimings'];
+  status: ForecastRunStatus;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoredForecastRow {
+  forecast_date: string;
+  forecast_quantity: number;
+  forecast_lower: number | null;
+  forecast_upper: number | null;
+  model_version: string;
+}
+
+export function appVersion(): string {
+  return process.env.APP_VERSION || 'dev';
+}
+
+/**
+ * Content hash of fact rows, independent of the order they were loaded in.
+ * Rows must be built the same way (same keys, same order) for equal facts to hash equally.
+ */
+export function hashFacts(tables: Record<string, object[]>): string {
+  const hash = createHash('sha256');
+
+  for (const name of Object.keys(tables).sort()) {
+    const rows = tables[name].map(row => JSON.stringify(row)).sort();
+    hash.update(`${name}\n${rows.join('\n')}\n`);
+  }
+
+  return hash.digest('hex');
+}
+
+function toRecord(run: ForecastRunState): ForecastRunRecord {
+  const { lineage } = run;
+
+  return {
+    request_id: run.requestId,
+    parent_request_id: run.parentRequestId ?? null,
+    batch_id: run.batchId ?? null,
+    product_id: run.productId ?? null,
+    store_id: run.storeId ?? null,
+    time_range: run.timeRange ?? null,
+    window_from: lineage?.window?.from ?? null,
+    window_to: lineage?.window?.to ?? null,
+    as_of: lineage?.window?.asOf ?? null,
+    sales_rows: lineage?.facts?.salesRows ?? null,
+    inventory_rows: lineage?.facts?.inventoryRows ?? null,
+    facts_hash: lineage?.facts?.hash ?? null,
+    stockout_threshold: lineage?.facts?.stockoutThreshold ?? null,
+    forecast_parameters: lineage?.forecastParameters ?? null,
+    model_name: lineage?.model?.name ?? null,
+    model_version: lineage?.model?.version ?? null,
+    model_parameters: lineage?.model?.parameters ?? null,
+    app_version: lineage?.appVersion ?? null,
+    rationale_source: lineage?.rationaleSource ?? null,
+    step_timings: run.stepTimings ?? [],
+    status: run.status,
+    error: run.error ?? null,
+    created_at: run.createdAt,
+    updated_at: run.updatedAt
+  };
+}
+
+/**
+ * Writes (or overwrites) the f1_forecast_runs row of a run from its status record
+ */
+export async function saveForecastRun(run: ForecastRunState): Promise<{ error: { message: string } | null }> {
+  const { error } = await supabase
+    .from('f1_forecast_runs')
+    .upsert(toRecord(run), { onConflict: 'request_id' });
+
+  return { error };
+}
+
+/**
+ * Records a completed or failed status and writes the run's lineage row.
+ * The run's outcome is already decided, so a failed lineage write is only logged.
+ */
+export async function finishForecastRun(
+  state: InternalStateManager,
+  requestId: string,
+  update: Parameters<typeof recordForecastStatus>[2],
+  logger: Logger
+): Promise<ForecastRunState> {
+  const runState = await recordForecastStatus(state, requestId, update);
+  const { error } = await saveForecastRun(runState);
+
+  if (error) {
+    logger.warn('Failed to record forecast run lineage', {
+      requestId,
+      status: runState.status,
+      error: error.message,
+      step: update.step
+    });
+  }
+
+  return runState;
+}
+
+export async function fetchForecastRun(
+  requestId: string
+): Promise<{ data: ForecastRunRecord | null; error: { message: string } | null }> {
+  const { data, error } = await supabase
+    .from('f1_forecast_runs')
+    .select('*')
+    .eq('request_id', requestId)
+    .maybeSingle();
+
+  return { data: error ? null : data, error };
+}
+
+/**
+ * Forecast rows a run persisted, oldest period first
+ */
+export async function fetchRunForecastRows(
+  requestId: string
+): Promise<{ data: StoredForecastRow[] | null; error: { message: string } | null }> {
+  const { data, error } = await supabase
+    .from('f1_forecast_results')
+    .select('forecast_date, forecast_quantity, forecast_lower, forecast_upper, model_version')
+    .eq('forecast_run_id', requestId)
+    .order('forecast_date', { ascending: true });
+
+  return { data: error ? null : data, error };
+}
+
+export interface PeriodValues {
+  quantity: number;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface PeriodDiff {
+  date: string;
+  stored: PeriodValues | null;
+  replayed: PeriodValues | null;
+  matches: boolean;
+}
+
+// Bounds are stored as numeric and may come back with float noise
+const BOUND_TOLERANCE = 1e-6;
+
+function sameBound(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  return Math.abs(Number(a) - Number(b)) <= BOUND_TOLERANCE;
+}
+
+/**
+ * Compares stored forecast rows with replayed periods date by date. Replayed quantities are
+ * rounded the way PersistForecastResult rounds them before comparing.
+ */
+export function diffForecastPeriods(
+  stored: StoredForecastRow[],
+  replayed: Array<{ date: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>
+): PeriodDiff[] {
+  const storedByDate = new Map(stored.map(row => [row.forecast_date, {
+    quantity: Number(row.forecast_quantity),
+    lower: row.forecast_lower === null ? null : Number(row.forecast_lower),
+    upper: row.forecast_upper === null ? null : Number(row.forecast_upper)
+  }]));
+  const replayedByDate = new Map(replayed.map(period => [period.date, {
+    quantity: Math.round(period.forecastValue),
+    lower: period.confidenceInterval.lower,
+    upper: period.confidenceInterval.upper
+  }]));
+
+  const dates = [...new Set([...storedByDate.keys(), ...replayedByDate.keys()])].sort();
+
+  return dates.map(date => {
+    const storedValues = storedByDate.get(date) ?? null;
+    const replayedValues = replayedByDate.get(date) ?? null;
+
+    return {
+      date,
+      stored: storedValues,
+      replayed: replayedValues,
+      matches: !!storedValues && !!replayedValues &&
+        storedValues.quantity === replayedValues.quantity &&
+        sameBound(storedValues.lower, replayedValues.lower) &&
+        sameBound(storedValues.upper, replayedValues.upper)
+    };
+  });
+}
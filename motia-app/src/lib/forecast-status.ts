@@ -0,0 +1,151 @@
+import type { InternalStateManager } from 'motia';
+import type { DataQualityReport } from './data-quality';
+import type { HierarchySummary } from './hierarchy';
+import type { ForecastLineage } from './forecast-runs';
+
+/**
+ * Motia state group holding one progress record per forecast requestId
+ */
+export const FORECAST_STATUS_GROUP = 'forecast-status';
+
+export type ForecastRunStatus =
+  | 'queued'
+  | 'loading_facts'
+  | 'checking_quality'
+  | 'generating'
+  | 'persisting'
+  | 'completed'
+  | 'failed';
+
+export interface ForecastRunResult {
+  forecastPeriods: Array<{
+    date: string;
+    periodStart?: string;
+    periodEnd?: string;
+    forecastValue: number;
+    confidenceInterval: { lower: number; upper: number };
+  }>;
+  forecastSummary: Record<string, unknown>;
+  /** Stock-out days found in the history and how they were treated */
+  censoring?: { method: string; censoredDays: number; adjustedDays: number };
+  forecastRationale: string;
+  /** The rationale in every locale, e.g. { en: '...', ja: '...' } */
+  forecastRationales?: Record<string, string>;
+}
+
+export interface StepTiming {
+  step: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+export interface ForecastRunState {
+  requestId: string;
+  productId?: string;
+  /** Store the run forecasts; unset on a chain-level (all stores) run */
+  storeId?: string;
+  timeRange?: string;
+  /** Chain-level run that started this store-level run */
+  parentRequestId?: string;
+  /** On a chain-level run: storeId -> requestId of each store-level run started so far */
+  storeRuns?: Record<string, string>;
+  /** Set when the run was started as part of a forecast batch */
+  batchId?: string;
+  batchLane?: number;
+  status: ForecastRunStatus;
+  step?: string;
+  error?: string;
+  /** Report from CheckDataQuality; on a blocked run it explains the failure */
+  dataQuality?: DataQualityReport;
+  /** Set on hierarchical_forecast runs */
+  hierarchy?: HierarchySummary;
+  /** Inputs, model and versions behind the run, persisted to f1_forecast_runs */
+  lineage?: ForecastLineage;
+  /** One entry per step the run entered, in order */
+  stepTimings?: StepTiming[];
+  createdAt: string;
+  updatedAt: string;
+  result?: ForecastRunResult;
+}
+
+export function createRequestId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
+
+function closeTiming(timing: StepTiming, now: string): StepTiming {
+  return {
+    ...timing,
+    finishedAt: now,
+    durationMs: new Date(now).getTime() - new Date(timing.startedAt).getTime()
+  };
+}
+
+/**
+ * Entering a new step closes the open one; a completed or failed run closes the last step
+ */
+function trackStepTimings(
+  timings: StepTiming[],
+  step: string | undefined,
+  status: ForecastRunStatus,
+  now: string
+): StepTiming[] {
+  const next = [...timings];
+  const last = next[next.length - 1];
+  const open = last && !last.finishedAt;
+
+  if (step && (!open || last.step !== step)) {
+    if (open) {
+      next[next.length - 1] = closeTiming(last, now);
+    }
+    next.push({ step, startedAt: now });
+  }
+
+  const current = next[next.length - 1];
+  if ((status === 'completed' || status === 'failed') && current && !current.finishedAt) {
+    next[next.length - 1] = closeTiming(current, now);
+  }
+
+  return next;
+}
+
+/**
+ * Records pipeline progress for a forecast request in Motia state.
+ * Each call merges into the existing record so earlier fields (productId, createdAt)
+ * survive later updates from downstream steps; lineage is merged field by field.
+ */
+export async function recordForecastStatus(
+  state: InternalStateManager,
+  requestId: string,
+  update: Partial<Omit<ForecastRunState, 'requestId' | 'createdAt' | 'updatedAt' | 'stepTimings'>> & { status: ForecastRunStatus }
+): Promise<ForecastRunState> {
+  const now = new Date().toISOString();
+  const existing = await state.get<ForecastRunState>(FORECAST_STATUS_GROUP, requestId);
+
+  const next: ForecastRunState = {
+    ...existing,
+    ...update,
+    requestId,
+    lineage: update.lineage ? { ...existing?.lineage, ...update.lineage } : existing?.lineage,
+    stepTimings: trackStepTimings(existing?.stepTimings ?? [], update.step, update.status, now),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  // A retried step that succeeds should not keep reporting the previous failure
+  if (update.status !== 'failed') {
+    delete next.error;
+  }
+
+  return state.set(FORECAST_STATUS_GROUP, requestId, next);
+}
+
+/**
+ * Reads the progress record for a forecast request, or null if the requestId is unknown
+ */
+export async function getForecastStatus(
+  state: InternalStateManager,
+  requestId: string
+): Promise<ForecastRunState | null> {
+  return state.get<ForecastRunState>(FORECAST_STATUS_GROUP, requestId);
+}
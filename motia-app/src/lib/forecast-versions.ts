@@ -0,0 +1,233 @@
+/**
+ * Versioned reads of f1_forecast_results.
+ *
+ * Forecast rows are never overwritten: every run adds its own rows, so one target (a product's
+ * store- or chain-level forecast for a date at a granularity) collects a version per run.
+ * The latest version is the one created last; restricting created_at gives the forecast as it
+ * looked at an earlier time. The database picks the latest versions (f1_latest_forecast_versions),
+ * so only one row per target is read.
+ */
+
+import { supabase } from './supabase';
+
+const PAGE_SIZE = 1000;
+
+const VERSION_COLUMNS = 'id, forecast_date, period_start, period_end, granularity, store_id, aggregation_level, forecast_quantity, forecast_lower, forecast_upper, confidence_level, model_version, forecast_run_id, request_id, created_at';
+
+export interface ForecastVersionFilter {
+  productId: string;
+  storeId?: string;
+  /** Inclusive range of forecast_date */
+  from?: string;
+  to?: string;
+  granularity?: string;
+  /** Inclusive upper bound on created_at (ISO timestamp) */
+  createdAtMost?: string;
+  /** Only the latest version of each target (created by createdAtMost), instead of every version */
+  latest?: boolean;
+}
+
+export interface ForecastVersion {
+  forecastDate: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  granularity: string;
+  /** Null on chain-level rows */
+  storeId: string | null;
+  aggregationLevel: string;
+  forecastQuantity: number;
+  forecastLower: number | null;
+  forecastUpper: number | null;
+  confidenceLevel: number | null;
+  modelVersion: string;
+  /** Run that wrote the row; null on rows written before runs were recorded */
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface ForecastTargetHistory {
+  forecastDate: string;
+  storeId: string | null;
+  aggregationLevel: string;
+  granularity: string;
+  /** Oldest first */
+  versions: ForecastVersion[];
+}
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+interface VersionRow {
+  id: string;
+  forecast_date: string;
+  period_start: string | null;
+  period_end: string | null;
+  granularity: string;
+  store_id: string | null;
+  aggregation_level: string;
+  forecast_quantity: number | string;
+  forecast_lower: number | string | null;
+  forecast_upper: number | string | null;
+  confidence_level: number | string | null;
+  model_version: string;
+  forecast_run_id: string | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+/** The filter methods shared by table and function queries */
+interface FilterableQuery<Q> {
+  eq(column: string, value: string): Q;
+  gte(column: string, value: string): Q;
+  lte(column: string, value: string): Q;
+  gt(column: string, value: string): Q;
+}
+
+function filtered<Q extends FilterableQuery<Q>>(query: Q, filter: ForecastVersionFilter, afterId: string | null): Q {
+  let result = query;
+
+  if (filter.storeId) {
+    result = result.eq('store_id', filter.storeId);
+  }
+  if (filter.from) {
+    result = result.gte('forecast_date', filter.from);
+  }
+  if (filter.to) {
+    result = result.lte('forecast_date', filter.to);
+  }
+  if (filter.granularity) {
+    result = result.eq('granularity', filter.granularity);
+  }
+  if (afterId) {
+    result = result.gt('id', afterId);
+  }
+  return result;
+}
+
+/**
+ * One page of rows in id order, after `afterId`
+ */
+async function fetchVersionPage(
+  filter: ForecastVersionFilter,
+  afterId: string | null
+): Promise<{ data: VersionRow[] | null; error: { message: string } | null }> {
+  if (filter.latest) {
+    // created_at has to be restricted before the latest version is picked, so it is a parameter
+    const query = supabase
+      .rpc('f1_latest_forecast_versions', {
+        p_product_id: filter.productId,
+        p_created_at_most: filter.createdAtMost ?? null
+      })
+      .select(VERSION_COLUMNS);
+
+    const { data, error } = await filtered(query, filter, afterId)
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    // Without a generated schema the client cannot tell that the function returns a set of rows
+    const rows: VersionRow[] | null = data === null || Array.isArray(data) ? data : [data];
+    return { data: rows, error };
+  }
+
+  let query = supabase
+    .from('f1_forecast_results')
+    .select(VERSION_COLUMNS)
+    .eq('product_id', filter.productId);
+
+  if (filter.createdAtMost) {
+    query = query.lte('created_at', filter.createdAtMost);
+  }
+
+  return filtered(query, filter, afterId)
+    .order('id', { ascending: true })
+    .limit(PAGE_SIZE)
+    .overrideTypes<VersionRow[], { merge: false }>();
+}
+
+/**
+ * The versions of a product's store- and chain-level rows matching the filter: every version,
+ * or with `latest` the latest of each target. Hierarchical SKU, store and grand totals have no
+ * product and are never returned.
+ */
+export async function fetchForecastVersions(
+  filter: ForecastVersionFilter
+): Promise<{ data: ForecastVersion[] | null; error: { message: string } | null }> {
+  const versions: ForecastVersion[] = [];
+  let lastId: string | null = null;
+
+  for (;;) {
+    const { data, error } = await fetchVersionPage(filter, lastId);
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const rows = data ?? [];
+    versions.push(...rows.map(row => ({
+      forecastDate: row.forecast_date,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      granularity: row.granularity,
+      storeId: row.store_id,
+      aggregationLevel: row.aggregation_level,
+      forecastQuantity: Number(row.forecast_quantity),
+      forecastLower: toNumber(row.forecast_lower),
+      forecastUpper: toNumber(row.forecast_upper),
+      confidenceLevel: toNumber(row.confidence_level),
+      modelVersion: row.model_version,
+      requestId: row.forecast_run_id ?? row.request_id ?? null,
+      createdAt: row.created_at
+    })));
+
+    if (rows.length < PAGE_SIZE) {
+      return { data: versions, error: null };
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+function targetKey(version: ForecastVersion): string {
+  return `${version.storeId ?? 'chain'}|${version.granularity}|${version.forecastDate}`;
+}
+
+function compareTargets(a: { forecastDate: string; storeId: string | null; granularity: string }, b: typeof a): number {
+  return a.forecastDate.localeCompare(b.forecastDate) ||
+    (a.storeId ?? '').localeCompare(b.storeId ?? '') ||
+    a.granularity.localeCompare(b.granularity);
+}
+
+function compareCreated(a: ForecastVersion, b: ForecastVersion): number {
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+/**
+ * Versions ordered by date, then store (chain first), then granularity
+ */
+export function sortByTarget(versions: ForecastVersion[]): ForecastVersion[] {
+  return [...versions].sort(compareTargets);
+}
+
+/**
+ * All versions of each target, oldest first, ordered like sortByTarget
+ */
+export function versionHistory(versions: ForecastVersion[]): ForecastTargetHistory[] {
+  const byTarget = new Map<string, ForecastTargetHistory>();
+
+  for (const version of versions) {
+    const key = targetKey(version);
+    const target = byTarget.get(key) ?? {
+      forecastDate: version.forecastDate,
+      storeId: version.storeId,
+      aggregationLevel: version.aggregationLevel,
+      granularity: version.granularity,
+      versions: []
+    };
+    target.versions.push(version);
+    byTarget.set(key, target);
+  }
+
+  return [...byTarget.values()]
+    .map(target => ({ ...target, versions: [...target.versions].sort(compareCreated) }))
+    .sort(compareTargets);
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { addDays } from './dates';
+
+/**
+ * Forecast horizon and granularity.
+ * Models always forecast `horizon` daily steps; weekly and monthly results are
+ * roll-ups of those days into ISO weeks (Monday to Sunday) and calendar months.
+ * Buckets at either end of the horizon may be partial; periodStart/periodEnd
+ * and `days` always describe the days actually covered. Bucket intervals come from the
+ * model (predictWithIntervals with the bucket sizes), since daily errors are correlated.
+ */
+
+export const GRANULARITIES = ['daily', 'weekly', 'monthly'] as const;
+export type Granularity = typeof GRANULARITIES[number];
+
+export const DEFAULT_HORIZON = 5;
+export const MAX_HORIZON = 366;
+export const DEFAULT_GRANULARITY: Granularity = 'daily';
+
+export const horizonSchema = z.number().int().min(1).max(MAX_HORIZON);
+export const granularitySchema = z.enum(GRANULARITIES);
+
+export interface ForecastBucket {
+  date: string;
+  periodStart: string;
+  periodEnd: string;
+  days: number;
+}
+
+/**
+ * First day of the bucket containing `isoDate`
+ */
+export function bucketStart(isoDate: string, granularity: Granularity): string {
+  if (granularity === 'monthly') {
+    return `${isoDate.slice(0, 7)}-01`;
+  }
+  if (granularity === 'weekly') {
+    const dayOfWeek = new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+    return addDays(isoDate, -((dayOfWeek + 6) % 7));
+  }
+  return isoDate;
+}
+
+/**
+ * The `granularity` buckets covering `horizon` daily steps, starting the day after
+ * `lastObservedDate`. Their `days` add up to `horizon`.
+ */
+export function forecastBuckets(
+  lastObservedDate: string,
+  horizon: number,
+  granularity: Granularity
+): ForecastBucket[] {
+  const buckets: ForecastBucket[] = [];
+
+  for (let i = 0; i < horizon; i++) {
+    const date = addDays(lastObservedDate, i + 1);
+    const current = buckets[buckets.length - 1];
+
+    if (current && bucketStart(current.periodStart, granularity) === bucketStart(date, granularity)) {
+      current.periodEnd = date;
+      current.days += 1;
+      continue;
+    }
+
+    buckets.push({ date, periodStart: date, periodEnd: date, days: 1 });
+  }
+
+  return buckets;
+}
+
+/**
+ * Sums daily values (one per step of the horizon) per bucket
+ */
+export function sumByBucket(dailyValues: number[], buckets: ForecastBucket[]): number[] {
+  let offset = 0;
+  return buckets.map(bucket => {
+    const sum = dailyValues.slice(offset, offset + bucket.days).reduce((acc, value) => acc + value, 0);
+    offset += bucket.days;
+    return sum;
+  });
+}
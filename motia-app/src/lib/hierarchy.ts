@@ -0,0 +1,319 @@
+/**
+ * Hierarchical forecasting over the f1_stores → f1_products hierarchy.
+ *
+ * Bottom series are products, i.e. one SKU in one store. Forecasts are made at four
+ * levels: SKU-store, SKU total (one SKU across stores), store total (every selected SKU
+ * of a store) and the grand total. Reconciliation then makes them coherent:
+ *
+ * - bottom_up : SKU-store base forecasts, summed upwards
+ * - top_down  : the grand-total base forecast, split by each SKU-store's share of historical sales
+ * - ols       : S (SᵀS)⁻¹ Sᵀ ŷ over the base forecasts of every level
+ * - mint      : S (SᵀW⁻¹S)⁻¹ SᵀW⁻¹ ŷ, W the shrinkage estimate of the covariance of the
+ *               in-sample one-step errors (Schäfer-Strimmer, as in Wickramasuriya et al.)
+ *
+ * The reconciled SKU-store forecasts are clipped at zero and rounded per period exactly as
+ * they are persisted; every aggregate is the sum of those, so the stored numbers add up at
+ * every level.
+ */
+
+import { z } from 'zod';
+import { formatModelVersion, predictWithIntervals, selectModel } from './models';
+import type { IntervalMethod } from './models';
+import { forecastBuckets, sumByBucket } from './granularity';
+import type { Granularity } from './granularity';
+import type { ForecastPeriod } from './forecast-engine';
+
+export const RECONCILIATION_METHODS = ['bottom_up', 'top_down', 'ols', 'mint'] as const;
+export type ReconciliationMethod = typeof RECONCILIATION_METHODS[number];
+export const DEFAULT_RECONCILIATION_METHOD: ReconciliationMethod = 'bottom_up';
+export const reconciliationMethodSchema = z.enum(RECONCILIATION_METHODS);
+
+/** Most SKU-store series one hierarchy may hold; OLS and MinT solve systems of this size */
+export const MAX_HIERARCHY_SERIES = 200;
+
+/**
+ * Matches f1_forecast_results.aggregation_level: 'store' is a SKU in one store
+ */
+export type HierarchyLevel = 'store' | 'sku_total' | 'store_total' | 'total';
+
+export interface BottomSeriesKey {
+  productId: string;
+  storeId: string;
+  sku: string;
+}
+
+export interface HierarchyNode {
+  level: HierarchyLevel;
+  productId: string | null;
+  storeId: string | null;
+  sku: string | null;
+  /** Indices of the bottom series this node sums */
+  members: number[];
+}
+
+export interface HierarchyForecastInput {
+  /** Daily values of each SKU-store series over the same days, oldest first */
+  series: Array<BottomSeriesKey & { values: number[] }>;
+  /** Last day of the series; every forecast starts the day after */
+  lastObservedDate: string;
+  method: string;
+  reconciliation: ReconciliationMethod;
+  confidenceLevel: number;
+  horizon: number;
+  granularity: Granularity;
+  intervalMethod: IntervalMethod;
+}
+
+/** Shape of a hierarchical run, recorded in its forecast status */
+export interface HierarchySummary {
+  reconciliation: ReconciliationMethod;
+  /** SKU-store series forecast; matching products without sales in the window are skipped */
+  series: number;
+  stores: number;
+  skus: number;
+  skippedProducts: number;
+}
+
+export interface HierarchyNodeForecast {
+  level: HierarchyLevel;
+  productId: string | null;
+  storeId: string | null;
+  sku: string | null;
+  /** Version of the node's own base model, before reconciliation */
+  modelVersion: string;
+  forecastPeriods: ForecastPeriod[];
+}
+
+const PIVOT_EPSILON = 1e-12;
+// Floor for a series whose in-sample errors are all zero, so W stays invertible
+const MIN_ERROR_VARIANCE = 1e-6;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Nodes of every level, top first: total, store totals, SKU totals, then the bottom series in input order
+ */
+export function buildHierarchy(bottom: BottomSeriesKey[]): HierarchyNode[] {
+  const byStore = new Map<string, number[]>();
+  const bySku = new Map<string, number[]>();
+
+  bottom.forEach((series, index) => {
+    byStore.set(series.storeId, [...(byStore.get(series.storeId) ?? []), index]);
+    bySku.set(series.sku, [...(bySku.get(series.sku) ?? []), index]);
+  });
+
+  return [
+    { level: 'total', productId: null, storeId: null, sku: null, members: bottom.map((_, index) => index) },
+    ...[...byStore.keys()].sort().map((storeId): HierarchyNode => ({
+      level: 'store_total', productId: null, storeId, sku: null, members: byStore.get(storeId) ?? []
+    })),
+    ...[...bySku.keys()].sort().map((sku): HierarchyNode => ({
+      level: 'sku_total', productId: null, storeId: null, sku, members: bySku.get(sku) ?? []
+    })),
+    ...bottom.map((series, index): HierarchyNode => ({
+      level: 'store', productId: series.productId, storeId: series.storeId, sku: series.sku, members: [index]
+    }))
+  ];
+}
+
+function sumMembers(members: number[], rows: number[][], length: number): number[] {
+  return Array.from({ length }, (_, t) => members.reduce((sum, index) => sum + rows[index][t], 0));
+}
+
+/**
+ * Solves A·X = B by Gaussian elimination with partial pivoting
+ */
+function solve(a: number[][], b: number[][]): number[][] {
+  const n = a.length;
+  const m = a.map(row => [...row]);
+  const x = b.map(row => [...row]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(m[pivot][col]) < PIVOT_EPSILON) {
+      throw new Error('Reconciliation failed: the hierarchy system is singular');
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    [x[col], x[pivot]] = [x[pivot], x[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col || m[row][col] === 0) {
+        continue;
+      }
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+      for (let k = 0; k < x[row].length; k++) {
+        x[row][k] -= factor * x[col][k];
+      }
+    }
+  }
+
+  return x.map((row, i) => row.map(value => value / m[i][i]));
+}
+
+function transpose(matrix: number[][]): number[][] {
+  return matrix.length === 0 ? [] : matrix[0].map((_, j) => matrix.map(row => row[j]));
+}
+
+function multiply(a: number[][], b: number[][]): number[][] {
+  return a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+}
+
+/**
+ * Shrinkage estimate of the error covariance: the sample covariance pulled towards its
+ * diagonal by the Schäfer-Strimmer intensity. Series errors are aligned on their most recent
+ * `T` values, since models with a warm-up produce fewer in-sample errors.
+ */
+function shrinkageCovariance(residuals: number[][]): number[][] {
+  const length = Math.min(...residuals.map(series => series.length));
+  if (length < 2) {
+    throw new Error('mint reconciliation needs at least 2 in-sample one-step errors per series');
+  }
+
+  const errors = residuals.map(series => series.slice(series.length - length));
+  const n = errors.length;
+  const covariance = errors.map(a => errors.map(b => a.reduce((sum, value, t) => sum + value * b[t], 0) / length));
+  const variances = covariance.map((row, i) => Math.max(row[i], MIN_ERROR_VARIANCE));
+  const scaled = errors.map((series, i) => series.map(value => value / Math.sqrt(variances[i])));
+
+  let varianceSum = 0;
+  let correlationSum = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i === j) {
+        continue;
+      }
+      let products = 0;
+      let squares = 0;
+      for (let t = 0; t < length; t++) {
+        const product = scaled[i][t] * scaled[j][t];
+        products += product;
+        squares += product * product;
+      }
+      varianceSum += (squares - (products * products) / length) / (length * (length - 1));
+      correlationSum += (products / length) ** 2;
+    }
+  }
+  const lambda = correlationSum > 0 ? Math.min(Math.max(varianceSum / correlationSum, 0), 1) : 1;
+
+  return covariance.map((row, i) => row.map((value, j) => (i === j ? variances[i] : (1 - lambda) * value)));
+}
+
+/**
+ * Reconciled SKU-store forecasts (bottom × horizon) for the base forecasts of every node
+ */
+export function reconcileBottom(
+  method: ReconciliationMethod,
+  nodes: HierarchyNode[],
+  base: number[][],
+  history: number[][],
+  residuals: number[][]
+): number[][] {
+  const bottomIndices = nodes.flatMap((node, index) => (node.level === 'store' ? [index] : []));
+
+  if (method === 'bottom_up') {
+    return bottomIndices.map(index => [...base[index]]);
+  }
+
+  if (method === 'top_down') {
+    const totalIndex = nodes.findIndex(node => node.level === 'total');
+    const totalHistory = history[totalIndex].reduce((a, b) => a + b, 0);
+    // Proportions of historical totals; with no sales at all the total is split evenly
+    const shares = bottomIndices.map(index => (totalHistory > 0
+      ? history[index].reduce((a, b) => a + b, 0) / totalHistory
+      : 1 / bottomIndices.length));
+    return shares.map(share => base[totalIndex].map(value => share * value));
+  }
+
+  // Nodes summing the same series (a SKU sold in one store, a store with one SKU) would make
+  // W singular; only the last of them, which is the bottom node when there is one, takes part
+  const lastByMembers = new Map(nodes.map((node, index) => [node.members.join(','), index]));
+  const distinct = [...lastByMembers.values()].sort((a, b) => a - b);
+
+  const summing = distinct.map(index => bottomIndices.map((_, j) => (nodes[index].members.includes(j) ? 1 : 0)));
+  const distinctBase = distinct.map(index => base[index]);
+  // W⁻¹S, computed by solving W·X = S; for OLS W = I
+  const weighted = method === 'mint'
+    ? solve(shrinkageCovariance(distinct.map(index => residuals[index])), summing)
+    : summing;
+  const normal = multiply(transpose(summing), weighted);
+  return solve(normal, multiply(transpose(weighted), distinctBase));
+}
+
+/**
+ * Fits a base model per node, reconciles and rolls the result up to `granularity`.
+ * Interval bounds keep the width of each node's base interval around the reconciled value.
+ */
+export function forecastHierarchy(input: HierarchyForecastInput): HierarchyNodeForecast[] {
+  const bottomValues = input.series.map(series => series.values);
+  const days = Math.min(...bottomValues.map(values => values.length));
+  const nodes = buildHierarchy(input.series);
+  const history = nodes.map(node => sumMembers(node.members, bottomValues, days));
+
+  const buckets = forecastBuckets(input.lastObservedDate, input.horizon, input.granularity);
+  const fits = history.map(values => {
+    const fitted = selectModel(input.method, values.length).fit(values);
+    return {
+      fitted,
+      // Base intervals per bucket, from the summed errors of the bucket's days
+      periods: predictWithIntervals(
+        fitted,
+        values,
+        input.horizon,
+        input.confidenceLevel,
+        input.intervalMethod,
+        buckets.map(bucket => bucket.days)
+      )
+    };
+  });
+
+  const base = fits.map(fit => fit.fitted.forecast(input.horizon).map(value => Math.max(0, value)));
+  const bottom = reconcileBottom(
+    input.reconciliation,
+    nodes,
+    base,
+    history,
+    fits.map(fit => fit.fitted.residuals)
+  ).map(values => values.map(value => Math.max(0, value)));
+
+  // Bottom periods are rounded as persisted; aggregates sum the rounded bottom periods
+  const bottomPeriods = bottom.map(daily => sumByBucket(daily, buckets).map(value => Math.round(value)));
+
+  return nodes.map((node, index) => {
+    const reconciled = sumByBucket(sumMembers(node.members, bottom, input.horizon), buckets);
+
+    const forecastPeriods = buckets.map((bucket, p) => {
+      const period = fits[index].periods[p];
+      const shift = reconciled[p] - period.value;
+      const forecastValue = node.members.reduce((sum, member) => sum + bottomPeriods[member][p], 0);
+      return {
+        date: bucket.date,
+        periodStart: bucket.periodStart,
+        periodEnd: bucket.periodEnd,
+        forecastValue,
+        confidenceInterval: {
+          lower: round2(Math.min(Math.max(0, period.lower + shift), forecastValue)),
+          upper: round2(Math.max(Math.max(0, period.upper + shift), forecastValue))
+        }
+      };
+    });
+
+    return {
+      level: node.level,
+      productId: node.productId,
+      storeId: node.storeId,
+      sku: node.sku,
+      modelVersion: formatModelVersion(fits[index].fitted),
+      forecastPeriods
+    };
+  });
+}
@@ -0,0 +1,159 @@
+import type { FittedModel, ForecastModel } from './types';
+import { mean } from '../statistics';
+
+export const SEASON_LENGTH = 7;
+
+/**
+ * Smoothing parameters are chosen by an exhaustive grid search over the in-sample
+ * one-step-ahead squared error. A fixed grid keeps the fit deterministic and cheap
+ * for the short daily series this pipeline works with.
+ */
+const FINE_GRID = range(0.05, 0.95, 0.05);
+const COARSE_GRID = range(0.1, 0.9, 0.1);
+
+function range(start: number, end: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = start; value <= end + 1e-9; value += step) {
+    values.push(Math.round(value * 100) / 100);
+  }
+  return values;
+}
+
+function sumOfSquares(residuals: number[]): number {
+  return residuals.reduce((acc, r) => acc + r * r, 0);
+}
+
+function runSimple(values: number[], alpha: number) {
+  let level = values[0] ?? 0;
+  const residuals: number[] = [];
+  for (let t = 1; t < values.length; t++) {
+    residuals.push(values[t] - level);
+    level = alpha * values[t] + (1 - alpha) * level;
+  }
+  return { level, residuals };
+}
+
+function runHolt(values: number[], alpha: number, beta: number) {
+  let level = values[0] ?? 0;
+  let trend = values.length > 1 ? values[1] - values[0] : 0;
+  const residuals: number[] = [];
+  for (let t = 1; t < values.length; t++) {
+    const predicted = level + trend;
+    residuals.push(values[t] - predicted);
+    const previousLevel = level;
+    level = alpha * values[t] + (1 - alpha) * predicted;
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+  }
+  return { level, trend, residuals };
+}
+
+function runHoltWinters(values: number[], alpha: number, beta: number, gamma: number, m: number) {
+  // Initialise from the first two seasons
+  const firstSeason = values.slice(0, m);
+  const secondSeason = values.slice(m, 2 * m);
+  let level = mean(firstSeason);
+  let trend = (mean(secondSeason) - level) / m;
+  const seasonals = firstSeason.map(value => value - level);
+
+  const residuals: number[] = [];
+  for (let t = m; t < values.length; t++) {
+    const seasonal = seasonals[t % m];
+    const predicted = level + trend + seasonal;
+    residuals.push(values[t] - predicted);
+    const previousLevel = level;
+    level = alpha * (values[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals[t % m] = gamma * (values[t] - level) + (1 - gamma) * seasonal;
+  }
+  return { level, trend, seasonals, residuals };
+}
+
+export const simpleExponentialSmoothing: ForecastModel = {
+  name: 'simple-exponential-smoothing',
+  description: 'Simple exponential smoothing (level only)',
+  minObservations: 2,
+  fit(values: number[]): FittedModel {
+    let best = { alpha: FINE_GRID[0], sse: Infinity };
+    for (const alpha of FINE_GRID) {
+      const sse = sumOfSquares(runSimple(values, alpha).residuals);
+      if (sse < best.sse) {
+        best = { alpha, sse };
+      }
+    }
+
+    const { level, residuals } = runSimple(values, best.alpha);
+    return {
+      name: 'simple-exponential-smoothing',
+      version: 1,
+      parameters: { alpha: best.alpha, level },
+      residuals,
+      forecast: horizon => Array.from({ length: horizon }, () => level),
+      errorWeights: horizon => Array.from({ length: Math.max(horizon - 1, 0) }, () => best.alpha)
+    };
+  }
+};
+
+export const holtLinear: ForecastModel = {
+  name: 'holt',
+  description: "Holt's linear exponential smoothing (level and trend)",
+  minObservations: 3,
+  fit(values: number[]): FittedModel {
+    let best = { alpha: FINE_GRID[0], beta: FINE_GRID[0], sse: Infinity };
+    for (const alpha of FINE_GRID) {
+      for (const beta of FINE_GRID) {
+        const sse = sumOfSquares(runHolt(values, alpha, beta).residuals);
+        if (sse < best.sse) {
+          best = { alpha, beta, sse };
+        }
+      }
+    }
+
+    const { level, trend, residuals } = runHolt(values, best.alpha, best.beta);
+    return {
+      name: 'holt',
+      version: 1,
+      parameters: { alpha: best.alpha, beta: best.beta, level, trend },
+      residuals,
+      forecast: horizon => Array.from({ length: horizon }, (_, i) => level + trend * (i + 1)),
+      errorWeights: horizon => Array.from({ length: Math.max(horizon - 1, 0) }, (_, i) => best.alpha * (1 + (i + 1) * best.beta))
+    };
+  }
+};
+
+export const holtWinters: ForecastModel = {
+  name: 'holt-winters',
+  description: 'Additive Holt-Winters exponential smoothing with weekly seasonality',
+  minObservations: 2 * SEASON_LENGTH,
+  fit(values: number[]): FittedModel {
+    const m = SEASON_LENGTH;
+    let best = { alpha: COARSE_GRID[0], beta: COARSE_GRID[0], gamma: COARSE_GRID[0], sse: Infinity };
+    for (const alpha of COARSE_GRID) {
+      for (const beta of COARSE_GRID) {
+        for (const gamma of COARSE_GRID) {
+          const sse = sumOfSquares(runHoltWinters(values, alpha, beta, gamma, m).residuals);
+          if (sse < best.sse) {
+            best = { alpha, beta, gamma, sse };
+          }
+        }
+      }
+    }
+
+    const { level, trend, seasonals, residuals } = runHoltWinters(values, best.alpha, best.beta, best.gamma, m);
+    const n = values.length;
+    return {
+      name: 'holt-winters',
+      version: 1,
+      parameters: { alpha: best.alpha, beta: best.beta, gamma: best.gamma, seasonLength: m, level, trend },
+      residuals,
+      forecast: horizon => Array.from({ length: horizon }, (_, i) => {
+        const h = i + 1;
+        return level + trend * h + seasonals[(n + i) % m];
+      }),
+      // Classic HW gamma maps to the state-space gamma as gamma * (1 - alpha)
+      errorWeights: horizon => Array.from({ length: Math.max(horizon - 1, 0) }, (_, i) => {
+        const j = i + 1;
+        return best.alpha * (1 + j * best.beta) + (j % m === 0 ? best.gamma * (1 - best.alpha) : 0);
+      })
+    };
+  }
+};
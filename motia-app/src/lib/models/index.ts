@@ -0,0 +1,89 @@
+/**
+ * Forecast model registry.
+ * GenerateForecast resolves forecastParameters.method here; adding a model means
+ * implementing ForecastModel and listing it in MODELS.
+ */
+
+import type { FittedModel, ForecastModel } from './types';
+import { movingAverageWithTrend } from './moving-average';
+import { holtLinear, holtWinters, simpleExponentialSmoothing } from './exponential-smoothing';
+import { seasonalNaive } from './seasonal-naive';
+import { linearTrend } from './linear-trend';
+
+export type { FittedModel, ForecastModel, PredictedPeriod } from './types';
+export {
+  DEFAULT_INTERVAL_METHOD,
+  intervalMethodSchema,
+  predictWithIntervals,
+  resolveIntervalMethod,
+  sumIndependentIntervals
+} from './intervals';
+export type { IntervalMethod } from './intervals';
+
+const MODELS: ForecastModel[] = [
+  movingAverageWithTrend,
+  simpleExponentialSmoothing,
+  holtLinear,
+  holtWinters,
+  seasonalNaive,
+  linearTrend
+];
+
+const MODEL_REGISTRY = new Map(MODELS.map(model => [model.name, model]));
+
+/**
+ * 'exponential-smoothing' picks the richest exponential smoothing variant the history supports
+ */
+const AUTO_EXPONENTIAL_SMOOTHING = 'exponential-smoothing';
+
+const ALIASES: Record<string, string> = {
+  'deterministic-moving-average-with-trend': 'moving-average-with-trend'
+};
+
+export const DEFAULT_FORECAST_METHOD = AUTO_EXPONENTIAL_SMOOTHING;
+
+export function listForecastMethods(): string[] {
+  return [AUTO_EXPONENTIAL_SMOOTHING, ...MODEL_REGISTRY.keys(), ...Object.keys(ALIASES)];
+}
+
+export function isForecastMethod(method: string): boolean {
+  return listForecastMethods().includes(method);
+}
+
+/**
+ * Resolves a requested method to a model able to fit `observations` data points.
+ * Throws when the method is unknown or the history is too short for it.
+ */
+export function selectModel(method: string, observations: number): ForecastModel {
+  if (method === AUTO_EXPONENTIAL_SMOOTHING) {
+    const candidates = [holtWinters, holtLinear, simpleExponentialSmoothing];
+    return candidates.find(model => observations >= model.minObservations) ?? simpleExponentialSmoothing;
+  }
+
+  const model = MODEL_REGISTRY.get(ALIASES[method] ?? method);
+  if (!model) {
+    throw new Error(`Unknown forecast method '${method}'. Available methods: ${listForecastMethods().join(', ')}`);
+  }
+  if (observations < model.minObservations) {
+    throw new Error(`Forecast method '${model.name}' needs at least ${model.minObservations} data points, got ${observations}`);
+  }
+  return model;
+}
+
+/**
+ * Stable identifier for f1_forecast_results.model_version, e.g.
+ * "holt@1;alpha=0.3;beta=0.1;level=12.4;trend=0.21"
+ */
+export function formatModelVersion(fitted: FittedModel): string {
+  const parameters = Object.entries(fitted.parameters)
+    .map(([key, value]) => `${key}=${Math.round(value * 10000) / 10000}`)
+    .join(';');
+  return parameters ? `${fitted.name}@${fitted.version};${parameters}` : `${fitted.name}@${fitted.version}`;
+}
+
+/**
+ * Human-readable description of a model, e.g. for forecast explanations
+ */
+export function describeModel(name: string): string | undefined {
+  return MODEL_REGISTRY.get(ALIASES[name] ?? name)?.description;
+}
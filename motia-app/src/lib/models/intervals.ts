@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import type { FittedModel, PredictedPeriod } from './types';
+import { normalQuantile, sampleStdDev, seededRandom, sortedQuantile, studentTQuantile } from '../statistics';
+
+/**
+ * Prediction intervals built from the fitted model's in-sample residuals.
+ *
+ * - 'normal'    : point ± t-quantile × sigma_h, where sigma_h = residual sigma × sqrt(1 + Σ c_j²)
+ *                 uses the model's error weights so intervals widen with the horizon
+ * - 'bootstrap' : empirical quantiles of simulated h-step errors, each built from resampled
+ *                 residuals with the same error weights; the generator is seeded, so the
+ *                 same history always yields the same interval
+ *
+ * Weekly and monthly buckets get the interval of their summed errors, from the same weights
+ * (normal) or by summing each simulated path over the bucket (bootstrap).
+ *
+ * Demand cannot be negative, so every value and bound is clipped at zero.
+ */
+
+export const INTERVAL_METHODS = ['normal', 'bootstrap'] as const;
+export type IntervalMethod = typeof INTERVAL_METHODS[number];
+export const DEFAULT_INTERVAL_METHOD: IntervalMethod = 'normal';
+export const intervalMethodSchema = z.enum(INTERVAL_METHODS);
+
+const BOOTSTRAP_SAMPLES = 1000;
+const BOOTSTRAP_SEED = 20240101;
+
+/**
+ * Fewer residuals than this and the interval falls back to the spread of the raw history
+ */
+const MIN_RESIDUALS = 3;
+
+function errorWeightsFor(fitted: FittedModel, horizon: number): number[] {
+  return fitted.errorWeights?.(horizon) ?? Array.from({ length: Math.max(horizon - 1, 0) }, () => 1);
+}
+
+function clip(value: number): number {
+  return Math.max(0, value);
+}
+
+function sumClipped(points: number[], first: number, last: number): number {
+  let sum = 0;
+  for (let h = first; h <= last; h++) {
+    sum += clip(points[h]);
+  }
+  return sum;
+}
+
+/**
+ * Step indices (0-based, inclusive) of each bucket of consecutive steps
+ */
+function bucketRanges(bucketSizes: number[]): Array<[number, number]> {
+  let first = 0;
+  return bucketSizes.map(size => {
+    const range: [number, number] = [first, first + size - 1];
+    first += size;
+    return range;
+  });
+}
+
+/**
+ * Σ_{h in bucket} e_h, with e_h = Σ_{k<=h} psi_{h-k}·a_k (psi_0 = 1, psi_j = c_j) and the
+ * a_k independent, has variance sigma² × Σ_k (Σ_{h in bucket, h>=k} psi_{h-k})². Returns that
+ * sum of squares, i.e. the variance in units of sigma²; for a single step it is 1 + Σ c_j².
+ */
+function bucketVarianceFactor(weights: number[], first: number, last: number): number {
+  // prefix[n] = psi_0 + ... + psi_(n-1)
+  const prefix = [0];
+  for (let j = 0; j <= last; j++) {
+    prefix.push(prefix[j] + (j === 0 ? 1 : weights[j - 1]));
+  }
+
+  let factor = 0;
+  for (let k = 0; k <= last; k++) {
+    const coefficient = prefix[last - k + 1] - prefix[Math.max(first, k) - k];
+    factor += coefficient ** 2;
+  }
+  return factor;
+}
+
+function normalIntervals(
+  points: number[],
+  weights: number[],
+  residuals: number[],
+  values: number[],
+  confidenceLevel: number,
+  bucketSizes: number[]
+): PredictedPeriod[] {
+  const hasResiduals = residuals.length >= MIN_RESIDUALS;
+  const sigma = hasResiduals
+    ? Math.sqrt(residuals.reduce((sq, e) => sq + e * e, 0) / (residuals.length - 1))
+    : sampleStdDev(values);
+  const degreesOfFreedom = (hasResiduals ? residuals.length : values.length) - 1;
+  const p = 1 - (1 - confidenceLevel) / 2;
+  const quantile = degreesOfFreedom > 0 ? studentTQuantile(p, degreesOfFreedom) : normalQuantile(p);
+
+  return bucketRanges(bucketSizes).map(([first, last]) => {
+    const value = sumClipped(points, first, last);
+    const margin = quantile * sigma * Math.sqrt(bucketVarianceFactor(weights, first, last));
+    return {
+      value,
+      lower: clip(value - margin),
+      upper: clip(value + margin)
+    };
+  });
+}
+
+function bootstrapIntervals(
+  points: number[],
+  weights: number[],
+  residuals: number[],
+  confidenceLevel: number,
+  bucketSizes: number[]
+): PredictedPeriod[] {
+  const random = seededRandom(BOOTSTRAP_SEED);
+  const horizon = points.length;
+  const ranges = bucketRanges(bucketSizes);
+  const simulatedErrors: number[][] = ranges.map(() => []);
+
+  for (let sample = 0; sample < BOOTSTRAP_SAMPLES; sample++) {
+    // draws[k] is the one-step error k steps into the future
+    const draws = Array.from({ length: horizon }, () => residuals[Math.floor(random() * residuals.length)]);
+    const path = draws.map((draw, h) => {
+      let error = draw;
+      for (let j = 1; j <= h; j++) {
+        error += weights[j - 1] * draws[h - j];
+      }
+      return error;
+    });
+    // A bucket's error is the sum of its steps' errors along the same simulated path
+    ranges.forEach(([first, last], bucket) => {
+      simulatedErrors[bucket].push(path.slice(first, last + 1).reduce((sum, error) => sum + error, 0));
+    });
+  }
+
+  const alpha = (1 - confidenceLevel) / 2;
+  return ranges.map(([first, last], bucket) => {
+    const value = sumClipped(points, first, last);
+    const sorted = simulatedErrors[bucket].sort((a, b) => a - b);
+    return {
+      value,
+      lower: clip(value + sortedQuantile(sorted, alpha)),
+      upper: clip(value + sortedQuantile(sorted, 1 - alpha))
+    };
+  });
+}
+
+/**
+ * The interval method that will actually be used: bootstrap needs enough residuals to resample
+ */
+export function resolveIntervalMethod(fitted: FittedModel, requested: IntervalMethod): IntervalMethod {
+  return requested === 'bootstrap' && fitted.residuals.length < MIN_RESIDUALS ? 'normal' : requested;
+}
+
+/**
+ * Forecasts `horizon` periods and attaches prediction intervals at `confidenceLevel`.
+ * With `bucketSizes` (consecutive runs of steps adding up to `horizon`, e.g. the days of each
+ * week) there is one period per bucket: the summed forecasts, with the interval of the summed
+ * errors. Those errors are correlated through the model's error weights, so their variances
+ * do not simply add up.
+ */
+export function predictWithIntervals(
+  fitted: FittedModel,
+  values: number[],
+  horizon: number,
+  confidenceLevel: number,
+  method: IntervalMethod = DEFAULT_INTERVAL_METHOD,
+  bucketSizes: number[] = Array.from({ length: horizon }, () => 1)
+): PredictedPeriod[] {
+  const points = fitted.forecast(horizon);
+  const weights = errorWeightsFor(fitted, horizon);
+
+  if (resolveIntervalMethod(fitted, method) === 'bootstrap') {
+    return bootstrapIntervals(points, weights, fitted.residuals, confidenceLevel, bucketSizes);
+  }
+  return normalIntervals(points, weights, fitted.residuals, values, confidenceLevel, bucketSizes);
+}
+
+/**
+ * Interval of a sum of forecasts whose errors are independent (e.g. separate models for
+ * separate stores): variances add up, so each side reaches the root of the summed squared
+ * half-widths from the summed value. A lower bound clipped at zero understates the spread
+ * below, so the spread above stands in for it.
+ */
+export function sumIndependentIntervals(parts: PredictedPeriod[]): PredictedPeriod {
+  let value = 0;
+  let below = 0;
+  let above = 0;
+
+  for (const part of parts) {
+    const partAbove = Math.max(0, part.upper - part.value);
+    const partBelow = Math.max(0, part.value - part.lower);
+    value += part.value;
+    above += partAbove ** 2;
+    below += (part.lower <= 0 && partBelow < partAbove ? partAbove : partBelow) ** 2;
+  }
+
+  return {
+    value,
+    lower: clip(value - Math.sqrt(below)),
+    upper: value + Math.sqrt(above)
+  };
+}
@@ -0,0 +1,33 @@
+import type { FittedModel, ForecastModel } from './types';
+
+/**
+ * Ordinary least-squares line through the series: value(t) = intercept + slope * t
+ */
+export const linearTrend: ForecastModel = {
+  name: 'linear-trend',
+  description: 'Least-squares linear trend',
+  minObservations: 2,
+  fit(values: number[]): FittedModel {
+    const n = values.length;
+    const meanT = (n - 1) / 2;
+    const meanY = n > 0 ? values.reduce((a, b) => a + b, 0) / n : 0;
+
+    let covariance = 0;
+    let varianceT = 0;
+    values.forEach((value, t) => {
+      covariance += (t - meanT) * (value - meanY);
+      varianceT += (t - meanT) * (t - meanT);
+    });
+
+    const slope = varianceT > 0 ? covariance / varianceT : 0;
+    const intercept = meanY - slope * meanT;
+
+    return {
+      name: 'linear-trend',
+      version: 1,
+      parameters: { intercept, slope },
+      residuals: values.map((value, t) => value - (intercept + slope * t)),
+      forecast: horizon => Array.from({ length: horizon }, (_, i) => intercept + slope * (n - 1 + i + 1))
+    };
+  }
+};
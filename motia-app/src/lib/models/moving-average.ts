@@ -0,0 +1,39 @@
+import type { FittedModel, ForecastModel } from './types';
+
+const WINDOW_SIZE = 7;
+
+/**
+ * The original forecast: 7-day moving average plus a first-to-last trend slope.
+ * forecast(h) = movingAverage + trendSlope * h
+ */
+export const movingAverageWithTrend: ForecastModel = {
+  name: 'moving-average-with-trend',
+  description: '7-day moving average with first-to-last trend adjustment',
+  minObservations: WINDOW_SIZE,
+  fit(values: number[]): FittedModel {
+    const movingAverages: number[] = [];
+    for (let i = 0; i <= values.length - WINDOW_SIZE; i++) {
+      const window = values.slice(i, i + WINDOW_SIZE);
+      movingAverages.push(window.reduce((acc, value) => acc + value, 0) / WINDOW_SIZE);
+    }
+    const movingAverage = movingAverages[movingAverages.length - 1] || 0;
+
+    const firstValue = values[0] || 0;
+    const lastValue = values[values.length - 1] || 0;
+    const trendSlope = values.length > 0 ? (lastValue - firstValue) / values.length : 0;
+
+    // One-step-ahead residuals: each day against the average of the 7 days before it
+    const residuals: number[] = [];
+    for (let t = WINDOW_SIZE; t < values.length; t++) {
+      residuals.push(values[t] - (movingAverages[t - WINDOW_SIZE] + trendSlope));
+    }
+
+    return {
+      name: 'moving-average-with-trend',
+      version: 1,
+      parameters: { windowSize: WINDOW_SIZE, movingAverage, trendSlope },
+      residuals,
+      forecast: horizon => Array.from({ length: horizon }, (_, i) => movingAverage + trendSlope * (i + 1))
+    };
+  }
+};
@@ -0,0 +1,29 @@
+import type { FittedModel, ForecastModel } from './types';
+import { SEASON_LENGTH } from './exponential-smoothing';
+
+/**
+ * Seasonal naive: each future day repeats the same weekday from the last observed week.
+ */
+export const seasonalNaive: ForecastModel = {
+  name: 'seasonal-naive',
+  description: 'Repeats the last observed week',
+  minObservations: SEASON_LENGTH,
+  fit(values: number[]): FittedModel {
+    const m = SEASON_LENGTH;
+    const residuals: number[] = [];
+    for (let t = m; t < values.length; t++) {
+      residuals.push(values[t] - values[t - m]);
+    }
+
+    const lastSeason = values.slice(-m);
+    return {
+      name: 'seasonal-naive',
+      version: 1,
+      parameters: { seasonLength: m },
+      residuals,
+      forecast: horizon => Array.from({ length: horizon }, (_, i) => lastSeason[i % m] ?? 0),
+      // Errors only accumulate once per full season
+      errorWeights: horizon => Array.from({ length: Math.max(horizon - 1, 0) }, (_, i) => ((i + 1) % m === 0 ? 1 : 0))
+    };
+  }
+};
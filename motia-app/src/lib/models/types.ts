@@ -0,0 +1,38 @@
+/**
+ * Common interface for deterministic forecasting models.
+ * Models work on a plain series of daily values (oldest first) and never see dates,
+ * so the same series always produces the same fit and the same forecast.
+ */
+
+export interface FittedModel {
+  /** Registry name of the model that produced this fit */
+  name: string;
+  /** Bumped whenever a model's math changes, recorded in model_version */
+  version: number;
+  /** Fitted (or fixed) parameters, recorded alongside the forecast */
+  parameters: Record<string, number>;
+  /** In-sample one-step-ahead errors (actual - fitted), oldest first */
+  residuals: number[];
+  /** Point forecasts for the 1..horizon steps after the last observation */
+  forecast(horizon: number): number[];
+  /**
+   * Weights c_1..c_(horizon-1) of past one-step errors in the h-step forecast error,
+   * so Var(e_h) = sigma^2 * (1 + sum of c_j^2). Models without a closed form omit this
+   * and get random-walk weights (all 1), i.e. intervals widening with sqrt(h).
+   */
+  errorWeights?(horizon: number): number[];
+}
+
+export interface ForecastModel {
+  name: string;
+  description: string;
+  /** Fewest observations the model needs to produce a meaningful fit */
+  minObservations: number;
+  fit(values: number[]): FittedModel;
+}
+
+export interface PredictedPeriod {
+  value: number;
+  lower: number;
+  upper: number;
+}
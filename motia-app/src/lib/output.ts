@@ -0,0 +1,32 @@
+/**
+ * Writing to a response (or any Writable) with backpressure, so a large download never
+ * piles up in memory when the client reads slowly.
+ */
+
+import type { Writable } from 'stream';
+
+/**
+ * Writes `chunk` and, when the output's buffer is full, waits until it drains.
+ * Rejects when the output is closed first (e.g. the client went away).
+ */
+export function writeChunk(output: Writable, chunk: string | Buffer): Promise<void> {
+  if (output.destroyed || output.writableEnded) {
+    return Promise.reject(new Error('Output closed before the download finished'));
+  }
+  if (output.write(chunk)) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      output.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      output.off('drain', onDrain);
+      reject(new Error('Output closed before the download finished'));
+    };
+    output.once('drain', onDrain);
+    output.once('close', onClose);
+  });
+}
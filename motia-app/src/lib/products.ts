@@ -0,0 +1,97 @@
+/**
+ * Read access to the product master (f1_products).
+ * Results mirror the Supabase { data, error } shape, like lib/facts.
+ */
+
+import { supabase } from './supabase';
+
+const PAGE_SIZE = 1000;
+
+export interface Product {
+  id: string;
+  storeId: string;
+  sku: string;
+  name: string;
+}
+
+interface ProductResult {
+  data: Product[] | null;
+  error: { message: string } | null;
+}
+
+interface ProductDetailResult {
+  data: Product | null;
+  error: { message: string } | null;
+}
+
+export interface ProductFilter {
+  storeIds?: string[];
+  skus?: string[];
+}
+
+function toProduct(row: { id: string; store_id: string; sku: string; product_name: string }): Product {
+  return { id: row.id, storeId: row.store_id, sku: row.sku, name: row.product_name };
+}
+
+/**
+ * One product by id; data is null when it does not exist
+ */
+export async function fetchProduct(productId: string): Promise<ProductDetailResult> {
+  const { data, error } = await supabase
+    .from('f1_products')
+    .select('id, store_id, sku, product_name')
+    .eq('id', productId)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error };
+  }
+  return { data: data ? toProduct(data) : null, error: null };
+}
+
+/**
+ * Every product, optionally limited to one store, ordered by id
+ */
+export async function listProducts(storeId?: string): Promise<ProductResult> {
+  return findProducts({ storeIds: storeId ? [storeId] : undefined });
+}
+
+/**
+ * Products of any of `storeIds` with any of `skus` (either filter may be omitted), ordered by id
+ */
+export async function findProducts(filter: ProductFilter): Promise<ProductResult> {
+  const products: Product[] = [];
+  let lastId: string | null = null;
+
+  for (;;) {
+    let query = supabase
+      .from('f1_products')
+      .select('id, store_id, sku, product_name')
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (filter.storeIds) {
+      query = query.in('store_id', filter.storeIds);
+    }
+    if (filter.skus) {
+      query = query.in('sku', filter.skus);
+    }
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const rows = data ?? [];
+    products.push(...rows.map(toProduct));
+
+    if (rows.length < PAGE_SIZE) {
+      return { data: products, error: null };
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Per-product replenishment settings (f1_replenishment_settings).
+ * Products without a row use DEFAULT_REPLENISHMENT_SETTINGS.
+ * Results mirror the Supabase { data, error } shape, like lib/facts.
+ */
+
+import { supabase } from './supabase';
+import { DEFAULT_REPLENISHMENT_SETTINGS } from './replenishment';
+import type { ReplenishmentSettings } from './replenishment';
+
+interface SettingsResult {
+  data: ReplenishmentSettings | null;
+  /** False when the product has no settings row and the defaults were returned */
+  configured: boolean;
+  error: { message: string } | null;
+}
+
+/** numeric columns may arrive as strings, depending on their size */
+interface SettingsRow {
+  lead_time_days: number;
+  service_level: number | string;
+  moq: number | string;
+  order_multiple: number | string;
+  review_period_days: number;
+}
+
+function fromRow(row: SettingsRow): ReplenishmentSettings {
+  return {
+    leadTimeDays: Number(row.lead_time_days),
+    serviceLevel: Number(row.service_level),
+    moq: Number(row.moq),
+    orderMultiple: Number(row.order_multiple),
+    reviewPeriodDays: Number(row.review_period_days)
+  };
+}
+
+export async function fetchReplenishmentSettings(productId: string): Promise<SettingsResult> {
+  const { data, error } = await supabase
+    .from('f1_replenishment_settings')
+    .select('lead_time_days, service_level, moq, order_multiple, review_period_days')
+    .eq('product_id', productId)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, configured: false, error };
+  }
+
+  if (!data) {
+    return { data: { ...DEFAULT_REPLENISHMENT_SETTINGS }, configured: false, error: null };
+  }
+
+  return { data: fromRow(data), configured: true, error: null };
+}
+
+export async function saveReplenishmentSettings(
+  productId: string,
+  settings: ReplenishmentSettings
+): Promise<SettingsResult> {
+  const { data, error } = await supabase
+    .from('f1_replenishment_settings')
+    .upsert({
+      product_id: productId,
+      lead_time_days: settings.leadTimeDays,
+      service_level: settings.serviceLevel,
+      moq: settings.moq,
+      order_multiple: settings.orderMultiple,
+      review_period_days: settings.reviewPeriodDays,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'product_id' })
+    .select('lead_time_days, service_level, moq, order_multiple, review_period_days')
+    .single();
+
+  if (error) {
+    return { data: null, configured: false, error };
+  }
+
+  return { data: fromRow(data), configured: true, error: null };
+}
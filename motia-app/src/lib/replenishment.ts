@@ -0,0 +1,208 @@
+/**
+ * Inventory-aware replenishment planning from a persisted forecast.
+ *
+ * Forecast periods are spread evenly over their days to get a daily demand path
+ * with a per-day standard deviation backed out of the prediction interval. Lead-time
+ * demand, safety stock and the order-up-to level assume independent daily errors,
+ * so standard deviations add in quadrature. Days beyond the forecast horizon repeat
+ * the last forecast day. Pure and deterministic: no I/O.
+ */
+
+import { z } from 'zod';
+import { addDays, diffDays } from './dates';
+import type { DailyValue } from './forecast-engine';
+import { normalQuantile } from './statistics';
+
+export interface ReplenishmentSettings {
+  /** Days between placing an order and receiving it */
+  leadTimeDays: number;
+  /** Target probability of not stocking out during the lead time (cycle service level) */
+  serviceLevel: number;
+  /** Minimum order quantity */
+  moq: number;
+  /** Orders are rounded up to a multiple of this (case/pack size) */
+  orderMultiple: number;
+  /** Days until the next chance to order; the order covers lead time plus this */
+  reviewPeriodDays: number;
+}
+
+export const DEFAULT_REPLENISHMENT_SETTINGS: ReplenishmentSettings = {
+  leadTimeDays: 7,
+  serviceLevel: 0.95,
+  moq: 0,
+  orderMultiple: 1,
+  reviewPeriodDays: 7
+};
+
+export const replenishmentSettingsSchema = z.object({
+  leadTimeDays: z.number().int().min(0).max(365),
+  serviceLevel: z.number().gt(0.5).lt(1),
+  moq: z.number().min(0),
+  orderMultiple: z.number().positive(),
+  reviewPeriodDays: z.number().int().min(1).max(365)
+});
+
+export interface InventoryPosition {
+  /** Date of the latest inventory snapshot */
+  date: string;
+  level: number;
+  /** Snapshot level minus the sales recorded after it, i.e. stock at the start of the forecast */
+  openingLevel: number;
+}
+
+export interface DemandPeriod {
+  periodStart: string;
+  periodEnd: string;
+  forecastValue: number;
+  confidenceInterval: { lower: number; upper: number };
+}
+
+export interface DailyDemand {
+  date: string;
+  mean: number;
+  sd: number;
+}
+
+export interface ReplenishmentPlan {
+  openingStock: number;
+  leadTimeDemand: number;
+  safetyStock: number;
+  reorderPoint: number;
+  orderUpToLevel: number;
+  /** Days until projected stock runs out; null when it never does (e.g. no forecast demand) */
+  daysOfCover: number | null;
+  /** First day projected stock cannot cover demand; null when it never runs out */
+  stockoutDate: string | null;
+  reorderNow: boolean;
+  suggestedOrderQuantity: number;
+}
+
+// Projections past the horizon stop after ten years
+const MAX_COVER_DAYS = 3650;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Latest snapshot carried forward to the forecast start by subtracting the sales
+ * recorded after it (snapshots are end-of-day levels). Null without snapshots.
+ */
+export function openingInventory(snapshots: DailyValue[], dailySales: DailyValue[]): InventoryPosition | null {
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  const latest = snapshots.reduce((a, b) => (b.date > a.date ? b : a));
+  const soldSince = dailySales
+    .filter(sale => sale.date > latest.date)
+    .reduce((sum, sale) => sum + sale.value, 0);
+
+  return {
+    date: latest.date,
+    level: latest.value,
+    openingLevel: Math.max(0, latest.value - soldSince)
+  };
+}
+
+/**
+ * Daily demand path from forecast periods of any granularity. The per-period standard
+ * deviation comes from the upper bound (the lower bound is clipped at zero) and is split
+ * over the period's days so their variances add back up to the period's.
+ */
+export function dailyDemand(periods: DemandPeriod[], confidenceLevel: number): DailyDemand[] {
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const days: DailyDemand[] = [];
+
+  for (const period of periods) {
+    const length = diffDays(period.periodStart, period.periodEnd) + 1;
+    const periodSd = Math.max(0, period.confidenceInterval.upper - period.forecastValue) / z;
+
+    for (let i = 0; i < length; i++) {
+      days.push({
+        date: addDays(period.periodStart, i),
+        mean: period.forecastValue / length,
+        sd: periodSd / Math.sqrt(length)
+      });
+    }
+  }
+
+  return days;
+}
+
+function demandAt(demand: DailyDemand[], index: number): DailyDemand {
+  return index < demand.length ? demand[index] : demand[demand.length - 1];
+}
+
+/**
+ * Mean and standard deviation of total demand over the first `days` days
+ */
+function cumulativeDemand(demand: DailyDemand[], days: number): { mean: number; sd: number } {
+  let mean = 0;
+  let variance = 0;
+  for (let i = 0; i < days; i++) {
+    const day = demandAt(demand, i);
+    mean += day.mean;
+    variance += day.sd * day.sd;
+  }
+  return { mean, sd: Math.sqrt(variance) };
+}
+
+/**
+ * Reorder point / order-up-to policy: order when opening stock is at or below the
+ * reorder point, up to the level that covers lead time plus one review period.
+ */
+export function planReplenishment(
+  openingStock: number,
+  demand: DailyDemand[],
+  settings: ReplenishmentSettings
+): ReplenishmentPlan {
+  if (demand.length === 0) {
+    throw new Error('Replenishment planning needs at least one forecast period');
+  }
+
+  const z = normalQuantile(settings.serviceLevel);
+
+  const leadTime = cumulativeDemand(demand, settings.leadTimeDays);
+  const safetyStock = z * leadTime.sd;
+  const reorderPoint = leadTime.mean + safetyStock;
+
+  const protection = cumulativeDemand(demand, settings.leadTimeDays + settings.reviewPeriodDays);
+  const orderUpToLevel = protection.mean + z * protection.sd;
+
+  // Walk the mean demand path until the stock runs out
+  let daysOfCover: number | null = null;
+  let stockoutDate: string | null = null;
+  let remaining = openingStock;
+  for (let i = 0; i < MAX_COVER_DAYS; i++) {
+    const day = demandAt(demand, i);
+    if (i >= demand.length && day.mean === 0) {
+      break;
+    }
+    if (day.mean > remaining) {
+      daysOfCover = i + remaining / day.mean;
+      stockoutDate = addDays(demand[0].date, i);
+      break;
+    }
+    remaining -= day.mean;
+  }
+
+  const reorderNow = openingStock <= reorderPoint && orderUpToLevel > 0;
+  let suggestedOrderQuantity = 0;
+  if (reorderNow) {
+    const needed = Math.max(settings.moq, orderUpToLevel - openingStock);
+    suggestedOrderQuantity = Math.ceil(needed / settings.orderMultiple) * settings.orderMultiple;
+  }
+
+  return {
+    openingStock,
+    leadTimeDemand: round(leadTime.mean),
+    safetyStock: round(safetyStock),
+    reorderPoint: round(reorderPoint),
+    orderUpToLevel: round(orderUpToLevel),
+    daysOfCover: daysOfCover === null ? null : round(daysOfCover),
+    stockoutDate,
+    reorderNow,
+    suggestedOrderQuantity: round(suggestedOrderQuantity)
+  };
+}
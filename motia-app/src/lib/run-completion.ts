@@ -0,0 +1,29 @@
+import type { ForecastRunState } from './forecast-status';
+import { nextBatchDispatch } from './forecast-batch';
+import type { DispatchForecastBatchEvent } from './forecast-batch';
+import { nextChainDispatch } from './chain-forecast';
+import type { DispatchChainForecastEvent } from './chain-forecast';
+
+export type RunFinishedEvent =
+  | { topic: 'dispatch-forecast-batch'; data: DispatchForecastBatchEvent }
+  | { topic: 'dispatch-chain-forecast'; data: DispatchChainForecastEvent };
+
+/**
+ * Events to emit once a forecast run has completed or failed: a batch run frees its
+ * lane for the next product, a store-level run lets its chain-level run move on
+ */
+export function runFinishedEvents(runState: ForecastRunState): RunFinishedEvent[] {
+  const events: RunFinishedEvent[] = [];
+
+  const batchDispatch = nextBatchDispatch(runState);
+  if (batchDispatch) {
+    events.push({ topic: 'dispatch-forecast-batch', data: batchDispatch });
+  }
+
+  const chainDispatch = nextChainDispatch(runState);
+  if (chainDispatch) {
+    events.push({ topic: 'dispatch-chain-forecast', data: chainDispatch });
+  }
+
+  return events;
+}
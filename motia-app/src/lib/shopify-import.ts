@@ -0,0 +1,659 @@
+/**
+ * Writes Shopify orders, variants and inventory levels into the fact tables.
+ *
+ * A store is linked to a shop by f1_stores.external_store_id (the shop's myshopify.com domain);
+ * f1_stores.timezone, when set, decides which day an order belongs to.
+ *
+ * Orders arrive one at a time (webhooks) and again whenever they change, so daily sales are not
+ * written per order: each order line is kept in f1_shopify_order_lines and the day's total in
+ * f1_daily_sales is recomputed from that ledger for every product and day an import touched.
+ * Replaying a payload therefore changes nothing. f1_shopify_orders keeps the version (updated_at)
+ * imported per order, so an older version that arrives late is skipped. Inventory works the same
+ * way per location: f1_shopify_inventory_levels keeps each location's latest level and the
+ * snapshot is their sum.
+ */
+
+import { supabase } from './supabase';
+import { findProducts } from './products';
+import { isValidTimeZone, localDate, orderSalesLines, variantInventoryItems } from './shopify';
+import type { ShopifyInventoryLevel, ShopifyOrder, ShopifyProduct } from './shopify';
+
+const PAGE_SIZE = 1000;
+// Ids per .in() filter, which travels in the request URL
+const IN_CHUNK_SIZE = 200;
+
+export interface ShopifyStore {
+  id: string;
+  shopDomain: string;
+  /** IANA time zone; null uses the UTC offset in Shopify's timestamps */
+  timeZone: string | null;
+}
+
+export interface OrderImportSummary {
+  orders: number;
+  /** Orders not newer than the version already imported; their lines are left as they are */
+  staleOrders: number;
+  lines: number;
+  /** SKUs with no product in the store; their lines are not counted */
+  unknownSkus: string[];
+  /** Line items without a SKU */
+  skippedLineItems: number;
+  /** f1_daily_sales rows rewritten */
+  dailySales: number;
+}
+
+export interface InventoryImportSummary {
+  levels: number;
+  /** Levels newer than the stored level of their location */
+  applied: number;
+  /** Inventory items with no known variant SKU or no product for it */
+  unmappedItems: string[];
+  /** f1_inventory_snapshots rows written */
+  snapshots: number;
+}
+
+export interface ShopifyPayload {
+  orders?: ShopifyOrder[];
+  products?: ShopifyProduct[];
+  inventoryLevels?: ShopifyInventoryLevel[];
+}
+
+export interface ShopifyImportSummary {
+  orders?: OrderImportSummary;
+  variants?: number;
+  /** f1_inventory_snapshots rows rebuilt for inventory items the variants newly mapped */
+  mappedSnapshots?: number;
+  inventory?: InventoryImportSummary;
+}
+
+interface ImportResult<T> {
+  data: T | null;
+  error: { message: string } | null;
+}
+
+interface LedgerRow {
+  id: string;
+  order_id: string;
+  line_item_id: string;
+  product_id: string;
+  sales_date: string;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+export function normalizeShopDomain(shopDomain: string): string {
+  return shopDomain.trim().toLowerCase();
+}
+
+/**
+ * The store linked to a shop, or null when no store has it as external_store_id
+ */
+export async function findShopifyStore(shopDomain: string): Promise<ImportResult<ShopifyStore>> {
+  const domain = normalizeShopDomain(shopDomain);
+  const { data, error } = await supabase
+    .from('f1_stores')
+    .select('id, external_store_id, timezone')
+    .eq('external_store_id', domain)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error };
+  }
+  if (data?.timezone && !isValidTimeZone(data.timezone)) {
+    return { data: null, error: { message: `Store ${data.id} has an unknown timezone: ${data.timezone}` } };
+  }
+
+  return {
+    data: data ? { id: data.id, shopDomain: domain, timeZone: data.timezone ?? null } : null,
+    error: null
+  };
+}
+
+async function storeProductIds(storeId: string): Promise<ImportResult<Map<string, string>>> {
+  const { data: products, error } = await findProducts({ storeIds: [storeId] });
+
+  if (error) {
+    return { data: null, error };
+  }
+  return { data: new Map((products ?? []).map(product => [product.sku, product.id])), error: null };
+}
+
+/**
+ * Replaces the ledger lines of the given orders and recomputes the affected daily sales.
+ * Only orders newer than the version already imported are applied.
+ */
+export async function importShopifyOrders(
+  store: ShopifyStore,
+  orders: ShopifyOrder[]
+): Promise<ImportResult<OrderImportSummary>> {
+  // Latest version per order within the payload
+  const incoming = new Map<string, ShopifyOrder>();
+  for (const order of orders) {
+    const seen = incoming.get(order.id);
+    if (!seen || Date.parse(order.updated_at) > Date.parse(seen.updated_at)) {
+      incoming.set(order.id, order);
+    }
+  }
+
+  const importedAt = new Map<string, string>();
+  for (const orderIds of chunk([...incoming.keys()], IN_CHUNK_SIZE)) {
+    // One row per order, so a chunk always fits in one response
+    const { data, error } = await supabase
+      .from('f1_shopify_orders')
+      .select('order_id, updated_at')
+      .eq('store_id', store.id)
+      .in('order_id', orderIds);
+
+    if (error) {
+      return { data: null, error };
+    }
+    for (const row of data ?? []) {
+      importedAt.set(row.order_id, row.updated_at);
+    }
+  }
+
+  // Webhooks can arrive out of order; an older version never replaces a newer one
+  const applied = [...incoming.values()].filter(order => {
+    const current = importedAt.get(order.id);
+    return !current || Date.parse(order.updated_at) > Date.parse(current);
+  });
+
+  const mapped = applied.map(order => orderSalesLines(order, store.timeZone));
+  const lines = mapped.flatMap(result => result.lines);
+  const skippedLineItems = mapped.reduce((sum, result) => sum + result.skipped.length, 0);
+
+  const { data: productIds, error: productError } = await storeProductIds(store.id);
+
+  if (productError || !productIds) {
+    return { data: null, error: productError };
+  }
+
+  const unknownSkus = new Set<string>();
+  const ledgerRows = lines.flatMap(line => {
+    const productId = productIds.get(line.sku);
+    if (!productId) {
+      unknownSkus.add(line.sku);
+      return [];
+    }
+    return [{
+      store_id: store.id,
+      order_id: line.orderId,
+      line_item_id: line.lineItemId,
+      product_id: productId,
+      sales_date: line.salesDate,
+      quantity: line.quantity,
+      updated_at: new Date().toISOString()
+    }];
+  });
+
+  // Lines already in the ledger: their days need recomputing too, and lines no longer in the
+  // order (edited away, or their SKU is now unknown) must go
+  const existing: LedgerRow[] = [];
+  for (const orderIds of chunk(applied.map(order => order.id), IN_CHUNK_SIZE)) {
+    let lastId: string | null = null;
+
+    for (;;) {
+      let query = supabase
+        .from('f1_shopify_order_lines')
+        .select('id, order_id, line_item_id, product_id, sales_date')
+        .eq('store_id', store.id)
+        .in('order_id', orderIds)
+        .order('id', { ascending: true })
+        .limit(PAGE_SIZE);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      const rows: LedgerRow[] = data ?? [];
+      existing.push(...rows);
+
+      if (rows.length < PAGE_SIZE) {
+        break;
+      }
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+
+  for (const rows of chunk(ledgerRows, PAGE_SIZE)) {
+    const { error } = await supabase
+      .from('f1_shopify_order_lines')
+      .upsert(rows, { onConflict: 'store_id,order_id,line_item_id' });
+
+    if (error) {
+      return { data: null, error };
+    }
+  }
+
+  const current = new Set(ledgerRows.map(row => `${row.order_id}|${row.line_item_id}`));
+  const staleIds = existing.filter(row => !current.has(`${row.order_id}|${row.line_item_id}`)).map(row => row.id);
+
+  for (const ids of chunk(staleIds, IN_CHUNK_SIZE)) {
+    const { error } = await supabase.from('f1_shopify_order_lines').delete().in('id', ids);
+
+    if (error) {
+      return { data: null, error };
+    }
+  }
+
+  const affected = [...ledgerRows, ...existing].map(row => ({ productId: row.product_id, date: row.sales_date }));
+  const { data: dailySales, error: salesError } = await recomputeDailySales(store.id, affected);
+
+  if (salesError) {
+    return { data: null, error: salesError };
+  }
+
+  // Recorded last, so an import that fails part-way is applied again when the order is redelivered
+  const versionRows = applied.map(order => ({ store_id: store.id, order_id: order.id, updated_at: order.updated_at }));
+
+  for (const rows of chunk(versionRows, PAGE_SIZE)) {
+    const { error } = await supabase
+      .from('f1_shopify_orders')
+      .upsert(rows, { onConflict: 'store_id,order_id' });
+
+    if (error) {
+      return { data: null, error };
+    }
+  }
+
+  return {
+    data: {
+      orders: orders.length,
+      staleOrders: incoming.size - applied.length,
+      lines: ledgerRows.length,
+      unknownSkus: [...unknownSkus].sort(),
+      skippedLineItems,
+      dailySales: dailySales ?? 0
+    },
+    error: null
+  };
+}
+
+/**
+ * Rewrites f1_daily_sales for each product and day from the ledger; a day left without
+ * lines is written as 0. Returns the number of rows written.
+ */
+async function recomputeDailySales(
+  storeId: string,
+  days: Array<{ productId: string; date: string }>
+): Promise<ImportResult<number>> {
+  const totals = new Map(days.map(day => [`${day.productId}|${day.date}`, 0]));
+
+  if (totals.size === 0) {
+    return { data: 0, error: null };
+  }
+
+  const dates = days.map(day => day.date).sort();
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+
+  for (const productIds of chunk([...new Set(days.map(day => day.productId))], IN_CHUNK_SIZE)) {
+    let lastId: string | null = null;
+
+    for (;;) {
+      let query = supabase
+        .from('f1_shopify_order_lines')
+        .select('id, product_id, sales_date, quantity')
+        .eq('store_id', storeId)
+        .in('product_id', productIds)
+        .gte('sales_date', from)
+        .lte('sales_date', to)
+        .order('id', { ascending: true })
+        .limit(PAGE_SIZE);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      const rows = data ?? [];
+      for (const row of rows) {
+        const key = `${row.product_id}|${row.sales_date}`;
+        const total = totals.get(key);
+        if (total !== undefined) {
+          totals.set(key, total + row.quantity);
+        }
+      }
+
+      if (rows.length < PAGE_SIZE) {
+        break;
+      }
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+
+  const salesRows = [...totals].map(([key, quantity]) => {
+    const [productId, date] = key.split('|');
+    return { store_id: storeId, product_id: productId, sales_date: date, quantity };
+  });
+
+  for (const rows of chunk(salesRows, PAGE_SIZE)) {
+    const { error } = await supabase
+      .from('f1_daily_sales')
+      .upsert(rows, { onConflict: 'product_id,sales_date' });
+
+    if (error) {
+      return { data: null, error };
+    }
+  }
+
+  return { data: salesRows.length, error: null };
+}
+
+type StoredLevels = Map<string, { available: number; updatedAt: string }>;
+
+/**
+ * SKU per inventory item, for the items that have one
+ */
+async function inventoryItemSkus(storeId: string, itemIds: string[]): Promise<ImportResult<Map<string, string>>> {
+  const skus = new Map<string, string>();
+
+  for (const ids of chunk(itemIds, IN_CHUNK_SIZE)) {
+    // One row per item, so a chunk always fits in one response
+    const { data, error } = await supabase
+      .from('f1_shopify_inventory_items')
+      .select('inventory_item_id, sku')
+      .eq('store_id', storeId)
+      .in('inventory_item_id', ids);
+
+    if (error) {
+      return { data: null, error };
+    }
+    for (const item of data ?? []) {
+      skus.set(item.inventory_item_id, item.sku);
+    }
+  }
+
+  return { data: skus, error: null };
+}
+
+/**
+ * Stored levels of the given items, keyed by item and location
+ */
+async function storedInventoryLevels(storeId: string, itemIds: string[]): Promise<ImportResult<StoredLevels>> {
+  const stored: StoredLevels = new Map();
+
+  for (const ids of chunk(itemIds, IN_CHUNK_SIZE)) {
+    // One row per item and location, so a chunk can exceed one response. The table has no id
+    // column, so pages are ranges in primary key order.
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('f1_shopify_inventory_levels')
+        .select('inventory_item_id, location_id, available, updated_at')
+        .eq('store_id', storeId)
+        .in('inventory_item_id', ids)
+        .order('inventory_item_id', { ascending: true })
+        .order('location_id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      const rows = data ?? [];
+      for (const level of rows) {
+        stored.set(`${level.inventory_item_id}|${level.location_id}`, { available: level.available, updatedAt: level.updated_at });
+      }
+
+      if (rows.length < PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  return { data: stored, error: null };
+}
+
+/**
+ * Writes the snapshot of each item from its stored levels: the sum over its locations (negative,
+ * oversold stock counts as 0) on the local day of its latest update. Items without a SKU or a
+ * product for it are returned as unmapped.
+ */
+async function writeInventorySnapshots(
+  store: ShopifyStore,
+  itemIds: string[],
+  skus: Map<string, string>,
+  stored: StoredLevels
+): Promise<ImportResult<{ snapshots: number; unmappedItems: string[] }>> {
+  const { data: productIds, error: productError } = await storeProductIds(store.id);
+
+  if (productError || !productIds) {
+    return { data: null, error: productError };
+  }
+
+  const unmappedItems = new Set<string>();
+  const snapshots = new Map<string, { productId: string; date: string; updatedAt: string; level: number }>();
+
+  for (const itemId of itemIds) {
+    const sku = skus.get(itemId);
+    const productId = sku ? productIds.get(sku) : undefined;
+
+    if (!productId) {
+      unmappedItems.add(itemId);
+      continue;
+    }
+
+    const locations = [...stored].filter(([key]) => key.startsWith(`${itemId}|`)).map(([, level]) => level);
+    if (locations.length === 0) {
+      continue;
+    }
+
+    const updatedAt = locations.reduce(
+      (latest, level) => Date.parse(level.updatedAt) > Date.parse(latest) ? level.updatedAt : latest,
+      locations[0].updatedAt
+    );
+    const total = locations.reduce((sum, level) => sum + Math.max(0, level.available), 0);
+    const date = localDate(updatedAt, store.timeZone);
+    const key = `${productId}|${date}`;
+    const previous = snapshots.get(key);
+
+    // Two inventory items of one product (should not happen) keep the later level
+    if (!previous || Date.parse(updatedAt) > Date.parse(previous.updatedAt)) {
+      snapshots.set(key, { productId, date, updatedAt, level: total });
+    }
+  }
+
+  const snapshotRows = [...snapshots.values()].map(snapshot => ({
+    store_id: store.id,
+    product_id: snapshot.productId,
+    snapshot_date: snapshot.date,
+    inventory_level: snapshot.level
+  }));
+
+  for (const rows of chunk(snapshotRows, PAGE_SIZE)) {
+    const { error } = await supabase
+      .from('f1_inventory_snapshots')
+      .upsert(rows, { onConflict: 'product_id,snapshot_date' });
+
+    if (error) {
+      return { data: null, error };
+    }
+  }
+
+  return { data: { snapshots: snapshotRows.length, unmappedItems: [...unmappedItems].sort() }, error: null };
+}
+
+/**
+ * Records which inventory item belongs to which variant SKU, so inventory levels
+ * (which only name the inventory item) can be mapped to products. Levels stored before
+ * their item was mapped (or while it mapped to another SKU) become snapshots now.
+ */
+export async function importShopifyProducts(
+  store: ShopifyStore,
+  products: ShopifyProduct[]
+): Promise<ImportResult<{ variants: number; snapshots: number }>> {
+  const items = new Map(variantInventoryItems(products).map(item => [item.inventoryItemId, item.sku]));
+  const { data: previousSkus, error: itemsError } = await inventoryItemSkus(store.id, [...items.keys()]);
+
+  if (itemsError || !previousSkus) {
+    return { data: null, error: itemsError };
+  }
+
+  const rows = [...items].map(([inventoryItemId, sku]) => ({
+    store_id: store.id,
+    inventory_item_id: inventoryItemId,
+    sku,
+    updated_at: new Date().toISOString()
+  }));
+
+  for (const batch of chunk(rows, PAGE_SIZE)) {
+    const { error } = await supabase
+      .from('f1_shopify_inventory_items')
+      .upsert(batch, { onConflict: 'store_id,inventory_item_id' });
+
+    if (error) {
+      return { data: null, error };
+    }
+  }
+
+  const mappedItems = [...items].filter(([itemId, sku]) => previousSkus.get(itemId) !== sku).map(([itemId]) => itemId);
+  const { data: stored, error: levelsError } = await storedInventoryLevels(store.id, mappedItems);
+
+  if (levelsError || !stored) {
+    return { data: null, error: levelsError };
+  }
+
+  const { data: written, error: snapshotError } = await writeInventorySnapshots(store, mappedItems, items, stored);
+
+  if (snapshotError || !written) {
+    return { data: null, error: snapshotError };
+  }
+
+  return { data: { variants: rows.length, snapshots: written.snapshots }, error: null };
+}
+
+/**
+ * Applies inventory levels that are newer than the stored level of their location and writes
+ * each affected item's snapshot
+ */
+export async function importShopifyInventoryLevels(
+  store: ShopifyStore,
+  levels: ShopifyInventoryLevel[]
+): Promise<ImportResult<InventoryImportSummary>> {
+  // Latest level per item and location within the payload
+  const incoming = new Map<string, ShopifyInventoryLevel>();
+  for (const level of levels) {
+    const key = `${level.inventory_item_id}|${level.location_id}`;
+    const seen = incoming.get(key);
+    if (!seen || Date.parse(level.updated_at) > Date.parse(seen.updated_at)) {
+      incoming.set(key, level);
+    }
+  }
+
+  const itemIds = [...new Set([...incoming.values()].map(level => level.inventory_item_id))];
+  const { data: skus, error: itemsError } = await inventoryItemSkus(store.id, itemIds);
+
+  if (itemsError || !skus) {
+    return { data: null, error: itemsError };
+  }
+
+  const { data: stored, error: levelsError } = await storedInventoryLevels(store.id, itemIds);
+
+  if (levelsError || !stored) {
+    return { data: null, error: levelsError };
+  }
+
+  // Webhooks can arrive out of order; an older level never replaces a newer one
+  const applied = [...incoming].filter(([key, level]) => {
+    const current = stored.get(key);
+    return !current || Date.parse(level.updated_at) > Date.parse(current.updatedAt);
+  });
+  const levelRows = applied.map(([, level]) => ({
+    store_id: store.id,
+    inventory_item_id: level.inventory_item_id,
+    location_id: level.location_id,
+    // Untracked at the location: nothing on hand there
+    available: level.available ?? 0,
+    updated_at: level.updated_at
+  }));
+
+  for (const rows of chunk(levelRows, PAGE_SIZE)) {
+    const { error } = await supabase
+      .from('f1_shopify_inventory_levels')
+      .upsert(rows, { onConflict: 'store_id,inventory_item_id,location_id' });
+
+    if (error) {
+      return { data: null, error };
+    }
+  }
+
+  for (const row of levelRows) {
+    stored.set(`${row.inventory_item_id}|${row.location_id}`, { available: row.available, updatedAt: row.updated_at });
+  }
+
+  const { data: written, error: snapshotError } = await writeInventorySnapshots(
+    store,
+    [...new Set(levelRows.map(row => row.inventory_item_id))],
+    skus,
+    stored
+  );
+
+  if (snapshotError || !written) {
+    return { data: null, error: snapshotError };
+  }
+
+  return {
+    data: {
+      levels: levels.length,
+      applied: levelRows.length,
+      unmappedItems: written.unmappedItems,
+      snapshots: written.snapshots
+    },
+    error: null
+  };
+}
+
+/**
+ * Imports whatever the payload contains. Variants go first, so inventory levels in the same
+ * payload can already be mapped to their SKUs.
+ */
+export async function importShopifyPayload(
+  store: ShopifyStore,
+  payload: ShopifyPayload
+): Promise<ImportResult<ShopifyImportSummary>> {
+  const summary: ShopifyImportSummary = {};
+
+  if (payload.products) {
+    const { data, error } = await importShopifyProducts(store, payload.products);
+    if (error || !data) {
+      return { data: null, error: error ?? { message: 'Variant import returned no result' } };
+    }
+    summary.variants = data.variants;
+    summary.mappedSnapshots = data.snapshots;
+  }
+
+  if (payload.inventoryLevels) {
+    const { data, error } = await importShopifyInventoryLevels(store, payload.inventoryLevels);
+    if (error || !data) {
+      return { data: null, error: error ?? { message: 'Inventory import returned no result' } };
+    }
+    summary.inventory = data;
+  }
+
+  if (payload.orders) {
+    const { data, error } = await importShopifyOrders(store, payload.orders);
+    if (error || !data) {
+      return { data: null, error: error ?? { message: 'Order import returned no result' } };
+    }
+    summary.orders = data;
+  }
+
+  return { data: summary, error: null };
+}
@@ -0,0 +1,173 @@
+/**
+ * Shopify Admin API payloads and their mapping to facts.
+ *
+ * Only the fields the import needs are modelled (everything else is stripped), and ids are
+ * kept as strings. These functions are pure: lib/shopify-import does the reads and writes,
+ * so recorded payloads can be mapped without a database or a Shopify connection.
+ */
+
+import { z } from 'zod';
+import { isIsoDate } from './dates';
+
+// REST payloads carry numeric ids, GraphQL-derived files sometimes strings
+const idSchema = z.union([z.number(), z.string().min(1)]).transform(String);
+
+const timestampSchema = z.string().refine(value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value)), {
+  message: 'must be an ISO timestamp'
+});
+
+export const shopifyLineItemSchema = z.object({
+  id: idSchema,
+  variant_id: idSchema.nullable().optional(),
+  sku: z.string().nullable().optional(),
+  quantity: z.number().int().nonnegative()
+});
+
+export const shopifyRefundSchema = z.object({
+  id: idSchema,
+  created_at: timestampSchema,
+  refund_line_items: z.array(z.object({
+    line_item_id: idSchema,
+    quantity: z.number().int().nonnegative()
+  })).default([])
+});
+
+export const shopifyOrderSchema = z.object({
+  id: idSchema,
+  created_at: timestampSchema,
+  // Orders are sent again on every change; the newest version wins
+  updated_at: timestampSchema,
+  cancelled_at: timestampSchema.nullable().optional(),
+  test: z.boolean().optional(),
+  line_items: z.array(shopifyLineItemSchema),
+  refunds: z.array(shopifyRefundSchema).default([])
+});
+
+export const shopifyProductSchema = z.object({
+  id: idSchema,
+  variants: z.array(z.object({
+    id: idSchema,
+    sku: z.string().nullable().optional(),
+    inventory_item_id: idSchema.nullable().optional()
+  })).default([])
+});
+
+export const shopifyInventoryLevelSchema = z.object({
+  inventory_item_id: idSchema,
+  location_id: idSchema,
+  // null when the item is not tracked at the location
+  available: z.number().int().nullable(),
+  updated_at: timestampSchema
+});
+
+export type ShopifyOrder = z.infer<typeof shopifyOrderSchema>;
+export type ShopifyProduct = z.infer<typeof shopifyProductSchema>;
+export type ShopifyInventoryLevel = z.infer<typeof shopifyInventoryLevelSchema>;
+
+/** One order line as it counts towards daily sales */
+export interface OrderSalesLine {
+  orderId: string;
+  lineItemId: string;
+  sku: string;
+  /** Day the order was placed, in the shop's timezone */
+  salesDate: string;
+  /** Ordered quantity less refunded quantity; 0 for cancelled and test orders */
+  quantity: number;
+}
+
+export interface VariantInventoryItem {
+  inventoryItemId: string;
+  sku: string;
+}
+
+/**
+ * Calendar date of `timestamp` in `timeZone` (IANA name, e.g. Asia/Tokyo). Without a time
+ * zone the timestamp's own UTC offset decides: Shopify writes timestamps in the shop's
+ * offset, so their date part is already the local date.
+ */
+export function localDate(timestamp: string, timeZone?: string | null): string {
+  if (!timeZone) {
+    const datePart = timestamp.slice(0, 10);
+    if (!isIsoDate(datePart)) {
+      throw new Error(`Invalid timestamp: ${timestamp}`);
+    }
+    return datePart;
+  }
+
+  const instant = new Date(timestamp);
+  if (Number.isNaN(instant.getTime())) {
+    throw new Error(`Invalid timestamp: ${timestamp}`);
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(item => item.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sales lines of an order, dated by when the order was placed. Refunds are netted against
+ * the order's own day rather than the refund day, so a day's sales are the demand that was
+ * kept; a cancelled or test order keeps its lines at quantity 0 so earlier counts are undone.
+ * Line items without a SKU (custom items, tips) are returned in `skipped`.
+ */
+export function orderSalesLines(
+  order: ShopifyOrder,
+  timeZone?: string | null
+): { lines: OrderSalesLine[]; skipped: string[] } {
+  const salesDate = localDate(order.created_at, timeZone);
+  const voided = Boolean(order.cancelled_at) || order.test === true;
+  const refunded = new Map<string, number>();
+
+  for (const refund of order.refunds) {
+    for (const item of refund.refund_line_items) {
+      refunded.set(item.line_item_id, (refunded.get(item.line_item_id) ?? 0) + item.quantity);
+    }
+  }
+
+  const lines: OrderSalesLine[] = [];
+  const skipped: string[] = [];
+
+  for (const item of order.line_items) {
+    const sku = item.sku?.trim();
+
+    if (!sku) {
+      skipped.push(item.id);
+      continue;
+    }
+
+    lines.push({
+      orderId: order.id,
+      lineItemId: item.id,
+      sku,
+      salesDate,
+      quantity: voided ? 0 : Math.max(0, item.quantity - (refunded.get(item.id) ?? 0))
+    });
+  }
+
+  return { lines, skipped };
+}
+
+/**
+ * Inventory item → SKU pairs of the products' variants; variants without a SKU are left out
+ */
+export function variantInventoryItems(products: ShopifyProduct[]): VariantInventoryItem[] {
+  return products.flatMap(product => product.variants.flatMap(variant => {
+    const sku = variant.sku?.trim();
+    return sku && variant.inventory_item_id ? [{ inventoryItemId: variant.inventory_item_id, sku }] : [];
+  }));
+}
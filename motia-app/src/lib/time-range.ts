@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { addDays, diffDays, isIsoDate, todayIsoDate } from './dates';
+
+/**
+ * Time range grammar accepted by the forecast pipeline:
+ * - 'last-N-days' / 'last-N-weeks' : the N days (or weeks) before `asOf`
+ * - 'YYYY-MM-DD..YYYY-MM-DD'       : explicit inclusive range
+ * - { from, to }                   : explicit inclusive range as an object
+ *
+ * Relative ranges end the day before `asOf`, so a window never includes a day
+ * whose sales may still be coming in. Pinning `asOf` makes a run reproducible:
+ * facts are immutable, so the same window always loads the same rows.
+ */
+export type TimeRangeSpec = string | { from: string; to: string };
+
+export interface ResolvedTimeRange {
+  label: string;
+  from: string;
+  to: string;
+  asOf: string;
+  days: number;
+}
+
+export const DEFAULT_TIME_RANGE = 'last-30-days';
+
+const MAX_RANGE_DAYS = 3650;
+const RELATIVE_PATTERN = /^last-(\d+)-(day|days|week|weeks)$/;
+const EXPLICIT_PATTERN = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+export const timeRangeSchema = z.union([
+  z.string(),
+  z.object({
+    from: z.string(),
+    to: z.string()
+  })
+]);
+
+/**
+ * Canonical string form of a time range, used as the `timeRange` label downstream
+ */
+export function formatTimeRange(spec: TimeRangeSpec): string {
+  return typeof spec === 'string' ? spec : `${spec.from}..${spec.to}`;
+}
+
+/**
+ * Resolves a time range into concrete inclusive dates.
+ * Throws an Error describing the problem when the range is malformed.
+ */
+export function resolveTimeRange(spec: TimeRangeSpec, asOf: string = todayIsoDate()): ResolvedTimeRange {
+  if (!isIsoDate(asOf)) {
+    throw new Error(`asOf must be an ISO date (YYYY-MM-DD), got '${asOf}'`);
+  }
+
+  const label = formatTimeRange(spec);
+  const relative = RELATIVE_PATTERN.exec(label);
+
+  if (relative) {
+    const count = Number(relative[1]);
+    const days = relative[2].startsWith('week') ? count * 7 : count;
+    if (days < 1 || days > MAX_RANGE_DAYS) {
+      throw new Error(`timeRange '${label}' must cover between 1 and ${MAX_RANGE_DAYS} days`);
+    }
+    const to = addDays(asOf, -1);
+    return { label, from: addDays(to, -(days - 1)), to, asOf, days };
+  }
+
+  const explicit = EXPLICIT_PATTERN.exec(label);
+  if (!explicit) {
+    throw new Error(`timeRange '${label}' is not one of 'last-N-days', 'last-N-weeks', 'YYYY-MM-DD..YYYY-MM-DD' or { from, to }`);
+  }
+
+  const [, from, to] = explicit;
+  if (!isIsoDate(from) || !isIsoDate(to)) {
+    throw new Error(`timeRange '${label}' contains an invalid calendar date`);
+  }
+
+  const days = diffDays(from, to) + 1;
+  if (days < 1) {
+    throw new Error(`timeRange '${label}' ends before it starts`);
+  }
+  if (days > MAX_RANGE_DAYS) {
+    throw new Error(`timeRange '${label}' must cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  if (diffDays(to, asOf) < 1) {
+    throw new Error(`timeRange '${label}' must end before asOf ${asOf}`);
+  }
+
+  return { label, from, to, asOf, days };
+}
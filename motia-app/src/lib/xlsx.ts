@@ -0,0 +1,287 @@
+/**
+ * Minimal XLSX (Office Open XML) writer: one worksheet of plain values, no styles.
+ *
+ * Cells are either numbers or inline strings, so no shared-string table has to be kept
+ * in memory. The package is a zip written straight to the output: the small fixed parts
+ * first, then the worksheet as one deflate stream whose CRC and sizes follow it in a data
+ * descriptor, so rows are compressed and sent as they are added and never retained.
+ */
+
+import { createDeflateRaw, constants, deflateRawSync } from 'zlib';
+import type { Writable } from 'stream';
+import { writeChunk } from './output';
+
+export type CellValue = string | number | boolean | null | undefined;
+
+export interface XlsxWriter {
+  /** Resolves once the rows have been compressed and accepted by the output */
+  addRows(rows: CellValue[][]): Promise<void>;
+  /** Writes the rest of the package; the output is left open */
+  finish(): Promise<void>;
+}
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '</Relationships>';
+
+function workbookXml(sheetName: string): string {
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>';
+}
+
+// Control characters other than tab, newline and carriage return are not allowed in XML 1.0
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(ref: string, value: CellValue): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// `crc` continues the checksum of the data before `data`
+function crc32(data: Buffer, crc = 0): number {
+  crc = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  /** Bit 3: CRC and sizes follow the data in a data descriptor */
+  flags: number;
+}
+
+// UTF-8 names
+const UTF8_FLAG = 0x0800;
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+
+function dosDateTime(now: Date): { time: number; date: number } {
+  return {
+    time: (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2),
+    date: ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  };
+}
+
+function localHeader(entry: ZipEntry, stamp: { time: number; date: number }): Buffer {
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(entry.flags, 6);
+  local.writeUInt16LE(8, 8); // deflate
+  local.writeUInt16LE(stamp.time, 10);
+  local.writeUInt16LE(stamp.date, 12);
+  // Zero when a data descriptor follows
+  local.writeUInt32LE(entry.crc, 14);
+  local.writeUInt32LE(entry.compressedSize, 18);
+  local.writeUInt32LE(entry.size, 22);
+  local.writeUInt16LE(entry.name.length, 26);
+  local.writeUInt16LE(0, 28);
+  return Buffer.concat([local, entry.name]);
+}
+
+function centralHeader(entry: ZipEntry, stamp: { time: number; date: number }): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(20, 4);
+  header.writeUInt16LE(20, 6);
+  header.writeUInt16LE(entry.flags, 8);
+  header.writeUInt16LE(8, 10);
+  header.writeUInt16LE(stamp.time, 12);
+  header.writeUInt16LE(stamp.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+function endOfCentralDirectory(entries: number, centralSize: number, centralOffset: number): Buffer {
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries, 8);
+  end.writeUInt16LE(entries, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(centralOffset, 16);
+  return end;
+}
+
+/**
+ * Worksheet writer that streams the package to `output` (no zip64: the sheet and the archive
+ * stay under 4 GB). Nothing is written until the first addRows or finish.
+ */
+export function createXlsxWriter(sheetName: string, output: Writable): XlsxWriter {
+  const stamp = dosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  let rowCount = 0;
+
+  const deflate = createDeflateRaw();
+  const pending: Buffer[] = [];
+  deflate.on('data', (chunk: Buffer) => pending.push(chunk));
+
+  const sheet: ZipEntry = {
+    name: Buffer.from('xl/worksheets/sheet1.xml', 'utf8'),
+    crc: 0,
+    compressedSize: 0,
+    size: 0,
+    offset: 0,
+    flags: UTF8_FLAG | DATA_DESCRIPTOR_FLAG
+  };
+  let started: Promise<void> | null = null;
+
+  async function send(chunk: Buffer): Promise<void> {
+    offset += chunk.length;
+    await writeChunk(output, chunk);
+  }
+
+  async function writeWholeEntry(name: string, content: string): Promise<void> {
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset,
+      flags: UTF8_FLAG
+    };
+    entries.push(entry);
+    await send(localHeader(entry, stamp));
+    await send(compressed);
+  }
+
+  // Adds XML to the sheet and sends what deflate has produced so far; `last` ends the stream
+  async function writeSheet(xml: string, last: boolean): Promise<void> {
+    const data = Buffer.from(xml, 'utf8');
+    sheet.crc = crc32(data, sheet.crc);
+    sheet.size += data.length;
+
+    await new Promise<void>((resolve, reject) => {
+      deflate.once('error', reject);
+      const done = () => {
+        deflate.off('error', reject);
+        resolve();
+      };
+      if (last) {
+        deflate.once('end', done);
+        deflate.end(data);
+      } else {
+        // A sync flush hands the compressed rows over now instead of when deflate's buffer fills
+        deflate.write(data);
+        deflate.flush(constants.Z_SYNC_FLUSH, done);
+      }
+    });
+
+    for (const chunk of pending.splice(0)) {
+      sheet.compressedSize += chunk.length;
+      await send(chunk);
+    }
+  }
+
+  function start(): Promise<void> {
+    started ??= (async () => {
+      await writeWholeEntry('[Content_Types].xml', CONTENT_TYPES);
+      await writeWholeEntry('_rels/.rels', ROOT_RELS);
+      await writeWholeEntry('xl/workbook.xml', workbookXml(sheetName));
+      await writeWholeEntry('xl/_rels/workbook.xml.rels', WORKBOOK_RELS);
+
+      sheet.offset = offset;
+      entries.push(sheet);
+      await send(localHeader(sheet, stamp));
+      await writeSheet('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>', false);
+    })();
+    return started;
+  }
+
+  return {
+    async addRows(rows) {
+      await start();
+
+      const xml = rows.map(values => {
+        const index = ++rowCount;
+        const cells = values.map((value, column) => cellXml(`${columnName(column)}${index}`, value)).join('');
+        return `<row r="${index}">${cells}</row>`;
+      }).join('');
+
+      await writeSheet(xml, false);
+    },
+
+    async finish() {
+      await start();
+      await writeSheet('</sheetData></worksheet>', true);
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(sheet.crc, 4);
+      descriptor.writeUInt32LE(sheet.compressedSize, 8);
+      descriptor.writeUInt32LE(sheet.size, 12);
+      await send(descriptor);
+
+      const centralOffset = offset;
+      const central = Buffer.concat(entries.map(entry => centralHeader(entry, stamp)));
+      await send(central);
+      await send(endOfCentralDirectory(entries.length, central.length, centralOffset));
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { dailyDemand, planReplenishment } from '../lib/replenishment';
+import { fetchReplenishmentSettings } from '../lib/replenishment-settings';
+
+const inputSchema = z.object({
+  requestId: z.string(),
+  productId: z.string(),
+  storeId: z.string(),
+  modelVersion: z.string(),
+  confidenceLevel: z.number(),
+  forecastPeriods: z.array(z.object({
+    date: z.string(),
+    periodStart: z.string(),
+    periodEnd: z.string(),
+    forecastValue: z.number(),
+    confidenceInterval: z.object({
+      lower: z.number(),
+      upper: z.number()
+    })
+  })),
+  inventory: z.object({
+    date: z.string(),
+    level: z.number(),
+    openingLevel: z.number()
+  })
+});
+
+export const config: EventConfig = {
+  name: 'ComputeReplenishment',
+  type: 'event',
+  description: 'Turns a persisted forecast and the latest inventory into a replenishment recommendation',
+  subscribes: ['compute-replenishment'],
+  emits: [],
+  flows: ['replenishment'],
+  input: inputSchema
+};
+
+export const handler: Handlers['ComputeReplenishment'] = async (input, { logger }) => {
+  logger.info('=== COMPUTE REPLENISHMENT STEP STARTED ===');
+
+  const { requestId, productId, storeId, inventory } = input;
+
+  const { data: settings, configured, error: settingsError } = await fetchReplenishmentSettings(productId);
+
+  if (settingsError || !settings) {
+    logger.error('Failed to load replenishment settings', {
+      requestId,
+      productId,
+      error: settingsError?.message,
+      step: 'compute_replenishment'
+    });
+    throw new Error(`Failed to load replenishment settings: ${settingsError?.message}`);
+  }
+
+  const demand = dailyDemand(input.forecastPeriods, input.confidenceLevel);
+  const plan = planReplenishment(inventory.openingLevel, demand, settings);
+
+  logger.info('Replenishment plan computed', {
+    requestId,
+    productId,
+    settings,
+    usingDefaultSettings: !configured,
+    inventoryDate: inventory.date,
+    ...plan,
+    step: 'compute_replenishment'
+  });
+
+  // One recommendation per forecast run: a redelivered event overwrites the same row
+  const { error } = await supabase
+    .from('f1_replenishment_recommendations')
+    .upsert({
+      request_id: requestId,
+      store_id: storeId,
+      product_id: productId,
+      model_version: input.modelVersion,
+      inventory_date: inventory.date,
+      inventory_level: inventory.level,
+      opening_stock: plan.openingStock,
+      lead_time_days: settings.leadTimeDays,
+      service_level: settings.serviceLevel,
+      moq: settings.moq,
+      order_multiple: settings.orderMultiple,
+      review_period_days: settings.reviewPeriodDays,
+      lead_time_demand: plan.leadTimeDemand,
+      safety_stock: plan.safetyStock,
+      reorder_point: plan.reorderPoint,
+      order_up_to_level: plan.orderUpToLevel,
+      days_of_cover: plan.daysOfCover,
+      stockout_date: plan.stockoutDate,
+      reorder_now: plan.reorderNow,
+      suggested_order_quantity: plan.suggestedOrderQuantity
+    }, { onConflict: 'request_id' });
+
+  if (error) {
+    logger.error('Failed to persist replenishment recommendation', {
+      requestId,
+      productId,
+      error: error.message,
+      step: 'compute_replenishment'
+    });
+    throw new Error(`Failed to persist replenishment recommendation: ${error.message}`);
+  }
+
+  logger.info('=== COMPUTE REPLENISHMENT STEP COMPLETED SUCCESSFULLY ===', {
+    requestId,
+    productId,
+    reorderNow: plan.reorderNow,
+    suggestedOrderQuantity: plan.suggestedOrderQuantity
+  });
+};
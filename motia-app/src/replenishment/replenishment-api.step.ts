@@ -0,0 +1,150 @@
+/**
+ * Replenishment API Endpoint
+ *
+ * Lists the latest replenishment recommendation per product, as computed by
+ * ComputeReplenishment after each forecast run.
+ * Query: productId, storeId, reorderOnly=true (only products that should be ordered now).
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+
+const MAX_RECOMMENDATIONS = 1000;
+
+const recommendationSchema = z.object({
+  productId: z.string(),
+  storeId: z.string(),
+  requestId: z.string(),
+  modelVersion: z.string(),
+  createdAt: z.string(),
+  inventoryDate: z.string(),
+  inventoryLevel: z.number(),
+  openingStock: z.number(),
+  settings: z.object({
+    leadTimeDays: z.number(),
+    serviceLevel: z.number(),
+    moq: z.number(),
+    orderMultiple: z.number(),
+    reviewPeriodDays: z.number()
+  }),
+  leadTimeDemand: z.number(),
+  safetyStock: z.number(),
+  reorderPoint: z.number(),
+  orderUpToLevel: z.number(),
+  daysOfCover: z.number().nullable(),
+  stockoutDate: z.string().nullable(),
+  reorderNow: z.boolean(),
+  suggestedOrderQuantity: z.number()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ReplenishmentAPI',
+  type: 'api',
+  path: '/api/replenishment',
+  method: 'GET',
+  description: 'Returns the latest replenishment recommendation per product',
+  emits: [],
+  flows: ['replenishment'],
+  queryParams: [
+    { name: 'productId', description: 'Only this product' },
+    { name: 'storeId', description: 'Only products of this store' },
+    { name: 'reorderOnly', description: 'true to return only products that should be ordered now' }
+  ],
+  responseSchema: {
+    200: z.object({
+      count: z.number(),
+      recommendations: z.array(recommendationSchema)
+    }),
+    500: z.object({
+      error: z.string(),
+      message: z.string()
+    })
+  }
+};
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export const handler: Handlers['ReplenishmentAPI'] = async (req, { logger }) => {
+  const productId = firstValue(req.queryParams.productId);
+  const storeId = firstValue(req.queryParams.storeId);
+  const reorderOnly = firstValue(req.queryParams.reorderOnly) === 'true';
+
+  let query = supabase
+    .from('f1_latest_replenishment_recommendations')
+    .select('*')
+    .order('stockout_date', { ascending: true, nullsFirst: false })
+    .limit(MAX_RECOMMENDATIONS);
+
+  if (productId) {
+    query = query.eq('product_id', productId);
+  }
+  if (storeId) {
+    query = query.eq('store_id', storeId);
+  }
+  if (reorderOnly) {
+    query = query.eq('reorder_now', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to load replenishment recommendations', {
+      productId,
+      storeId,
+      error: error.message,
+      step: 'replenishment_api'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to load replenishment recommendations: ${error.message}`
+      }
+    };
+  }
+
+  const recommendations = (data ?? []).map(row => ({
+    productId: row.product_id,
+    storeId: row.store_id,
+    requestId: row.request_id,
+    modelVersion: row.model_version,
+    createdAt: row.created_at,
+    inventoryDate: row.inventory_date,
+    inventoryLevel: Number(row.inventory_level),
+    openingStock: Number(row.opening_stock),
+    settings: {
+      leadTimeDays: row.lead_time_days,
+      serviceLevel: Number(row.service_level),
+      moq: Number(row.moq),
+      orderMultiple: Number(row.order_multiple),
+      reviewPeriodDays: row.review_period_days
+    },
+    leadTimeDemand: Number(row.lead_time_demand),
+    safetyStock: Number(row.safety_stock),
+    reorderPoint: Number(row.reorder_point),
+    orderUpToLevel: Number(row.order_up_to_level),
+    daysOfCover: row.days_of_cover === null ? null : Number(row.days_of_cover),
+    stockoutDate: row.stockout_date,
+    reorderNow: row.reorder_now,
+    suggestedOrderQuantity: Number(row.suggested_order_quantity)
+  }));
+
+  logger.info('Replenishment recommendations retrieved', {
+    productId,
+    storeId,
+    reorderOnly,
+    count: recommendations.length
+  });
+
+  return {
+    status: 200,
+    body: {
+      count: recommendations.length,
+      recommendations
+    }
+  };
+};
@@ -0,0 +1,137 @@
+/**
+ * Replenishment Settings API Endpoint
+ *
+ * Updates the lead time, service level, MOQ, order multiple and review period of a product.
+ * Fields left out keep their current value (or the default for products without settings).
+ * New settings apply from the product's next forecast run.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { fetchProduct } from '../lib/products';
+import { replenishmentSettingsSchema } from '../lib/replenishment';
+import { fetchReplenishmentSettings, saveReplenishmentSettings } from '../lib/replenishment-settings';
+
+const bodySchema = replenishmentSettingsSchema.partial();
+
+const errorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ReplenishmentSettingsAPI',
+  type: 'api',
+  path: '/api/replenishment/:productId/settings',
+  method: 'PUT',
+  description: 'Updates the replenishment settings of a product',
+  emits: [],
+  flows: ['replenishment'],
+  bodySchema,
+  responseSchema: {
+    200: z.object({
+      productId: z.string(),
+      settings: replenishmentSettingsSchema
+    }),
+    400: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ReplenishmentSettingsAPI'] = async (req, { logger }) => {
+  const { productId } = req.pathParams;
+
+  const parsedBody = bodySchema.safeParse(req.body ?? {});
+
+  if (!parsedBody.success) {
+    const message = parsedBody.error.issues
+      .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid replenishment settings', { productId, message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  // Settings reference the product, so an unknown one would fail the save on its foreign key
+  const { data: product, error: productError } = await fetchProduct(productId);
+
+  if (productError) {
+    logger.error('Failed to look up product for replenishment settings', {
+      productId,
+      error: productError.message,
+      step: 'replenishment_settings_api'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to look up product: ${productError.message}`
+      }
+    };
+  }
+
+  if (!product) {
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `Product ${productId} not found`
+      }
+    };
+  }
+
+  const current = await fetchReplenishmentSettings(productId);
+
+  if (current.error || !current.data) {
+    logger.error('Failed to load replenishment settings', {
+      productId,
+      error: current.error?.message,
+      step: 'replenishment_settings_api'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to load replenishment settings: ${current.error?.message}`
+      }
+    };
+  }
+
+  const { data: settings, error } = await saveReplenishmentSettings(productId, { ...current.data, ...parsedBody.data });
+
+  if (error || !settings) {
+    logger.error('Failed to save replenishment settings', {
+      productId,
+      error: error?.message,
+      step: 'replenishment_settings_api'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to save replenishment settings: ${error?.message}`
+      }
+    };
+  }
+
+  logger.info('Replenishment settings updated', { productId, settings });
+
+  return {
+    status: 200,
+    body: {
+      productId,
+      settings
+    }
+  };
+};
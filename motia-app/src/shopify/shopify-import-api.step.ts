@@ -0,0 +1,149 @@
+/**
+ * Shopify File Import Endpoint
+ *
+ * Imports Shopify Admin API responses saved as files, e.g. a backfill of past orders or a
+ * recorded fixture. The body names the shop and carries any of the REST list payloads
+ * as they come from Shopify: { shop, orders?, products?, inventory_levels? }.
+ * The same mapping and idempotent writes as ShopifyWebhookAPI apply, so a file can overlap
+ * with webhooks already received.
+ */
+
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { shopifyInventoryLevelSchema, shopifyOrderSchema, shopifyProductSchema } from '../lib/shopify';
+import { findShopifyStore, importShopifyPayload } from '../lib/shopify-import';
+
+const bodySchema = z.object({
+  shop: z.string().min(1),
+  orders: z.array(shopifyOrderSchema).optional(),
+  products: z.array(shopifyProductSchema).optional(),
+  inventory_levels: z.array(shopifyInventoryLevelSchema).optional()
+}).refine(body => body.orders || body.products || body.inventory_levels, {
+  message: 'Provide orders, products or inventory_levels',
+  path: ['orders']
+});
+
+const errorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ShopifyImportAPI',
+  type: 'api',
+  path: '/api/shopify/import',
+  method: 'POST',
+  description: 'Imports saved Shopify order, product and inventory level payloads into the fact tables',
+  emits: [],
+  flows: ['facts_ingestion'],
+  bodySchema,
+  responseSchema: {
+    200: z.object({
+      shop: z.string(),
+      storeId: z.string(),
+      orders: z.object({
+        orders: z.number(),
+        staleOrders: z.number(),
+        lines: z.number(),
+        unknownSkus: z.array(z.string()),
+        skippedLineItems: z.number(),
+        dailySales: z.number()
+      }).optional(),
+      variants: z.number().optional(),
+      mappedSnapshots: z.number().optional(),
+      inventory: z.object({
+        levels: z.number(),
+        applied: z.number(),
+        unmappedItems: z.array(z.string()),
+        snapshots: z.number()
+      }).optional()
+    }),
+    400: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ShopifyImportAPI'] = async (req, { logger }) => {
+  const parsedBody = bodySchema.safeParse(req.body ?? {});
+
+  if (!parsedBody.success) {
+    const message = parsedBody.error.issues
+      .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid Shopify import', { message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  const body = parsedBody.data;
+  const { data: store, error: storeError } = await findShopifyStore(body.shop);
+
+  if (storeError) {
+    logger.error('Failed to look up store for Shopify import', { shop: body.shop, error: storeError.message, step: 'shopify_import' });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to look up store: ${storeError.message}`
+      }
+    };
+  }
+
+  if (!store) {
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `No store has external_store_id ${body.shop}`
+      }
+    };
+  }
+
+  const { data: summary, error } = await importShopifyPayload(store, {
+    orders: body.orders,
+    products: body.products,
+    inventoryLevels: body.inventory_levels
+  });
+
+  if (error || !summary) {
+    logger.error('Failed to import Shopify payload', {
+      shop: store.shopDomain,
+      storeId: store.id,
+      error: error?.message,
+      step: 'shopify_import'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to import Shopify payload: ${error?.message ?? 'no result'}`
+      }
+    };
+  }
+
+  logger.info('Shopify payload imported', {
+    shop: store.shopDomain,
+    storeId: store.id,
+    ...summary,
+    step: 'shopify_import'
+  });
+
+  return {
+    status: 200,
+    body: {
+      shop: store.shopDomain,
+      storeId: store.id,
+      ...summary
+    }
+  };
+};
@@ -0,0 +1,218 @@
+/**
+ * Shopify Webhook Endpoint
+ *
+ * Receives Shopify webhooks for the shop linked to a store (f1_stores.external_store_id) and
+ * writes them into the fact tables through lib/shopify-import:
+ * orders/* → daily sales, products/create|update → variant SKUs of inventory items,
+ * inventory_levels/update|connect → inventory snapshots. Other topics are acknowledged and ignored.
+ * Requests are authenticated with the X-Shopify-Hmac-Sha256 signature (SHOPIFY_WEBHOOK_SECRET).
+ * Shopify retries non-2xx responses, and every import is idempotent, so retries are safe.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { shopifyInventoryLevelSchema, shopifyOrderSchema, shopifyProductSchema } from '../lib/shopify';
+import { findShopifyStore, importShopifyPayload } from '../lib/shopify-import';
+import type { ShopifyPayload } from '../lib/shopify-import';
+
+const ORDER_TOPICS = ['orders/create', 'orders/updated', 'orders/paid', 'orders/cancelled', 'orders/fulfilled', 'orders/partially_fulfilled'];
+const PRODUCT_TOPICS = ['products/create', 'products/update'];
+const INVENTORY_TOPICS = ['inventory_levels/update', 'inventory_levels/connect'];
+
+const errorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
+
+const countsSchema = z.object({
+  orders: z.object({
+    orders: z.number(),
+    staleOrders: z.number(),
+    lines: z.number(),
+    unknownSkus: z.array(z.string()),
+    skippedLineItems: z.number(),
+    dailySales: z.number()
+  }).optional(),
+  variants: z.number().optional(),
+  mappedSnapshots: z.number().optional(),
+  inventory: z.object({
+    levels: z.number(),
+    applied: z.number(),
+    unmappedItems: z.array(z.string()),
+    snapshots: z.number()
+  }).optional()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'ShopifyWebhookAPI',
+  type: 'api',
+  path: '/api/shopify/webhooks',
+  method: 'POST',
+  description: 'Imports Shopify order, product and inventory level webhooks into the fact tables',
+  emits: [],
+  flows: ['facts_ingestion'],
+  responseSchema: {
+    200: countsSchema.extend({
+      topic: z.string(),
+      shop: z.string(),
+      storeId: z.string().optional(),
+      ignored: z.boolean()
+    }),
+    400: errorSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+function header(headers: Record<string, string | string[]>, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function validSignature(rawBody: string, signature: string, secret: string): boolean {
+  const expected = createHmac('sha256', secret).update(rawBody, 'utf8').digest();
+  const received = Buffer.from(signature, 'base64');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+function payloadFor(topic: string, body: unknown): z.ZodSafeParseResult<ShopifyPayload> | null {
+  if (ORDER_TOPICS.includes(topic)) {
+    return shopifyOrderSchema.transform(order => ({ orders: [order] })).safeParse(body);
+  }
+  if (PRODUCT_TOPICS.includes(topic)) {
+    return shopifyProductSchema.transform(product => ({ products: [product] })).safeParse(body);
+  }
+  if (INVENTORY_TOPICS.includes(topic)) {
+    return shopifyInventoryLevelSchema.transform(level => ({ inventoryLevels: [level] })).safeParse(body);
+  }
+  return null;
+}
+
+export const handler: Handlers['ShopifyWebhookAPI'] = async (req, { logger }) => {
+  const topic = header(req.headers, 'x-shopify-topic') ?? '';
+  const shop = header(req.headers, 'x-shopify-shop-domain') ?? '';
+  const signature = header(req.headers, 'x-shopify-hmac-sha256') ?? '';
+  const webhookId = header(req.headers, 'x-shopify-webhook-id');
+  const secret = process.env.SHOPIFY_WEBHOOK_SECRET;
+
+  if (!secret) {
+    logger.error('SHOPIFY_WEBHOOK_SECRET is not set; rejecting Shopify webhook', { topic, shop, webhookId });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: 'Shopify webhooks are not configured'
+      }
+    };
+  }
+
+  if (!signature || !validSignature(req.rawBody, signature, secret)) {
+    logger.warn('Rejected Shopify webhook with an invalid signature', { topic, shop, webhookId });
+
+    return {
+      status: 401,
+      body: {
+        error: 'unauthorized',
+        message: 'Invalid X-Shopify-Hmac-Sha256 signature'
+      }
+    };
+  }
+
+  const parsed = payloadFor(topic, req.body);
+
+  if (!parsed) {
+    logger.info('Ignored Shopify webhook topic', { topic, shop, webhookId });
+
+    return {
+      status: 200,
+      body: { topic, shop, ignored: true }
+    };
+  }
+
+  if (!parsed.success) {
+    const message = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      .join('; ');
+
+    logger.warn('Rejected invalid Shopify webhook payload', { topic, shop, webhookId, message });
+
+    return {
+      status: 400,
+      body: {
+        error: 'bad_request',
+        message
+      }
+    };
+  }
+
+  const { data: store, error: storeError } = await findShopifyStore(shop);
+
+  if (storeError) {
+    logger.error('Failed to look up store for Shopify webhook', { topic, shop, error: storeError.message, step: 'shopify_webhook' });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to look up store: ${storeError.message}`
+      }
+    };
+  }
+
+  if (!store) {
+    // Not acknowledged, so Shopify keeps retrying until the shop is linked to a store
+    logger.warn('Shopify webhook from a shop that is not linked to a store', { topic, shop, webhookId });
+
+    return {
+      status: 404,
+      body: {
+        error: 'not_found',
+        message: `No store has external_store_id ${shop}`
+      }
+    };
+  }
+
+  const { data: summary, error } = await importShopifyPayload(store, parsed.data);
+
+  if (error || !summary) {
+    logger.error('Failed to import Shopify webhook', {
+      topic,
+      shop,
+      storeId: store.id,
+      webhookId,
+      error: error?.message,
+      step: 'shopify_webhook'
+    });
+
+    return {
+      status: 500,
+      body: {
+        error: 'internal_error',
+        message: `Failed to import ${topic}: ${error?.message ?? 'no result'}`
+      }
+    };
+  }
+
+  logger.info('Shopify webhook imported', {
+    topic,
+    shop,
+    storeId: store.id,
+    webhookId,
+    ...summary,
+    step: 'shopify_webhook'
+  });
+
+  return {
+    status: 200,
+    body: {
+      topic,
+      shop: store.shopDomain,
+      storeId: store.id,
+      ignored: false,
+      ...summary
+    }
+  };
+};
@@ -12,12 +12,42 @@ declare module 'motia' {
   }
 
   interface Handlers {
+    'RecordForecastAccuracy': EventHandler<{ asOf: string; evaluatedAt: string; evaluationCount: number; metrics: Array<{ productId: string; storeId: string | null; modelVersion: string; count: number; mae: number; rmse: number; mape: number | null; smape: number | null; bias: number; intervalCoverage: number | null }> }, never>
+    'EvaluateForecasts': EventHandler<{ triggeredAt: string; asOf?: string }, { topic: 'forecast-evaluated'; data: { asOf: string; evaluatedAt: string; evaluationCount: number; metrics: Array<{ productId: string; storeId: string | null; modelVersion: string; count: number; mae: number; rmse: number; mape: number | null; smape: number | null; bias: number; intervalCoverage: number | null }> } }>
+    'EvaluateForecastsCron': CronHandler<{ topic: 'evaluate-forecasts'; data: { triggeredAt: string; asOf?: string } }>
     'ProcessGreeting': EventHandler<{ timestamp: string; appName: string; greetingPrefix: string; requestId: string }, never>
     'HelloAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { message: string; status: string; appName: string }>, { topic: 'process-greeting'; data: { timestamp: string; appName: string; greetingPrefix: string; requestId: string } }>
-    'PersistForecastResult': EventHandler<{ requestId: string; forecastResult: { requestId: string; productId: string; storeId: string; generatedAt: string; forecastMethod: string; confidenceLevel: number; forecastPeriods: Array<{ date: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>; forecastSummary: { averageForecast: number; minForecast: number; maxForecast: number; trend: number; movingAverage?: number; trendSlope?: number } } }, never>
-    'LoadHistoricalFacts': EventHandler<{ requestId: string; productId?: string; timeRange?: string }, { topic: 'generate-forecast'; data: { requestId: string; historicalData: { productId: string; storeId: string; timeRange: string; dailySales: Array<{ date: string; value: number }>; inventorySnapshots: Array<{ date: string; value: number }>; loadedAt: string }; forecastParameters: { method: string; confidenceLevel: number } } }>
-    'GenerateForecast': EventHandler<{ requestId: string; historicalData: { productId: string; storeId: string; timeRange: string; dailySales: Array<{ date: string; value: number }>; inventorySnapshots: Array<{ date: string; value: number }>; loadedAt: string }; forecastParameters: { method: string; confidenceLevel: number } }, { topic: 'persist-forecast-result'; data: { requestId: string; forecastResult: { requestId: string; productId: string; storeId: string; generatedAt: string; forecastMethod: string; confidenceLevel: number; forecastPeriods: Array<{ date: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>; forecastSummary: { averageForecast: number; minForecast: number; maxForecast: number; trend: number; movingAverage?: number; trendSlope?: number } } } }>
-    'ForecastAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { message: string; status: string; requestId: string; productId?: string; timeRange?: string; timestamp: string }> | ApiResponse<400, { error: string; message: string }>, { topic: 'load-historical-facts'; data: { requestId: string; productId?: string; timeRange?: string } }>
+    'PersistForecastResult': EventHandler<{ requestId: string; forecastResult: { requestId: string; productId: string; storeId: string; generatedAt: string; forecastMethod: string; model: { name: string; version: string; parameters: Record<string, number> }; confidenceLevel: number; intervalMethod: 'normal' | 'bootstrap'; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; censoring: { method: 'impute' | 'exclude' | 'none'; censoredDays: number; adjustedDays: number }; dataQuality?: { passed: boolean; checkedAt: string; salesDays: number; filledDays: number; issues: Array<{ code: 'insufficient_history' | 'negative_quantity' | 'missing_days' | 'stale_sales' | 'outliers' | 'inventory_range_mismatch'; severity: 'blocking' | 'warning'; message: string; count: number; dates?: string[] }> }; forecastPeriods: Array<{ date: string; periodStart: string; periodEnd: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>; forecastSummary: { averageForecast: number; minForecast: number; maxForecast: number; trend: number; movingAverage?: number; trendSlope?: number }; inventory: { date: string; level: number; openingLevel: number } | null } }, { topic: 'dispatch-forecast-batch'; data: { batchId: string; lane: number; afterRequestId?: string } } | { topic: 'dispatch-chain-forecast'; data: { requestId: string; afterRequestId?: string } } | { topic: 'compute-replenishment'; data: { requestId: string; productId: string; storeId: string; modelVersion: string; confidenceLevel: number; forecastPeriods: Array<{ date: string; periodStart: string; periodEnd: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>; inventory: { date: string; level: number; openingLevel: number } } }>
+    'LoadHistoricalFacts': EventHandler<{ requestId: string; productId?: string; storeId?: string; timeRange?: string; asOf?: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' }, { topic: 'check-data-quality'; data: { requestId: string; historicalData: { productId: string; storeId: string; product?: { sku: string; name: string }; timeRange: string; window: { from: string; to: string }; dailySales: Array<{ date: string; value: number; censored?: boolean }>; inventorySnapshots: Array<{ date: string; value: number }>; loadedAt: string }; forecastParameters: { method: string; confidenceLevel: number; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' } } } | { topic: 'dispatch-forecast-batch'; data: { batchId: string; lane: number; afterRequestId?: string } } | { topic: 'dispatch-chain-forecast'; data: { requestId: string; afterRequestId?: string } }>
+    'CheckDataQuality': EventHandler<{ requestId: string; historicalData: { productId: string; storeId: string; product?: { sku: string; name: string }; timeRange: string; window: { from: string; to: string }; dailySales: Array<{ date: string; value: number; censored?: boolean }>; inventorySnapshots: Array<{ date: string; value: number }>; loadedAt: string }; forecastParameters: { method: string; confidenceLevel: number; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' } }, { topic: 'generate-forecast'; data: { requestId: string; historicalData: { productId: string; storeId: string; product?: { sku: string; name: string }; timeRange: string; window: { from: string; to: string }; dailySales: Array<{ date: string; value: number; censored?: boolean }>; inventorySnapshots: Array<{ date: string; value: number }>; loadedAt: string }; forecastParameters: { method: string; confidenceLevel: number; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' }; dataQuality?: { passed: boolean; checkedAt: string; salesDays: number; filledDays: number; issues: Array<{ code: 'insufficient_history' | 'negative_quantity' | 'missing_days' | 'stale_sales' | 'outliers' | 'inventory_range_mismatch'; severity: 'blocking' | 'warning'; message: string; count: number; dates?: string[] }> } } } | { topic: 'dispatch-forecast-batch'; data: { batchId: string; lane: number; afterRequestId?: string } } | { topic: 'dispatch-chain-forecast'; data: { requestId: string; afterRequestId?: string } }>
+    'GenerateForecast': EventHandler<{ requestId: string; historicalData: { productId: string; storeId: string; product?: { sku: string; name: string }; timeRange: string; window: { from: string; to: string }; dailySales: Array<{ date: string; value: number; censored?: boolean }>; inventorySnapshots: Array<{ date: string; value: number }>; loadedAt: string }; forecastParameters: { method: string; confidenceLevel: number; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' }; dataQuality?: { passed: boolean; checkedAt: string; salesDays: number; filledDays: number; issues: Array<{ code: 'insufficient_history' | 'negative_quantity' | 'missing_days' | 'stale_sales' | 'outliers' | 'inventory_range_mismatch'; severity: 'blocking' | 'warning'; message: string; count: number; dates?: string[] }> } }, { topic: 'persist-forecast-result'; data: { requestId: string; forecastResult: { requestId: string; productId: string; storeId: string; generatedAt: string; forecastMethod: string; model: { name: string; version: string; parameters: Record<string, number> }; confidenceLevel: number; intervalMethod: 'normal' | 'bootstrap'; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; censoring: { method: 'impute' | 'exclude' | 'none'; censoredDays: number; adjustedDays: number }; dataQuality?: { passed: boolean; checkedAt: string; salesDays: number; filledDays: number; issues: Array<{ code: 'insufficient_history' | 'negative_quantity' | 'missing_days' | 'stale_sales' | 'outliers' | 'inventory_range_mismatch'; severity: 'blocking' | 'warning'; message: string; count: number; dates?: string[] }> }; forecastPeriods: Array<{ date: string; periodStart: string; periodEnd: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>; forecastSummary: { averageForecast: number; minForecast: number; maxForecast: number; trend: number; movingAverage?: number; trendSlope?: number }; inventory: { date: string; level: number; openingLevel: number } | null } } } | { topic: 'dispatch-forecast-batch'; data: { batchId: string; lane: number; afterRequestId?: string } } | { topic: 'dispatch-chain-forecast'; data: { requestId: string; afterRequestId?: string } }>
+    'ForecastBacktestAPI': ApiRouteHandler<{ productId: string; storeId?: string; method?: string; methods?: string[]; horizon?: number; folds?: number; stepDays?: number; trainingDays?: number; asOf?: string; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none' }, ApiResponse<200, { message: string; backtestId: string; status: string; productId: string; storeId?: string; asOf: string; folds: number; from: string; to: string }> | ApiResponse<400, { error: string; message: string }>, { topic: 'run-forecast-backtest'; data: { backtestId: string; productId: string; storeId?: string; options: { methods: string[]; horizon: number; folds: number; stepDays: number; trainingDays: number; asOf: string; confidenceLevel: number; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none' } } }>
+    'ForecastBacktestStatusAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { backtestId: string; productId: string; storeId?: string; status: 'queued' | 'running' | 'completed' | 'failed'; parameters: { methods: string[]; horizon: number; folds: number; stepDays: number; trainingDays: number; asOf: string; confidenceLevel: number; intervalMethod?: string; censoring?: string }; error?: string; results?: Array<{ method: string; folds: Array<{ cutoff: string; trainFrom: string; trainTo: string; testFrom: string; testTo: string; trainingPoints: number; censoredDays?: number; qualityWarnings?: string[]; modelVersion?: string; metrics?: { count: number; mae: number; rmse: number; mape: number | null; smape: number | null; bias: number; intervalCoverage: number | null }; error?: string }>; aggregate: { count: number; mae: number; rmse: number; mape: number | null; smape: number | null; bias: number; intervalCoverage: number | null } }>; createdAt: string; updatedAt: string }> | ApiResponse<404, { error: string; message: string }>, never>
+    'RunForecastBacktest': EventHandler<{ backtestId: string; productId: string; storeId?: string; options: { methods: string[]; horizon: number; folds: number; stepDays: number; trainingDays: number; asOf: string; confidenceLevel: number; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none' } }, never>
+    'StartForecastBatch': EventHandler<{ batchId: string; triggeredAt: string; source: 'schedule' | 'api'; storeId?: string; concurrency: number }, { topic: 'dispatch-forecast-batch'; data: { batchId: string; lane: number; afterRequestId?: string } }>
+    'ScheduledForecastCron': CronHandler<{ topic: 'start-forecast-batch'; data: { batchId: string; triggeredAt: string; source: 'schedule' | 'api'; storeId?: string; concurrency: number } }>
+    'DispatchForecastBatch': EventHandler<{ batchId: string; lane: number; afterRequestId?: string }, { topic: 'load-historical-facts'; data: { requestId: string; productId?: string; storeId?: string; timeRange?: string; asOf?: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' } }>
+    'ReplenishmentSettingsAPI': ApiRouteHandler<{ leadTimeDays?: number; serviceLevel?: number; moq?: number; orderMultiple?: number; reviewPeriodDays?: number }, ApiResponse<200, { productId: string; settings: { leadTimeDays: number; serviceLevel: number; moq: number; orderMultiple: number; reviewPeriodDays: number } }> | ApiResponse<400, { error: string; message: string }> | ApiResponse<404, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, never>
+    'ReplenishmentAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { count: number; recommendations: Array<{ productId: string; storeId: string; requestId: string; modelVersion: string; createdAt: string; inventoryDate: string; inventoryLevel: number; openingStock: number; settings: { leadTimeDays: number; serviceLevel: number; moq: number; orderMultiple: number; reviewPeriodDays: number }; leadTimeDemand: number; safetyStock: number; reorderPoint: number; orderUpToLevel: number; daysOfCover: number | null; stockoutDate: string | null; reorderNow: boolean; suggestedOrderQuantity: number }> }> | ApiResponse<500, { error: string; message: string }>, never>
+    'ComputeReplenishment': EventHandler<{ requestId: string; productId: string; storeId: string; modelVersion: string; confidenceLevel: number; forecastPeriods: Array<{ date: string; periodStart: string; periodEnd: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>; inventory: { date: string; level: number; openingLevel: number } }, never>
+    'ForecastBatchStatusAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { batchId: string; source: 'schedule' | 'api' | 'ingest'; storeId?: string; createdAt: string; parameters: { timeRange: string; asOf: string; method?: string; horizon?: number; granularity?: string; intervalMethod?: string; censoring?: string; locale?: string }; status: 'running' | 'completed' | 'partially_failed' | 'failed'; total: number; counts: Record<'pending' | 'queued' | 'loading_facts' | 'checking_quality' | 'generating' | 'persisting' | 'completed' | 'failed', number>; failures: Array<{ productId: string; requestId?: string; step?: string; error?: string }>; products: Array<{ productId: string; requestId?: string; status: 'pending' | 'queued' | 'loading_facts' | 'checking_quality' | 'generating' | 'persisting' | 'completed' | 'failed'; step?: string; error?: string }> }> | ApiResponse<404, { error: string; message: string }>, never>
+    'ForecastBatchAPI': ApiRouteHandler<{ productIds?: string[]; storeId?: string; timeRange?: string | { from: string; to: string }; asOf?: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja'; concurrency?: number }, ApiResponse<200, { message: string; status: string; batchId: string; storeId?: string; productCount: number; concurrency: number; timeRange: string; asOf: string; method: string; horizon: number; granularity: string; intervalMethod: string; censoring: string; locale: string; timestamp: string }> | ApiResponse<400, { error: string; message: string }> | ApiResponse<404, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, { topic: 'dispatch-forecast-batch'; data: { batchId: string; lane: number; afterRequestId?: string } }>
+    'PersistHierarchyForecast': EventHandler<{ requestId: string; confidenceLevel: number; parameters: { timeRange: string; asOf: string; method: string; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; intervalMethod: 'normal' | 'bootstrap'; reconciliation: 'bottom_up' | 'top_down' | 'ols' | 'mint' }; nodes: Array<{ level: 'store' | 'sku_total' | 'store_total' | 'total'; productId: string | null; storeId: string | null; sku: string | null; modelVersion: string; forecastPeriods: Array<{ date: string; periodStart: string; periodEnd: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }> }> }, never>
+    'ReconcileHierarchyForecast': EventHandler<{ requestId: string; lastObservedDate: string; series: Array<{ productId: string; storeId: string; sku: string; values: number[] }>; parameters: { timeRange: string; asOf: string; method: string; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; intervalMethod: 'normal' | 'bootstrap'; reconciliation: 'bottom_up' | 'top_down' | 'ols' | 'mint' } }, { topic: 'persist-hierarchy-forecast'; data: { requestId: string; confidenceLevel: number; parameters: { timeRange: string; asOf: string; method: string; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; intervalMethod: 'normal' | 'bootstrap'; reconciliation: 'bottom_up' | 'top_down' | 'ols' | 'mint' }; nodes: Array<{ level: 'store' | 'sku_total' | 'store_total' | 'total'; productId: string | null; storeId: string | null; sku: string | null; modelVersion: string; forecastPeriods: Array<{ date: string; periodStart: string; periodEnd: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }> }> } }>
+    'LoadHierarchyFacts': EventHandler<{ requestId: string; storeIds?: string[]; skus?: string[]; parameters: { timeRange: string; asOf: string; method: string; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; intervalMethod: 'normal' | 'bootstrap'; reconciliation: 'bottom_up' | 'top_down' | 'ols' | 'mint' } }, { topic: 'reconcile-hierarchy-forecast'; data: { requestId: string; lastObservedDate: string; series: Array<{ productId: string; storeId: string; sku: string; values: number[] }>; parameters: { timeRange: string; asOf: string; method: string; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; intervalMethod: 'normal' | 'bootstrap'; reconciliation: 'bottom_up' | 'top_down' | 'ols' | 'mint' } } }>
+    'HierarchicalForecastAPI': ApiRouteHandler<{ storeIds?: string[]; skus?: string[]; timeRange?: string | { from: string; to: string }; asOf?: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; reconciliation?: 'bottom_up' | 'top_down' | 'ols' | 'mint' }, ApiResponse<200, { message: string; status: string; requestId: string; storeIds?: string[]; skus?: string[]; timeRange: string; asOf: string; method: string; horizon: number; granularity: string; intervalMethod: string; reconciliation: string; timestamp: string }> | ApiResponse<400, { error: string; message: string }>, { topic: 'load-hierarchy-facts'; data: { requestId: string; storeIds?: string[]; skus?: string[]; parameters: { timeRange: string; asOf: string; method: string; horizon: number; granularity: 'daily' | 'weekly' | 'monthly'; intervalMethod: 'normal' | 'bootstrap'; reconciliation: 'bottom_up' | 'top_down' | 'ols' | 'mint' } } }>
+    'AggregateChainForecast': EventHandler<{ requestId: string }, never>
+    'DispatchChainForecast': EventHandler<{ requestId: string; afterRequestId?: string }, { topic: 'load-historical-facts'; data: { requestId: string; productId?: string; storeId?: string; timeRange?: string; asOf?: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' } } | { topic: 'aggregate-chain-forecast'; data: { requestId: string } }>
+    'StartChainForecast': EventHandler<{ requestId: string; productId: string; parameters: { timeRange: string; asOf: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' } }, { topic: 'dispatch-chain-forecast'; data: { requestId: string; afterRequestId?: string } }>
+    'ReplayForecastAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { requestId: string; productId: string; storeId: string; window: { from: string; to: string; asOf: string }; reproducible: boolean; facts: { changed: boolean; storedHash: string; currentHash: string; salesRows: { stored: number; current: number }; inventoryRows: { stored: number; current: number } }; appVersion: { stored: string | null; current: string }; model: { stored: { name: string; version: string; parameters: Record<string, number> }; replayed: { name: string; version: string; parameters: Record<string, number> } | null; matches: boolean }; periods: Array<{ date: string; stored: { quantity: number; lower: number | null; upper: number | null } | null; replayed: { quantity: number; lower: number | null; upper: number | null } | null; matches: boolean }>; mismatchedPeriods: number; error?: string }> | ApiResponse<404, { error: string; message: string }> | ApiResponse<409, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, never>
+    'SweepExplanationCacheCron': CronHandler<never>
+    'ExplanationUsageAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { from: string; to: string; totals: { calls: number; failedCalls: number; promptTokens: number; completionTokens: number; cacheHits: number; fallbacks: number; rateLimited: number }; providers: Record<string, { calls: number; failedCalls: number; promptTokens: number; completionTokens: number; cacheHits: number; fallbacks: number; rateLimited: number }>; days: Array<{ calls: number; failedCalls: number; promptTokens: number; completionTokens: number; cacheHits: number; fallbacks: number; rateLimited: number; date: string; provider: string }> }> | ApiResponse<400, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, never>
+    'ForecastsQueryAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { productId: string; storeId?: string; from?: string; to?: string; asOf?: string; mode: 'latest' | 'history'; count: number; forecasts?: Array<{ forecastDate: string; periodStart: string | null; periodEnd: string | null; granularity: string; storeId: string | null; aggregationLevel: string; forecastQuantity: number; forecastLower: number | null; forecastUpper: number | null; confidenceLevel: number | null; modelVersion: string; requestId: string | null; createdAt: string }>; history?: Array<{ forecastDate: string; storeId: string | null; aggregationLevel: string; granularity: string; versions: Array<{ forecastDate: string; periodStart: string | null; periodEnd: string | null; granularity: string; storeId: string | null; aggregationLevel: string; forecastQuantity: number; forecastLower: number | null; forecastUpper: number | null; confidenceLevel: number | null; modelVersion: string; requestId: string | null; createdAt: string }> }> }> | ApiResponse<400, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, never>
+    'IngestFactsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { kind: 'sales' | 'inventory'; format: 'json' | 'csv'; received: number; upserted: number; rejected: number; errors: Array<{ row: number; line?: number; field?: string; message: string }>; reforecast?: { batchId: string; productCount: number } }> | ApiResponse<400, { error: string; message: string }> | ApiResponse<404, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, { topic: 'dispatch-forecast-batch'; data: { batchId: string; lane: number; afterRequestId?: string } }>
+    'ShopifyWebhookAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { orders?: { orders: number; staleOrders: number; lines: number; unknownSkus: string[]; skippedLineItems: number; dailySales: number }; variants?: number; mappedSnapshots?: number; inventory?: { levels: number; applied: number; unmappedItems: string[]; snapshots: number }; topic: string; shop: string; storeId?: string; ignored: boolean }> | ApiResponse<400, { error: string; message: string }> | ApiResponse<401, { error: string; message: string }> | ApiResponse<404, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, never>
+    'ShopifyImportAPI': ApiRouteHandler<{ shop: string; orders?: Array<{ id: number | string; created_at: string; updated_at: string; cancelled_at?: string | null; test?: boolean; line_items: Array<{ id: number | string; variant_id?: number | string | null; sku?: string | null; quantity: number }>; refunds?: Array<{ id: number | string; created_at: string; refund_line_items?: Array<{ line_item_id: number | string; quantity: number }> }> }>; products?: Array<{ id: number | string; variants?: Array<{ id: number | string; sku?: string | null; inventory_item_id?: number | string | null }> }>; inventory_levels?: Array<{ inventory_item_id: number | string; location_id: number | string; available: number | null; updated_at: string }> }, ApiResponse<200, { shop: string; storeId: string; orders?: { orders: number; staleOrders: number; lines: number; unknownSkus: string[]; skippedLineItems: number; dailySales: number }; variants?: number; mappedSnapshots?: number; inventory?: { levels: number; applied: number; unmappedItems: string[]; snapshots: number } }> | ApiResponse<400, { error: string; message: string }> | ApiResponse<404, { error: string; message: string }> | ApiResponse<500, { error: string; message: string }>, never>
+    'ForecastStatusAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { requestId: string; productId?: string; storeId?: string; timeRange?: string; parentRequestId?: string; storeRuns?: Record<string, string>; batchId?: string; batchLane?: number; status: 'queued' | 'loading_facts' | 'checking_quality' | 'generating' | 'persisting' | 'completed' | 'failed'; step?: string; error?: string; dataQuality?: { passed: boolean; checkedAt: string; salesDays: number; filledDays: number; issues: Array<{ code: 'insufficient_history' | 'negative_quantity' | 'missing_days' | 'stale_sales' | 'outliers' | 'inventory_range_mismatch'; severity: 'blocking' | 'warning'; message: string; count: number; dates?: string[] }> }; hierarchy?: { reconciliation: string; series: number; stores: number; skus: number; skippedProducts: number }; lineage?: { window?: { from: string; to: string; asOf: string }; facts?: { salesRows: number; inventoryRows: number; hash: string; stockoutThreshold?: number }; forecastParameters?: Record<string, unknown>; model?: { name: string; version: string; parameters: Record<string, number> }; appVersion?: string; rationaleSource?: 'gemini' | 'openai' | 'template' | 'recorded' | 'fallback' }; stepTimings?: Array<{ step: string; startedAt: string; finishedAt?: string; durationMs?: number }>; createdAt: string; updatedAt: string; forecastPeriods?: Array<{ date: string; periodStart?: string; periodEnd?: string; forecastValue: number; confidenceInterval: { lower: number; upper: number } }>; forecastSummary?: Record<string, unknown>; censoring?: { method: string; censoredDays: number; adjustedDays: number }; forecastRationale?: string; forecastRationales?: Record<string, string> }> | ApiResponse<404, { error: string; message: string }>, never>
+    'ForecastAPI': ApiRouteHandler<{ productId?: string; storeId?: string; allStores?: boolean; timeRange?: string | { from: string; to: string }; asOf?: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' }, ApiResponse<200, { message: string; status: string; requestId: string; productId?: string; storeId?: string; allStores: boolean; timeRange?: string; asOf?: string; method?: string; horizon?: number; granularity?: string; intervalMethod?: string; censoring?: string; locale?: string; timestamp: string }> | ApiResponse<400, { error: string; message: string }>, { topic: 'load-historical-facts'; data: { requestId: string; productId?: string; storeId?: string; timeRange?: string; asOf?: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' } } | { topic: 'start-chain-forecast'; data: { requestId: string; productId: string; parameters: { timeRange: string; asOf: string; method?: string; horizon?: number; granularity?: 'daily' | 'weekly' | 'monthly'; intervalMethod?: 'normal' | 'bootstrap'; censoring?: 'impute' | 'exclude' | 'none'; locale?: 'en' | 'ja' } } }>
   }
     
 }
\ No newline at end of file
@@ -90,4 +90,293 @@ ALTER TABLE public.inventory_snapshots RENAME TO f1_inventory_snapshots;
 ALTER TABLE public.forecast_results RENAME TO f1_forecast_results;
 ALTER TABLE public.products RENAME TO f1_products;
 ALTER TABLE public.stores RENAME TO f1_stores;
-ALTER TABLE public.forecast_evaluations RENAME TO f1_forecast_evaluations;
\ No newline at end of file
+ALTER TABLE public.forecast_evaluations RENAME TO f1_forecast_evaluations;
+
+---⑨ 予測期間（horizon / granularity）
+-- forecast_date は期間の初日。weekly は ISO週（月〜日）、monthly は暦月で集計
+alter table public.f1_forecast_results
+  add column period_start date,
+  add column period_end date,
+  add column granularity text not null default 'daily'
+    check (granularity in ('daily', 'weekly', 'monthly'));
+
+
+---⑩ 予測区間（prediction interval）
+-- forecast_quantity は点予測、forecast_lower / forecast_upper は confidence_level の予測区間（0 で下限クリップ）
+alter table public.f1_forecast_results
+  add column forecast_lower numeric,
+  add column forecast_upper numeric,
+  add column confidence_level numeric,
+  add column interval_method text
+    check (interval_method in ('normal', 'bootstrap'));
+
+
+---⑪ forecast_evaluations の冪等化
+-- 1つの予測結果につき評価は1件のみ（再配信・重複実行は no-op）
+-- error = actual_quantity - forecast_quantity（正 = 過小予測）
+alter table public.f1_forecast_evaluations
+  add constraint f1_forecast_evaluations_forecast_result_id_key unique (forecast_result_id);
+
+
+---⑫ 補充（発注）推奨
+-- 商品ごとの補充設定。行がない商品はアプリ側のデフォルト（リードタイム7日、サービス率95%）を使う
+create table public.f1_replenishment_settings (
+  product_id uuid primary key references public.f1_products(id),
+  lead_time_days integer not null default 7 check (lead_time_days >= 0),
+  service_level numeric not null default 0.95 check (service_level > 0.5 and service_level < 1),
+  moq numeric not null default 0 check (moq >= 0),                       -- 最小発注数量
+  order_multiple numeric not null default 1 check (order_multiple > 0),  -- 発注単位（ケース入数など）
+  review_period_days integer not null default 7 check (review_period_days >= 1),
+  updated_at timestamptz default now()
+);
+
+-- 予測1回（request_id）につき推奨1件。予測結果と同じく上書きせず履歴として残す
+create table public.f1_replenishment_recommendations (
+  id uuid primary key default gen_random_uuid(),
+  request_id text not null unique,
+  store_id uuid not null references public.f1_stores(id),
+  product_id uuid not null references public.f1_products(id),
+  model_version text not null,
+  inventory_date date not null,          -- 最新在庫スナップショットの日付
+  inventory_level numeric not null,
+  opening_stock numeric not null,        -- スナップショット以降の販売を差し引いた予測開始時点の在庫
+  lead_time_days integer not null,
+  service_level numeric not null,
+  moq numeric not null,
+  order_multiple numeric not null,
+  review_period_days integer not null,
+  lead_time_demand numeric not null,
+  safety_stock numeric not null,
+  reorder_point numeric not null,
+  order_up_to_level numeric not null,
+  days_of_cover numeric,                 -- 需要予測がゼロなら null
+  stockout_date date,
+  reorder_now boolean not null,
+  suggested_order_quantity numeric not null,
+  created_at timestamptz default now()
+);
+
+create index on public.f1_replenishment_recommendations (product_id, created_at desc);
+
+-- 商品ごとの最新の推奨
+create view public.f1_latest_replenishment_recommendations as
+select distinct on (product_id) *
+from public.f1_replenishment_recommendations
+order by product_id, created_at desc;
+
+
+---⑬ データ品質の警告
+-- 予測前の品質チェック（欠損日・外れ値・在庫期間の不一致など）の warning を予測結果ごとに保存
+-- 例: [{"code": "missing_days", "severity": "warning", "message": "...", "count": 2, "dates": ["2026-01-03", "2026-01-04"]}]
+alter table public.f1_forecast_results
+  add column data_quality_warnings jsonb not null default '[]'::jsonb;
+
+
+---⑭ 店舗別予測とチェーン合計
+-- 予測は店舗ごと（aggregation_level = 'store'）。allStores 実行ではチェーン合計行（'chain'、store_id は null）も書く
+-- チェーン行の forecast_quantity は同じ期間の店舗行（四捨五入後）の合計
+alter table public.f1_forecast_results
+  alter column store_id drop not null,
+  add column aggregation_level text not null default 'store'
+    check (aggregation_level in ('store', 'chain')),
+  add constraint f1_forecast_results_store_scope_check
+    check ((aggregation_level = 'chain') = (store_id is null));
+
+create index on public.f1_daily_sales (product_id, store_id, sales_date);
+create index on public.f1_inventory_snapshots (product_id, store_id, snapshot_date);
+
+-- 補充推奨の最新は商品×店舗ごと
+create or replace view public.f1_latest_replenishment_recommendations as
+select distinct on (product_id, store_id) *
+from public.f1_replenishment_recommendations
+order by product_id, store_id, created_at desc;
+
+
+---⑮ 階層予測と整合化（reconciliation）
+-- 階層: 合計 → 店舗合計 / SKU合計 → SKU×店舗（f1_products の1行）
+-- aggregation_level: store = SKU×店舗, chain = 商品の全店舗合計, sku_total = SKUの全店舗合計, store_total = 店舗の全SKU合計, total = 全体合計
+-- reconciliation_method: bottom_up / top_down（過去の構成比） / ols / mint。単独の予測（forecast_pipeline の店舗行）は null
+alter table public.f1_forecast_results
+  alter column product_id drop not null,
+  add column sku text,
+  add column reconciliation_method text
+    check (reconciliation_method in ('bottom_up', 'top_down', 'ols', 'mint'));
+
+alter table public.f1_forecast_results
+  drop constraint f1_forecast_results_store_scope_check,
+  drop constraint f1_forecast_results_aggregation_level_check,
+  add constraint f1_forecast_results_aggregation_level_check
+    check (aggregation_level in ('store', 'chain', 'sku_total', 'store_total', 'total')),
+  add constraint f1_forecast_results_level_scope_check
+    check (
+      (aggregation_level = 'store' and store_id is not null and product_id is not null) or
+      (aggregation_level = 'chain' and store_id is null and product_id is not null) or
+      (aggregation_level = 'sku_total' and store_id is null and product_id is null and sku is not null) or
+      (aggregation_level = 'store_total' and store_id is not null and product_id is null) or
+      (aggregation_level = 'total' and store_id is null and product_id is null)
+    );
+
+create index on public.f1_forecast_results (aggregation_level, forecast_date);
+
+
+---⑯ forecast_results の冪等化
+-- 予測1回（request_id）の全期間を1回の upsert で書き込み、再配信されたイベントは重複行を作らない
+-- 店舗別予測とチェーン合計は1日付1行。階層予測は同じ日付に複数ノードがあるため request_id は null のまま
+alter table public.f1_forecast_results
+  add column request_id text,
+  add constraint f1_forecast_results_request_date_key unique (request_id, forecast_date);
+
+
+---⑰ 予測実行（run）の来歴
+-- requestId ごとに1行。読み込んだ事実データ（期間・件数・ハッシュ）、予測パラメータ、モデルと推定パラメータ、
+-- アプリのバージョン、根拠文の生成元、各ステップの所要時間、最終ステータスを記録する
+-- 結果の書き込み前と完了・失敗時に上書き（upsert）される
+create table public.f1_forecast_runs (
+  request_id text primary key,
+  parent_request_id text,                -- 全店舗（チェーン）予測の店舗別 run の場合、親の request_id
+  batch_id text,
+  product_id uuid references public.f1_products(id),
+  store_id uuid references public.f1_stores(id),
+  time_range text,
+  window_from date,
+  window_to date,
+  as_of date,
+  sales_rows integer,
+  inventory_rows integer,
+  facts_hash text,                       -- 読み込んだ販売・在庫行の sha256（順序に依存しない）
+  stockout_threshold numeric,
+  forecast_parameters jsonb,
+  model_name text,
+  model_version text,
+  model_parameters jsonb,
+  app_version text,                      -- 環境変数 APP_VERSION
+  rationale_source text check (rationale_source in ('gemini', 'fallback')),
+  step_timings jsonb not null default '[]'::jsonb,
+  status text not null,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index on public.f1_forecast_runs (product_id, store_id, created_at);
+
+-- 予測結果の各行は、それを生成した run を参照する（階層予測の行も含む）
+alter table public.f1_forecast_results
+  add column forecast_run_id text references public.f1_forecast_runs(request_id);
+
+create index on public.f1_forecast_results (forecast_run_id);
+
+
+---⑱ Shopify 取り込み
+-- f1_stores.external_store_id に Shopify のショップドメイン（例: example.myshopify.com、小文字）を入れると、そのショップの注文・在庫を取り込む
+-- timezone はショップのタイムゾーン（IANA、例: Asia/Tokyo）。null の場合は Shopify の日時に付いている UTC オフセットで日付を決める
+alter table public.f1_stores
+  add column timezone text;
+
+create unique index on public.f1_stores (external_store_id) where external_store_id is not null;
+
+-- 注文明細の台帳。f1_daily_sales は台帳の商品×日付の合計で書き直す（同じ注文の再配信・更新は冪等）
+-- quantity は返金分を差し引いた数量。キャンセル・テスト注文は 0
+create table public.f1_shopify_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  store_id uuid not null references public.f1_stores(id),
+  order_id text not null,
+  line_item_id text not null,
+  product_id uuid not null references public.f1_products(id),
+  sales_date date not null,              -- ショップのタイムゾーンでの注文日
+  quantity integer not null check (quantity >= 0),
+  updated_at timestamptz not null default now(),
+  unique (store_id, order_id, line_item_id)
+);
+
+create index on public.f1_shopify_order_lines (store_id, product_id, sales_date);
+
+-- バリアントの在庫アイテム → SKU（在庫レベルは inventory_item_id しか持たないため）
+create table public.f1_shopify_inventory_items (
+  store_id uuid not null references public.f1_stores(id),
+  inventory_item_id text not null,
+  sku text not null,
+  updated_at timestamptz not null default now(),
+  primary key (store_id, inventory_item_id)
+);
+
+-- ロケーションごとの最新の在庫数。f1_inventory_snapshots は全ロケーションの合計（マイナスは 0 として）
+create table public.f1_shopify_inventory_levels (
+  store_id uuid not null references public.f1_stores(id),
+  inventory_item_id text not null,
+  location_id text not null,
+  available integer not null,
+  updated_at timestamptz not null,
+  primary key (store_id, inventory_item_id, location_id)
+);
+
+
+---⑲ 説明文プロバイダの切り替え
+-- rationale_source は説明文を書いたプロバイダ（EXPLANATION_PROVIDER）。template は設定でテンプレートを選んだ場合、
+-- fallback は設定したプロバイダが失敗・タイムアウト・サーキットオープンでテンプレートに切り替えた場合
+alter table public.f1_forecast_runs
+  drop constraint f1_forecast_runs_rationale_source_check,
+  add constraint f1_forecast_runs_rationale_source_check
+    check (rationale_source in ('gemini', 'openai', 'template', 'recorded', 'fallback'));
+
+
+---⑳ 説明文の検証
+-- LLM の回答は保存前に検証する（回答中の数値はプロンプトで渡した値のみ、長さ・言語）
+-- rationale_validation: {"status": "valid" | "repaired" | "rejected", "issues": ["..."]}。プロバイダが回答しなかった場合は null
+-- rationale_fallback_reason: テンプレートの説明文に切り替えた理由（プロバイダの失敗、回答の却下など）
+alter table public.f1_forecast_results
+  add column rationale_validation jsonb,
+  add column rationale_fallback_reason text;
+
+
+---㉑ 説明文の多言語化（日本語・英語）
+-- 予測ごとに全ロケール（en, ja）の説明文を生成して保存する。forecast_rationale はリクエストの locale の説明文
+-- forecast_rationales: {"en": {"rationale": "...", "source": "gemini", "validation": {...}, "error": "..."}, "ja": {...}}
+-- source / validation / error はロケールごとの rationale_source / rationale_validation / rationale_fallback_reason に相当
+alter table public.f1_forecast_results
+  add column rationale_locale text check (rationale_locale in ('en', 'ja')),
+  add column forecast_rationales jsonb;
+
+
+---㉒ 階層予測の冪等化
+-- 階層予測は同じ日付に複数ノードがあるため、run（forecast_run_id）×ノード×日付で一意にする
+-- node_key: aggregation_level:store_id:product_id:sku（null は空文字）。再配信されたイベントは既存の行を飛ばす
+alter table public.f1_forecast_results
+  add column node_key text generated always as (
+    aggregation_level || ':' || coalesce(store_id::text, '') || ':' ||
+    coalesce(product_id::text, '') || ':' || coalesce(sku, '')
+  ) stored,
+  add constraint f1_forecast_results_run_node_date_key unique (forecast_run_id, node_key, forecast_date);
+
+
+---㉓ Shopify 注文の取り込み順序
+-- 注文ごとに取り込んだ版（Shopify の updated_at）を記録する。Webhook は順不同で届くため、
+-- 記録済みの版より古い注文は台帳に反映しない
+create table public.f1_shopify_orders (
+  store_id uuid not null references public.f1_stores(id),
+  order_id text not null,
+  updated_at timestamptz not null,       -- 取り込んだ注文の Shopify 上の更新日時
+  primary key (store_id, order_id)
+);
+
+
+---㉔ 最新の予測バージョンの取得
+-- 予測行は上書きしないため、対象（店舗またはチェーン × 粒度 × 日付）ごとに実行の数だけ版がある
+-- 最新版（created_at が最も新しい行）の選択を DB 側で行う。p_created_at_most を指定するとその時点までに作られた版から選ぶ
+-- 店舗・期間・粒度の絞り込みは呼び出し側のフィルタ（PostgREST）で行う
+create index on public.f1_forecast_results (product_id, store_id, granularity, forecast_date, created_at desc);
+
+create function public.f1_latest_forecast_versions(
+  p_product_id uuid,
+  p_created_at_most timestamptz default null
+)
+returns setof public.f1_forecast_results
+language sql
+stable
+as $$
+  select distinct on (store_id, granularity, forecast_date) *
+  from public.f1_forecast_results
+  where product_id = p_product_id
+    and (p_created_at_most is null or created_at <= p_created_at_most)
+  order by store_id, granularity, forecast_date, created_at desc, id desc
+$$;